@@ -1,5 +1,9 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
+import { ThemeProvider } from './contexts/ThemeContext';
+import { TeamProvider } from './contexts/TeamContext';
+import { AchievementProvider } from './contexts/AchievementContext';
+import { NotificationProvider } from './contexts/NotificationContext';
 import { ToastProvider } from './components/shared/Toast';
 import { ErrorBoundary } from './components/shared/ErrorBoundary';
 import { ProtectedRoute } from './components/layout/ProtectedRoute';
@@ -8,71 +12,160 @@ import { AuthPage } from './pages/AuthPage';
 import { DashboardPage } from './pages/DashboardPage';
 import { LogsPage } from './pages/LogsPage';
 import { LeaderboardPage } from './pages/LeaderboardPage';
+import { TeamsPage } from './pages/TeamsPage';
+import { ChallengesPage } from './pages/ChallengesPage';
+import { ChallengePage } from './pages/ChallengePage';
+import { DuelsPage } from './pages/DuelsPage';
+import { DuelPage } from './pages/DuelPage';
+import { JoinTeamPage } from './pages/JoinTeamPage';
 import { ProfilePage } from './pages/ProfilePage';
+import { PublicProfilePage } from './pages/PublicProfilePage';
 import { SettingsPage } from './pages/SettingsPage';
+import { NotificationsPage } from './pages/NotificationsPage';
+import { UnsubscribePage } from './pages/UnsubscribePage';
 
 function App() {
   return (
     <ErrorBoundary>
       <BrowserRouter>
         <AuthProvider>
-          <ToastProvider>
-            <Routes>
-              <Route path="/auth" element={<AuthPage />} />
-              <Route
-                path="/dashboard"
-                element={
-                  <ProtectedRoute>
-                    <AppLayout>
-                      <DashboardPage />
-                    </AppLayout>
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/logs"
-                element={
-                  <ProtectedRoute>
-                    <AppLayout>
-                      <LogsPage />
-                    </AppLayout>
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/leaderboard"
-                element={
-                  <ProtectedRoute>
-                    <AppLayout>
-                      <LeaderboardPage />
-                    </AppLayout>
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/profile"
-                element={
-                  <ProtectedRoute>
-                    <AppLayout>
-                      <ProfilePage />
-                    </AppLayout>
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/settings"
-                element={
-                  <ProtectedRoute>
-                    <AppLayout>
-                      <SettingsPage />
-                    </AppLayout>
-                  </ProtectedRoute>
-                }
-              />
-              <Route path="/" element={<Navigate to="/dashboard" replace />} />
-              <Route path="*" element={<Navigate to="/dashboard" replace />} />
-            </Routes>
-          </ToastProvider>
+          <ThemeProvider>
+            <TeamProvider>
+              <ToastProvider>
+                <AchievementProvider>
+                  <NotificationProvider>
+                    <Routes>
+                      <Route path="/auth" element={<AuthPage />} />
+                      <Route path="/join/:code" element={<JoinTeamPage />} />
+                      <Route path="/unsubscribe" element={<UnsubscribePage />} />
+                      <Route
+                        path="/dashboard"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <DashboardPage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/logs"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <LogsPage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/leaderboard"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <LeaderboardPage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/challenges"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <ChallengesPage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/challenges/:challengeId"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <ChallengePage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/duels"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <DuelsPage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/duels/:duelId"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <DuelPage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/teams"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <TeamsPage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/profile"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <ProfilePage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/u/:userId"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <PublicProfilePage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/settings"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <SettingsPage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/notifications"
+                        element={
+                          <ProtectedRoute>
+                            <AppLayout>
+                              <NotificationsPage />
+                            </AppLayout>
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route path="/" element={<Navigate to="/dashboard" replace />} />
+                      <Route path="*" element={<Navigate to="/dashboard" replace />} />
+                    </Routes>
+                  </NotificationProvider>
+                </AchievementProvider>
+              </ToastProvider>
+            </TeamProvider>
+          </ThemeProvider>
         </AuthProvider>
       </BrowserRouter>
     </ErrorBoundary>
@@ -32,14 +32,14 @@ export function SignInForm({ onSuccess, onToggleMode, onForgotPassword }: SignIn
 
   return (
     <div className="w-full max-w-md mx-auto">
-      <div className="bg-gray-800 rounded-lg shadow-xl p-8">
-        <h2 className="text-3xl font-bold text-white mb-6 text-center">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-8">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-6 text-center">
           Welcome Back
         </h2>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
-            <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Email
             </label>
             <input
@@ -48,14 +48,14 @@ export function SignInForm({ onSuccess, onToggleMode, onForgotPassword }: SignIn
               value={email}
               onChange={(e) => setEmail(e.target.value)}
               required
-              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               placeholder="you@example.com"
               disabled={loading}
             />
           </div>
 
           <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Password
             </label>
             <input
@@ -64,14 +64,14 @@ export function SignInForm({ onSuccess, onToggleMode, onForgotPassword }: SignIn
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               required
-              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               placeholder="Your password"
               disabled={loading}
             />
           </div>
 
           {error && (
-            <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-400 text-sm">
+            <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm">
               {error}
             </div>
           )}
@@ -79,7 +79,7 @@ export function SignInForm({ onSuccess, onToggleMode, onForgotPassword }: SignIn
           <button
             type="submit"
             disabled={loading}
-            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center"
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center"
           >
             {loading ? (
               <>
@@ -95,17 +95,17 @@ export function SignInForm({ onSuccess, onToggleMode, onForgotPassword }: SignIn
         <div className="mt-4 text-center">
           <button
             onClick={onForgotPassword}
-            className="text-sm text-blue-400 hover:text-blue-300"
+            className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
           >
             Forgot password?
           </button>
         </div>
 
-        <div className="mt-6 text-center text-gray-400">
+        <div className="mt-6 text-center text-gray-600 dark:text-gray-400">
           Don't have an account?{' '}
           <button
             onClick={onToggleMode}
-            className="text-blue-400 hover:text-blue-300 font-medium"
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
           >
             Sign Up
           </button>
@@ -44,14 +44,14 @@ export function SignUpForm({ onSuccess, onToggleMode }: SignUpFormProps) {
 
   return (
     <div className="w-full max-w-md mx-auto">
-      <div className="bg-gray-800 rounded-lg shadow-xl p-8">
-        <h2 className="text-3xl font-bold text-white mb-6 text-center">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-8">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-6 text-center">
           Create Account
         </h2>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
-            <label htmlFor="displayName" className="block text-sm font-medium text-gray-300 mb-2">
+            <label htmlFor="displayName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Display Name
             </label>
             <input
@@ -60,14 +60,14 @@ export function SignUpForm({ onSuccess, onToggleMode }: SignUpFormProps) {
               value={displayName}
               onChange={(e) => setDisplayName(e.target.value)}
               required
-              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               placeholder="How should we call you?"
               disabled={loading}
             />
           </div>
 
           <div>
-            <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Email
             </label>
             <input
@@ -76,14 +76,14 @@ export function SignUpForm({ onSuccess, onToggleMode }: SignUpFormProps) {
               value={email}
               onChange={(e) => setEmail(e.target.value)}
               required
-              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               placeholder="you@example.com"
               disabled={loading}
             />
           </div>
 
           <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Password
             </label>
             <input
@@ -93,14 +93,14 @@ export function SignUpForm({ onSuccess, onToggleMode }: SignUpFormProps) {
               onChange={(e) => setPassword(e.target.value)}
               required
               minLength={6}
-              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               placeholder="At least 6 characters"
               disabled={loading}
             />
           </div>
 
           {error && (
-            <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-400 text-sm">
+            <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm">
               {error}
             </div>
           )}
@@ -108,7 +108,7 @@ export function SignUpForm({ onSuccess, onToggleMode }: SignUpFormProps) {
           <button
             type="submit"
             disabled={loading}
-            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center"
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center"
           >
             {loading ? (
               <>
@@ -121,11 +121,11 @@ export function SignUpForm({ onSuccess, onToggleMode }: SignUpFormProps) {
           </button>
         </form>
 
-        <div className="mt-6 text-center text-gray-400">
+        <div className="mt-6 text-center text-gray-600 dark:text-gray-400">
           Already have an account?{' '}
           <button
             onClick={onToggleMode}
-            className="text-blue-400 hover:text-blue-300 font-medium"
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
           >
             Sign In
           </button>
@@ -0,0 +1,227 @@
+import { useState, FormEvent } from 'react';
+import { Loader2, Save, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase } from '../../lib/supabase';
+import { addWeeks, formatWeekLabel, getWeekStartDateString } from '../../lib/weekUtils';
+import { CHALLENGE_RULES } from '../../lib/challenges';
+import type { Challenge, ChallengeRule } from '../../types';
+
+interface CreateChallengeFormProps {
+  teamId: string;
+  onCreated: (challenge: Challenge) => void;
+  onCancel: () => void;
+}
+
+const START_WEEK_OPTIONS = 9;
+const MAX_LENGTH_WEEKS = 12;
+
+export function CreateChallengeForm({ teamId, onCreated, onCancel }: CreateChallengeFormProps) {
+  const { user } = useAuth();
+  const currentWeek = getWeekStartDateString(new Date());
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    startWeek: addWeeks(currentWeek, 1),
+    lengthWeeks: '4',
+    rule: 'lowest_total' as ChallengeRule,
+    targetHours: '',
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startWeeks = Array.from({ length: START_WEEK_OPTIONS }, (_, i) => addWeeks(currentWeek, i));
+  const endWeek = addWeeks(formData.startWeek, parseInt(formData.lengthWeeks) - 1);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setError(null);
+
+    if (!formData.name.trim()) {
+      setError('Challenge name cannot be empty');
+      return;
+    }
+
+    let targetMinutes: number | null = null;
+    if (formData.rule === 'under_target_weeks') {
+      targetMinutes = Math.round(parseFloat(formData.targetHours) * 60);
+      if (!targetMinutes || targetMinutes <= 0 || targetMinutes > 10080) {
+        setError('Enter a weekly limit between 1 minute and 168 hours');
+        return;
+      }
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('challenges')
+        .insert({
+          team_id: teamId,
+          name: formData.name.trim(),
+          description: formData.description.trim() || null,
+          start_week: formData.startWeek,
+          end_week: endWeek,
+          rule: formData.rule,
+          target_minutes: targetMinutes,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      onCreated(data);
+    } catch (error) {
+      console.error('Error creating challenge:', error);
+      setError((error as Error).message || 'Failed to create challenge');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 mb-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">New Challenge</h2>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          aria-label="Cancel"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div>
+        <label htmlFor="challenge-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Name
+        </label>
+        <input
+          id="challenge-name"
+          type="text"
+          maxLength={100}
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          placeholder="November digital detox"
+          className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="challenge-description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Description (optional)
+        </label>
+        <textarea
+          id="challenge-description"
+          rows={2}
+          maxLength={500}
+          value={formData.description}
+          onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+          className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="challenge-start" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            First week
+          </label>
+          <select
+            id="challenge-start"
+            value={formData.startWeek}
+            onChange={(e) => setFormData({ ...formData, startWeek: e.target.value })}
+            className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {startWeeks.map((week) => (
+              <option key={week} value={week}>
+                {week === currentWeek
+                  ? `This week (${formatWeekLabel(new Date(week))})`
+                  : `Week of ${formatWeekLabel(new Date(week))}`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="challenge-length" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Length
+          </label>
+          <select
+            id="challenge-length"
+            value={formData.lengthWeeks}
+            onChange={(e) => setFormData({ ...formData, lengthWeeks: e.target.value })}
+            className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Array.from({ length: MAX_LENGTH_WEEKS }, (_, i) => i + 1).map((weeks) => (
+              <option key={weeks} value={weeks}>
+                {weeks} {weeks === 1 ? 'week' : 'weeks'}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">Last week: {formatWeekLabel(new Date(endWeek))}</p>
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Winner</span>
+        <div className="space-y-2">
+          {CHALLENGE_RULES.map((definition) => (
+            <label
+              key={definition.rule}
+              className={`flex items-start space-x-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                formData.rule === definition.rule
+                  ? 'border-blue-500 bg-blue-600/10'
+                  : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="challenge-rule"
+                value={definition.rule}
+                checked={formData.rule === definition.rule}
+                onChange={() => setFormData({ ...formData, rule: definition.rule })}
+                className="mt-1"
+              />
+              <div>
+                <p className="text-gray-900 dark:text-white text-sm font-medium">{definition.label}</p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">{definition.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {formData.rule === 'under_target_weeks' && (
+        <div>
+          <label htmlFor="challenge-target" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Weekly limit (hours)
+          </label>
+          <input
+            id="challenge-target"
+            type="number"
+            min="0.5"
+            max="168"
+            step="0.5"
+            value={formData.targetHours}
+            onChange={(e) => setFormData({ ...formData, targetHours: e.target.value })}
+            className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm">{error}</div>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+      >
+        {submitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+        <span>Create Challenge</span>
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,87 @@
+import { PieChart } from 'lucide-react';
+import { Link } from 'react-router-dom';
+
+export interface CategoryTotal {
+  categoryId: string;
+  name: string;
+  color: string;
+  minutes: number;
+}
+
+interface CategoryBreakdownChartProps {
+  totals: CategoryTotal[];
+  title?: string;
+}
+
+export function CategoryBreakdownChart({ totals, title = 'Where Your Time Goes' }: CategoryBreakdownChartProps) {
+  const sorted = [...totals].sort((a, b) => b.minutes - a.minutes);
+  const totalMinutes = sorted.reduce((sum, row) => sum + row.minutes, 0);
+  const maxMinutes = sorted[0]?.minutes ?? 0;
+
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{title}</h2>
+        <span className="text-sm text-gray-600 dark:text-gray-400">Last 4 weeks</span>
+      </div>
+
+      {totalMinutes === 0 ? (
+        <div className="text-center py-8">
+          <PieChart className="w-12 h-12 text-gray-400 dark:text-gray-600 mx-auto mb-3" />
+          <p className="text-gray-600 dark:text-gray-400 mb-1">No category breakdown yet</p>
+          <p className="text-sm text-gray-500">
+            Split a log by category on the{' '}
+            <Link to="/logs" className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">
+              Logs
+            </Link>{' '}
+            page to see where your time goes
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="flex h-3 rounded-full overflow-hidden bg-gray-100 dark:bg-gray-700 mb-6">
+            {sorted.map((row) => (
+              <div
+                key={row.categoryId}
+                title={`${row.name}: ${formatMinutes(row.minutes)}`}
+                style={{ width: `${(row.minutes / totalMinutes) * 100}%`, backgroundColor: row.color }}
+              />
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            {sorted.map((row) => (
+              <div key={row.categoryId}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="flex items-center space-x-2 text-gray-700 dark:text-gray-300">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: row.color }} />
+                    <span>{row.name}</span>
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400">
+                    {formatMinutes(row.minutes)}{' '}
+                    <span className="text-gray-500">({Math.round((row.minutes / totalMinutes) * 100)}%)</span>
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full rounded-full"
+                    style={{ width: `${(row.minutes / maxMinutes) * 100}%`, backgroundColor: row.color }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { Target, Pencil, Loader2, Check, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAchievements } from '../../contexts/AchievementContext';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../shared/Toast';
+import { getWeekStartDateString, formatWeekLabel } from '../../lib/weekUtils';
+import { getGoalForWeek, getGoalTargetMinutes } from '../../lib/goals';
+import type { GoalType, WeeklyGoal, WeeklyGoalResult } from '../../types';
+
+interface GoalCardProps {
+  currentWeekMinutes: number;
+}
+
+const RING_RADIUS = 52;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+export function GoalCard({ currentWeekMinutes }: GoalCardProps) {
+  const { user } = useAuth();
+  const { checkAchievements } = useAchievements();
+  const { showToast } = useToast();
+  const [goals, setGoals] = useState<WeeklyGoal[]>([]);
+  const [results, setResults] = useState<WeeklyGoalResult[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [formData, setFormData] = useState({
+    goalType: 'minutes' as GoalType,
+    hours: '',
+    reductionPct: '10',
+  });
+
+  const currentWeek = getWeekStartDateString(new Date());
+
+  useEffect(() => {
+    if (user) {
+      loadGoals();
+    }
+  }, [user]);
+
+  const loadGoals = async () => {
+    if (!user) return;
+
+    try {
+      const [goalsResult, resultsResult] = await Promise.all([
+        supabase
+          .from('weekly_goals')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('effective_week_start', { ascending: false }),
+        supabase
+          .from('weekly_goal_results')
+          .select('*')
+          .eq('user_id', user.id)
+          .lt('week_start_date', currentWeek)
+          .order('week_start_date', { ascending: false })
+          .limit(8),
+      ]);
+
+      if (goalsResult.error) throw goalsResult.error;
+      if (resultsResult.error) throw resultsResult.error;
+
+      setGoals(goalsResult.data || []);
+      setResults(resultsResult.data || []);
+    } catch (error) {
+      console.error('Error loading goals:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const currentGoal = getGoalForWeek(goals, currentWeek);
+  const targetMinutes = getGoalTargetMinutes(currentGoal);
+
+  const startEditing = () => {
+    setFormData({
+      goalType: currentGoal && currentGoal.goal_type !== 'none' ? currentGoal.goal_type : 'minutes',
+      hours: currentGoal?.target_minutes ? (currentGoal.target_minutes / 60).toString() : '',
+      reductionPct: currentGoal?.reduction_pct?.toString() ?? '10',
+    });
+    setEditing(true);
+  };
+
+  const saveGoal = async (goal: Pick<WeeklyGoal, 'goal_type' | 'target_minutes' | 'reduction_pct'>) => {
+    if (!user) return;
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.from('weekly_goals').upsert(
+        {
+          user_id: user.id,
+          effective_week_start: currentWeek,
+          ...goal,
+        },
+        { onConflict: 'user_id,effective_week_start' }
+      );
+
+      if (error) throw error;
+
+      showToast(goal.goal_type === 'none' ? 'Goal cleared' : 'Goal saved', 'success');
+      setEditing(false);
+      await loadGoals();
+      checkAchievements();
+    } catch (error) {
+      console.error('Error saving goal:', error);
+      showToast((error as Error).message || 'Failed to save goal', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (formData.goalType === 'minutes') {
+      const minutes = Math.round(parseFloat(formData.hours) * 60);
+      if (!minutes || minutes <= 0 || minutes > 10080) {
+        showToast('Enter a weekly limit between 1 minute and 168 hours', 'error');
+        return;
+      }
+      await saveGoal({ goal_type: 'minutes', target_minutes: minutes, reduction_pct: null });
+    } else {
+      const pct = parseFloat(formData.reductionPct);
+      if (!pct || pct <= 0 || pct >= 100) {
+        showToast('Enter a reduction between 1% and 99%', 'error');
+        return;
+      }
+      await saveGoal({ goal_type: 'reduction_pct', target_minutes: null, reduction_pct: pct });
+    }
+  };
+
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  const describeGoal = (goal: WeeklyGoal) => {
+    switch (goal.goal_type) {
+      case 'minutes':
+        return `At most ${formatMinutes(goal.target_minutes ?? 0)} per week`;
+      case 'reduction_pct':
+        return `${goal.reduction_pct}% below ${formatMinutes(goal.baseline_minutes ?? 0)} baseline`;
+      default:
+        return 'No goal';
+    }
+  };
+
+  const progress = targetMinutes ? currentWeekMinutes / targetMinutes : 0;
+  const ringColor =
+    progress > 1 ? 'stroke-red-500' : progress > 0.85 ? 'stroke-yellow-500' : 'stroke-green-500';
+
+  if (loading) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 flex items-center justify-center h-full">
+        <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Weekly Goal</h2>
+        {!editing && (
+          <button
+            onClick={startEditing}
+            className="p-2 text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Edit goal"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="inline-flex p-1 bg-gray-100 dark:bg-gray-700 rounded-lg">
+            {(['minutes', 'reduction_pct'] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setFormData({ ...formData, goalType: type })}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                  formData.goalType === type
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+              >
+                {type === 'minutes' ? 'Weekly limit' : 'Reduce by %'}
+              </button>
+            ))}
+          </div>
+
+          {formData.goalType === 'minutes' ? (
+            <div>
+              <label htmlFor="goal-hours" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Hours per week
+              </label>
+              <input
+                id="goal-hours"
+                type="number"
+                min="0.5"
+                max="168"
+                step="0.5"
+                value={formData.hours}
+                onChange={(e) => setFormData({ ...formData, hours: e.target.value })}
+                className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="goal-pct" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Reduction (%)
+              </label>
+              <input
+                id="goal-pct"
+                type="number"
+                min="1"
+                max="99"
+                value={formData.reductionPct}
+                onChange={(e) => setFormData({ ...formData, reductionPct: e.target.value })}
+                className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Measured against the average of your last 4 logged weeks
+              </p>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              <span>Save Goal</span>
+            </button>
+            {currentGoal && currentGoal.goal_type !== 'none' && (
+              <button
+                type="button"
+                onClick={() => saveGoal({ goal_type: 'none', target_minutes: null, reduction_pct: null })}
+                disabled={saving}
+                className="px-4 py-2 text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Clear
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              aria-label="Cancel"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </form>
+      ) : targetMinutes === null ? (
+        <div className="text-center py-6">
+          <Target className="w-12 h-12 text-gray-400 dark:text-gray-600 mx-auto mb-3" />
+          <p className="text-gray-600 dark:text-gray-400 mb-4">Set a weekly target to track your progress</p>
+          <button
+            onClick={startEditing}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            Set a Goal
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center space-x-6">
+          <div className="relative w-32 h-32 flex-shrink-0">
+            <svg viewBox="0 0 120 120" className="w-full h-full -rotate-90">
+              <circle cx="60" cy="60" r={RING_RADIUS} fill="none" strokeWidth="10" className="stroke-gray-200 dark:stroke-gray-700" />
+              <circle
+                cx="60"
+                cy="60"
+                r={RING_RADIUS}
+                fill="none"
+                strokeWidth="10"
+                strokeLinecap="round"
+                strokeDasharray={RING_CIRCUMFERENCE}
+                strokeDashoffset={RING_CIRCUMFERENCE * (1 - Math.min(progress, 1))}
+                className={`${ringColor} transition-all`}
+              />
+            </svg>
+            <div className="absolute inset-0 flex flex-col items-center justify-center">
+              <span className="text-2xl font-bold text-gray-900 dark:text-white">{Math.round(progress * 100)}%</span>
+              <span className="text-xs text-gray-600 dark:text-gray-400">of goal</span>
+            </div>
+          </div>
+          <div className="min-w-0">
+            <p className="text-gray-900 dark:text-white font-semibold">
+              {formatMinutes(currentWeekMinutes)} / {formatMinutes(targetMinutes)}
+            </p>
+            <p className={`text-sm mb-2 ${progress > 1 ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+              {progress > 1
+                ? `${formatMinutes(currentWeekMinutes - targetMinutes)} over this week`
+                : `${formatMinutes(targetMinutes - currentWeekMinutes)} left this week`}
+            </p>
+            {currentGoal && <p className="text-xs text-gray-500">{describeGoal(currentGoal)}</p>}
+          </div>
+        </div>
+      )}
+
+      {!editing && results.some((result) => result.goal_met !== null) && (
+        <div className="mt-6">
+          <p className="text-xs text-gray-500 mb-2">Previous weeks</p>
+          <div className="flex space-x-2">
+            {[...results].reverse().map((result) => (
+              <div
+                key={result.log_id}
+                title={`Week of ${formatWeekLabel(new Date(result.week_start_date))}: ${formatMinutes(result.minutes)}${
+                  result.target_minutes !== null ? ` / ${formatMinutes(result.target_minutes)}` : ''
+                }`}
+                className={`w-6 h-6 rounded-full flex items-center justify-center ${
+                  result.goal_met === null ? 'bg-gray-100 dark:bg-gray-700' : result.goal_met ? 'bg-green-500/20' : 'bg-red-500/20'
+                }`}
+              >
+                {result.goal_met === true && <Check className="w-3 h-3 text-green-600 dark:text-green-400" />}
+                {result.goal_met === false && <X className="w-3 h-3 text-red-600 dark:text-red-400" />}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!editing && goals.length > 0 && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+          >
+            {showHistory ? 'Hide goal history' : 'Goal history'}
+          </button>
+          {showHistory && (
+            <ul className="mt-2 space-y-1 text-sm">
+              {goals.map((goal) => (
+                <li key={goal.id} className="flex items-center justify-between text-gray-600 dark:text-gray-400">
+                  <span>From {formatWeekLabel(new Date(goal.effective_week_start))}</span>
+                  <span className="text-gray-700 dark:text-gray-300">{describeGoal(goal)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { Snowflake, Loader2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAchievements } from '../../contexts/AchievementContext';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../shared/Toast';
+import { addWeeks, formatWeekLabel, getUtcWeekStartDateString } from '../../lib/weekUtils';
+import type { StreakFreeze } from '../../types';
+
+interface StreakFreezeCardProps {
+  loggedWeeks: string[];
+  onFreezeUsed: () => void;
+}
+
+const MAX_FREEZE_TOKENS = 3;
+const FREEZE_WINDOW_WEEKS = 4;
+
+export function StreakFreezeCard({ loggedWeeks, onFreezeUsed }: StreakFreezeCardProps) {
+  const { user } = useAuth();
+  const { checkAchievements } = useAchievements();
+  const { showToast } = useToast();
+  const [tokens, setTokens] = useState(0);
+  const [freezes, setFreezes] = useState<StreakFreeze[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [freezingWeek, setFreezingWeek] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadFreezes();
+    }
+  }, [user]);
+
+  const loadFreezes = async () => {
+    if (!user) return;
+
+    try {
+      const [tokensResult, freezesResult] = await Promise.all([
+        supabase.rpc('refresh_streak_freezes'),
+        supabase
+          .from('streak_freezes')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('week_start_date', { ascending: false })
+          .limit(8),
+      ]);
+
+      if (tokensResult.error) throw tokensResult.error;
+      if (freezesResult.error) throw freezesResult.error;
+
+      setTokens(tokensResult.data ?? 0);
+      setFreezes(freezesResult.data || []);
+    } catch (error) {
+      console.error('Error loading streak freezes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFreeze = async (weekStartDate: string) => {
+    setFreezingWeek(weekStartDate);
+
+    try {
+      const { data, error } = await supabase.rpc('use_streak_freeze', { p_week_start: weekStartDate });
+      if (error) throw error;
+
+      setTokens(data ?? 0);
+      showToast(`Week of ${formatWeekLabel(new Date(weekStartDate))} frozen`, 'success');
+      await loadFreezes();
+      onFreezeUsed();
+      checkAchievements();
+    } catch (error) {
+      console.error('Error using streak freeze:', error);
+      showToast((error as Error).message || 'Failed to use streak freeze', 'error');
+    } finally {
+      setFreezingWeek(null);
+    }
+  };
+
+  // Finished weeks without a log or freeze, after the first logged week. Weeks follow the UTC
+  // calendar like `use_streak_freeze`, which only accepts Sundays
+  const firstLoggedWeek = loggedWeeks.length > 0 ? [...loggedWeeks].sort()[0] : null;
+  const currentWeek = getUtcWeekStartDateString(new Date());
+  const missedWeeks = Array.from({ length: FREEZE_WINDOW_WEEKS }, (_, i) => addWeeks(currentWeek, -(i + 1))).filter(
+    (week) =>
+      firstLoggedWeek !== null &&
+      week > firstLoggedWeek &&
+      !loggedWeeks.includes(week) &&
+      !freezes.some((freeze) => freeze.week_start_date === week)
+  );
+
+  if (loading) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 flex items-center justify-center h-full">
+        <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Streak Freezes</h2>
+        <div className="flex items-center space-x-1" aria-label={`${tokens} of ${MAX_FREEZE_TOKENS} freezes`}>
+          {Array.from({ length: MAX_FREEZE_TOKENS }, (_, i) => (
+            <Snowflake key={i} className={`w-5 h-5 ${i < tokens ? 'text-cyan-600 dark:text-cyan-400' : 'text-gray-400 dark:text-gray-600'}`} />
+          ))}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        A freeze covers a missed week so your streak keeps going. You get one every month and another
+        for every 8 weeks of streak, up to {MAX_FREEZE_TOKENS}.
+      </p>
+
+      {missedWeeks.length === 0 ? (
+        <p className="text-sm text-gray-500">No missed weeks to cover.</p>
+      ) : (
+        <div className="space-y-2">
+          {missedWeeks.map((week) => (
+            <div key={week} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+              <span className="text-gray-900 dark:text-white text-sm">Missed week of {formatWeekLabel(new Date(week))}</span>
+              <button
+                onClick={() => handleFreeze(week)}
+                disabled={tokens < 1 || freezingWeek !== null}
+                className="flex items-center space-x-1 px-3 py-1 text-sm bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+              >
+                {freezingWeek === week ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Snowflake className="w-4 h-4" />
+                )}
+                <span>Freeze</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {freezes.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs text-gray-500 mb-2">Frozen weeks</p>
+          <div className="flex flex-wrap gap-2">
+            {freezes.map((freeze) => (
+              <span
+                key={freeze.id}
+                className="inline-flex items-center space-x-1 px-2 py-1 bg-cyan-500/10 text-cyan-700 dark:text-cyan-300 text-xs rounded-full"
+              >
+                <Snowflake className="w-3 h-3" />
+                <span>{formatWeekLabel(new Date(freeze.week_start_date))}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { formatWeekLabel } from '../../lib/weekUtils';
+import { buildWeeklySeries, movingAverage } from '../../lib/chartUtils';
+
+type TrendRange = 12 | 26 | 'all';
+
+interface TrendChartProps {
+  logs: { week_start_date: string; minutes: number }[];
+}
+
+const MOVING_AVERAGE_WEEKS = 4;
+
+export function TrendChart({ logs }: TrendChartProps) {
+  const [range, setRange] = useState<TrendRange>(12);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  const series = buildWeeklySeries(logs, range === 'all' ? undefined : range);
+  const average = movingAverage(
+    series.map((point) => point.minutes),
+    MOVING_AVERAGE_WEEKS
+  );
+
+  const logged = series
+    .map((point, index) => ({ index, minutes: point.minutes }))
+    .filter((point): point is { index: number; minutes: number } => point.minutes !== null);
+  const bestIndex = logged.length > 1
+    ? logged.reduce((best, point) => (point.minutes < best.minutes ? point : best)).index
+    : null;
+  const worstIndex = logged.length > 1
+    ? logged.reduce((worst, point) => (point.minutes > worst.minutes ? point : worst)).index
+    : null;
+
+  const maxMinutes = Math.max(60, ...logged.map((point) => point.minutes));
+  const columnWidth = series.length > 0 ? 100 / series.length : 100;
+  const barInset = columnWidth * 0.15;
+
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  const formatWeekRange = (weekStartDate: string) => {
+    const weekStart = new Date(weekStartDate);
+    return formatWeekLabel(weekStart);
+  };
+
+  const barColor = (index: number) => {
+    if (index === bestIndex) return 'fill-green-500';
+    if (index === worstIndex) return 'fill-red-500';
+    return hoveredIndex === index ? 'fill-blue-400' : 'fill-blue-500/70';
+  };
+
+  const averagePoints = average
+    .map((value, index) =>
+      value === null ? null : `${(index + 0.5) * columnWidth},${100 - (value / maxMinutes) * 100}`
+    )
+    .filter((point): point is string => point !== null)
+    .join(' ');
+
+  const hovered = hoveredIndex !== null ? series[hoveredIndex] : null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Weekly Trend</h2>
+        <div className="inline-flex p-1 bg-gray-100 dark:bg-gray-700 rounded-lg">
+          {([12, 26, 'all'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                range === option
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              {option === 'all' ? 'All time' : `${option} weeks`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {logged.length === 0 ? (
+        <div className="text-center py-8">
+          <BarChart3 className="w-12 h-12 text-gray-400 dark:text-gray-600 mx-auto mb-3" />
+          <p className="text-gray-600 dark:text-gray-400">
+            {logs.length === 0 ? 'Log a few weeks to see your trend' : 'No weeks logged in this range'}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="flex">
+            <div className="flex flex-col justify-between w-12 text-xs text-gray-500 pr-2 h-48 text-right">
+              <span>{formatMinutes(maxMinutes)}</span>
+              <span>{formatMinutes(maxMinutes / 2)}</span>
+              <span>0</span>
+            </div>
+
+            <div className="relative flex-1 h-48" onMouseLeave={() => setHoveredIndex(null)}>
+              <svg
+                viewBox="0 0 100 100"
+                preserveAspectRatio="none"
+                className="w-full h-full overflow-visible"
+                role="img"
+                aria-label="Weekly screen time chart"
+              >
+                {[0, 50, 100].map((y) => (
+                  <line
+                    key={y}
+                    x1="0"
+                    x2="100"
+                    y1={y}
+                    y2={y}
+                    className="stroke-gray-200 dark:stroke-gray-700"
+                    strokeWidth="1"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+
+                {series.map((point, index) =>
+                  point.minutes === null ? null : (
+                    <rect
+                      key={point.weekStartDate}
+                      x={index * columnWidth + barInset}
+                      y={100 - (point.minutes / maxMinutes) * 100}
+                      width={columnWidth - barInset * 2}
+                      height={(point.minutes / maxMinutes) * 100}
+                      className={`${barColor(index)} transition-colors`}
+                    />
+                  )
+                )}
+
+                {averagePoints && (
+                  <polyline
+                    points={averagePoints}
+                    fill="none"
+                    className="stroke-amber-400"
+                    strokeWidth="2"
+                    strokeLinejoin="round"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+
+                {series.map((point, index) => (
+                  <rect
+                    key={`hover-${point.weekStartDate}`}
+                    x={index * columnWidth}
+                    y="0"
+                    width={columnWidth}
+                    height="100"
+                    fill="transparent"
+                    onMouseEnter={() => setHoveredIndex(index)}
+                  />
+                ))}
+              </svg>
+
+              {hovered && hoveredIndex !== null && (
+                <div
+                  className="absolute -top-2 z-10 -translate-x-1/2 -translate-y-full px-3 py-2 bg-gray-100 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-xs whitespace-nowrap pointer-events-none shadow-lg"
+                  style={{ left: `${(hoveredIndex + 0.5) * columnWidth}%` }}
+                >
+                  <p className="text-gray-900 dark:text-white font-medium">Week of {formatWeekRange(hovered.weekStartDate)}</p>
+                  <p className="text-gray-700 dark:text-gray-300">
+                    {hovered.minutes === null ? 'Not logged' : formatMinutes(hovered.minutes)}
+                    {hoveredIndex === bestIndex && <span className="text-green-600 dark:text-green-400"> · Best week</span>}
+                    {hoveredIndex === worstIndex && <span className="text-red-600 dark:text-red-400"> · Worst week</span>}
+                  </p>
+                  {average[hoveredIndex] !== null && (
+                    <p className="text-amber-600 dark:text-amber-400">
+                      {MOVING_AVERAGE_WEEKS}-week avg: {formatMinutes(average[hoveredIndex] as number)}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-between text-xs text-gray-500 mt-2 pl-12">
+            <span>{formatWeekRange(series[0].weekStartDate)}</span>
+            <span>{formatWeekRange(series[series.length - 1].weekStartDate)}</span>
+          </div>
+
+          <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-600 dark:text-gray-400">
+            <span className="flex items-center space-x-1">
+              <span className="w-3 h-3 rounded-sm bg-blue-500/70" />
+              <span>Weekly total</span>
+            </span>
+            <span className="flex items-center space-x-1">
+              <span className="w-3 h-0.5 bg-amber-400" />
+              <span>{MOVING_AVERAGE_WEEKS}-week average</span>
+            </span>
+            <span className="flex items-center space-x-1">
+              <span className="w-3 h-3 rounded-sm bg-green-500" />
+              <span>Best week</span>
+            </span>
+            <span className="flex items-center space-x-1">
+              <span className="w-3 h-3 rounded-sm bg-red-500" />
+              <span>Worst week</span>
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState, FormEvent } from 'react';
+import { Loader2, Swords, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase } from '../../lib/supabase';
+import { addWeeks, formatWeekLabel, getUtcWeekStartDateString } from '../../lib/weekUtils';
+import type { Duel } from '../../types';
+
+interface CreateDuelFormProps {
+  opponentId: string;
+  opponentName: string;
+  onCreated: (duel: Duel) => void;
+  onCancel: () => void;
+}
+
+const START_WEEK_OPTIONS = 9;
+const MAX_LENGTH_WEEKS = 12;
+
+export function CreateDuelForm({ opponentId, opponentName, onCreated, onCancel }: CreateDuelFormProps) {
+  const { user } = useAuth();
+  const currentWeek = getUtcWeekStartDateString(new Date());
+  const [formData, setFormData] = useState({
+    startWeek: addWeeks(currentWeek, 1),
+    lengthWeeks: '4',
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startWeeks = Array.from({ length: START_WEEK_OPTIONS }, (_, i) => addWeeks(currentWeek, i));
+  const endWeek = addWeeks(formData.startWeek, parseInt(formData.lengthWeeks) - 1);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('duels')
+        .insert({
+          challenger_id: user.id,
+          opponent_id: opponentId,
+          start_week: formData.startWeek,
+          end_week: endWeek,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      onCreated(data);
+    } catch (error) {
+      console.error('Error creating duel:', error);
+      const code = (error as { code?: string }).code;
+      if (code === '23505') {
+        setError(`There is already a pending duel between you and ${opponentName}`);
+      } else if (code === '42501') {
+        setError('Both of you must be shown on the leaderboard to duel');
+      } else {
+        setError('Failed to send duel');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 mb-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Challenge {opponentName}</h2>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          aria-label="Cancel"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="duel-start" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            First week
+          </label>
+          <select
+            id="duel-start"
+            value={formData.startWeek}
+            onChange={(e) => setFormData({ ...formData, startWeek: e.target.value })}
+            className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {startWeeks.map((week) => (
+              <option key={week} value={week}>
+                {week === currentWeek
+                  ? `This week (${formatWeekLabel(new Date(week))})`
+                  : `Week of ${formatWeekLabel(new Date(week))}`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="duel-length" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Length
+          </label>
+          <select
+            id="duel-length"
+            value={formData.lengthWeeks}
+            onChange={(e) => setFormData({ ...formData, lengthWeeks: e.target.value })}
+            className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Array.from({ length: MAX_LENGTH_WEEKS }, (_, i) => i + 1).map((weeks) => (
+              <option key={weeks} value={weeks}>
+                {weeks} {weeks === 1 ? 'week' : 'weeks'}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">Last week: {formatWeekLabel(new Date(endWeek))}</p>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Each week you both log goes to whoever had less screen time. {opponentName} has to accept before the duel
+        counts.
+      </p>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm">{error}</div>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+      >
+        {submitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Swords className="w-5 h-5" />}
+        <span>Send Duel</span>
+      </button>
+    </form>
+  );
+}
@@ -1,11 +1,17 @@
 import { ReactNode, useState } from 'react';
 import { NavLink, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { TeamSwitcher } from './TeamSwitcher';
+import { Avatar } from '../shared/Avatar';
+import { NotificationBell } from '../notifications/NotificationBell';
 import {
   Clock,
   LayoutDashboard,
   FileText,
   Trophy,
+  Flag,
+  Swords,
+  Users,
   User,
   Settings,
   LogOut,
@@ -31,24 +37,34 @@ export function AppLayout({ children }: AppLayoutProps) {
     { to: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
     { to: '/logs', icon: FileText, label: 'Logs' },
     { to: '/leaderboard', icon: Trophy, label: 'Leaderboard' },
+    { to: '/challenges', icon: Flag, label: 'Challenges' },
+    { to: '/duels', icon: Swords, label: 'Duels' },
+    { to: '/teams', icon: Users, label: 'Teams' },
     { to: '/profile', icon: User, label: 'Profile' },
     { to: '/settings', icon: Settings, label: 'Settings' },
   ];
 
   return (
-    <div className="min-h-screen bg-gray-900 flex">
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex">
       {/* Sidebar - Desktop */}
-      <aside className="hidden md:flex md:flex-col md:w-64 bg-gray-800 border-r border-gray-700">
-        <div className="p-6 border-b border-gray-700">
-          <div className="flex items-center space-x-3">
-            <Clock className="w-8 h-8 text-blue-500" />
-            <div>
-              <h1 className="text-xl font-bold text-white">Lean Screen</h1>
-              <p className="text-xs text-gray-400">Track. Compete. Win.</p>
+      <aside className="hidden md:flex md:flex-col md:w-64 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Clock className="w-8 h-8 text-blue-500" />
+              <div>
+                <h1 className="text-xl font-bold text-gray-900 dark:text-white">Lean Screen</h1>
+                <p className="text-xs text-gray-600 dark:text-gray-400">Track. Compete. Win.</p>
+              </div>
             </div>
+            <NotificationBell align="left" />
           </div>
         </div>
 
+        <div className="px-4 pt-4">
+          <TeamSwitcher />
+        </div>
+
         <nav className="flex-1 p-4 space-y-2">
           {navItems.map((item) => (
             <NavLink
@@ -58,7 +74,7 @@ export function AppLayout({ children }: AppLayoutProps) {
                 `flex items-center space-x-3 px-4 py-3 rounded-lg transition-colors ${
                   isActive
                     ? 'bg-blue-600 text-white'
-                    : 'text-gray-400 hover:bg-gray-700 hover:text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white'
                 }`
               }
             >
@@ -68,19 +84,17 @@ export function AppLayout({ children }: AppLayoutProps) {
           ))}
         </nav>
 
-        <div className="p-4 border-t border-gray-700">
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700">
           <div className="flex items-center space-x-3 px-4 py-3 mb-2">
-            <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-blue-700 flex items-center justify-center text-white font-bold">
-              {profile?.display_name?.charAt(0).toUpperCase() || 'U'}
-            </div>
+            <Avatar name={profile?.display_name} url={profile?.avatar_url} />
             <div className="flex-1 min-w-0">
-              <p className="text-white font-medium truncate">{profile?.display_name}</p>
-              <p className="text-xs text-gray-400 truncate">{profile?.email}</p>
+              <p className="text-gray-900 dark:text-white font-medium truncate">{profile?.display_name}</p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 truncate">{profile?.email}</p>
             </div>
           </div>
           <button
             onClick={handleSignOut}
-            className="flex items-center space-x-3 px-4 py-3 w-full text-gray-400 hover:bg-gray-700 hover:text-white rounded-lg transition-colors"
+            className="flex items-center space-x-3 px-4 py-3 w-full text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white rounded-lg transition-colors"
           >
             <LogOut className="w-5 h-5" />
             <span className="font-medium">Sign Out</span>
@@ -89,23 +103,29 @@ export function AppLayout({ children }: AppLayoutProps) {
       </aside>
 
       {/* Mobile Header */}
-      <div className="md:hidden fixed top-0 left-0 right-0 bg-gray-800 border-b border-gray-700 z-50">
+      <div className="md:hidden fixed top-0 left-0 right-0 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 z-50">
         <div className="flex items-center justify-between p-4">
           <div className="flex items-center space-x-2">
             <Clock className="w-6 h-6 text-blue-500" />
-            <h1 className="text-lg font-bold text-white">Lean Screen</h1>
+            <h1 className="text-lg font-bold text-gray-900 dark:text-white">Lean Screen</h1>
+          </div>
+          <div className="flex items-center space-x-2">
+            <NotificationBell onNavigate={() => setMobileMenuOpen(false)} />
+            <button
+              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+              className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            >
+              {mobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
+            </button>
           </div>
-          <button
-            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-            className="text-gray-400 hover:text-white"
-          >
-            {mobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
-          </button>
         </div>
 
         {/* Mobile Menu */}
         {mobileMenuOpen && (
-          <div className="bg-gray-800 border-t border-gray-700">
+          <div className="bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700">
+            <div className="px-4 pt-4">
+              <TeamSwitcher onNavigate={() => setMobileMenuOpen(false)} />
+            </div>
             <nav className="p-4 space-y-2">
               {navItems.map((item) => (
                 <NavLink
@@ -116,7 +136,7 @@ export function AppLayout({ children }: AppLayoutProps) {
                     `flex items-center space-x-3 px-4 py-3 rounded-lg transition-colors ${
                       isActive
                         ? 'bg-blue-600 text-white'
-                        : 'text-gray-400 hover:bg-gray-700 hover:text-white'
+                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white'
                     }`
                   }
                 >
@@ -126,7 +146,7 @@ export function AppLayout({ children }: AppLayoutProps) {
               ))}
               <button
                 onClick={handleSignOut}
-                className="flex items-center space-x-3 px-4 py-3 w-full text-gray-400 hover:bg-gray-700 hover:text-white rounded-lg transition-colors"
+                className="flex items-center space-x-3 px-4 py-3 w-full text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white rounded-lg transition-colors"
               >
                 <LogOut className="w-5 h-5" />
                 <span className="font-medium">Sign Out</span>
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTeam } from '../../contexts/TeamContext';
+import { Users, Globe, ChevronDown, Check, Plus } from 'lucide-react';
+
+interface TeamSwitcherProps {
+  onNavigate?: () => void;
+}
+
+export function TeamSwitcher({ onNavigate }: TeamSwitcherProps) {
+  const { teams, activeTeam, selectTeam } = useTeam();
+  const [open, setOpen] = useState(false);
+
+  const handleSelect = (teamId: string | null) => {
+    selectTeam(teamId);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center justify-between w-full px-4 py-2 bg-gray-50 dark:bg-gray-700/50 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+      >
+        <div className="flex items-center space-x-2 min-w-0">
+          {activeTeam ? (
+            <Users className="w-4 h-4 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+          ) : (
+            <Globe className="w-4 h-4 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+          )}
+          <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+            {activeTeam?.name || 'Everyone'}
+          </span>
+        </div>
+        <ChevronDown className={`w-4 h-4 text-gray-600 dark:text-gray-400 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 right-0 mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-50 overflow-hidden">
+          <div className="py-1">
+            <button
+              onClick={() => handleSelect(null)}
+              className="flex items-center justify-between w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white"
+            >
+              <div className="flex items-center space-x-2">
+                <Globe className="w-4 h-4" />
+                <span>Everyone</span>
+              </div>
+              {!activeTeam && <Check className="w-4 h-4 text-blue-600 dark:text-blue-400" />}
+            </button>
+            {teams.map((team) => (
+              <button
+                key={team.id}
+                onClick={() => handleSelect(team.id)}
+                className="flex items-center justify-between w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white"
+              >
+                <div className="flex items-center space-x-2 min-w-0">
+                  <Users className="w-4 h-4 flex-shrink-0" />
+                  <span className="truncate">{team.name}</span>
+                </div>
+                {activeTeam?.id === team.id && <Check className="w-4 h-4 text-blue-600 dark:text-blue-400" />}
+              </button>
+            ))}
+          </div>
+          <div className="border-t border-gray-200 dark:border-gray-700 py-1">
+            <Link
+              to="/teams"
+              onClick={() => {
+                setOpen(false);
+                onNavigate?.();
+              }}
+              className="flex items-center space-x-2 px-4 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-blue-700 dark:hover:text-blue-300"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Manage teams</span>
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Plus, Loader2 } from 'lucide-react';
+import { timeInputToMinutes, type TimeInput } from '../../lib/weekUtils';
+import type { ScreenTimeCategory } from '../../types';
+
+interface CategoryBreakdownEditorProps {
+  categories: ScreenTimeCategory[];
+  values: Record<string, TimeInput>;
+  totalMinutes: number;
+  onChange: (values: Record<string, TimeInput>) => void;
+  onAddCategory: (name: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+export function CategoryBreakdownEditor({
+  categories,
+  values,
+  totalMinutes,
+  onChange,
+  onAddCategory,
+  disabled,
+}: CategoryBreakdownEditorProps) {
+  const [newCategory, setNewCategory] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const assignedMinutes = Object.values(values).reduce(
+    (sum, value) => sum + timeInputToMinutes(value),
+    0
+  );
+  const remainingMinutes = totalMinutes - assignedMinutes;
+
+  const handleChange = (categoryId: string, field: keyof TimeInput, value: string) => {
+    const current = values[categoryId] ?? { hours: '', minutes: '' };
+    onChange({ ...values, [categoryId]: { ...current, [field]: value } });
+  };
+
+  const handleAdd = async () => {
+    if (!newCategory.trim()) return;
+    setAdding(true);
+    await onAddCategory(newCategory.trim());
+    setNewCategory('');
+    setAdding(false);
+  };
+
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(Math.abs(minutes) / 60);
+    const mins = Math.abs(minutes) % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  const inputClassName =
+    'w-16 px-2 py-1 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white text-center placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {categories.map((category) => (
+          <div
+            key={category.id}
+            className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700"
+          >
+            <div className="flex items-center space-x-2 min-w-0">
+              <span
+                className="w-3 h-3 rounded-full flex-shrink-0"
+                style={{ backgroundColor: category.color }}
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300 truncate">{category.name}</span>
+            </div>
+            <div className="flex items-center space-x-1 ml-2">
+              <input
+                type="number"
+                min="0"
+                max="168"
+                value={values[category.id]?.hours ?? ''}
+                onChange={(e) => handleChange(category.id, 'hours', e.target.value)}
+                placeholder="h"
+                aria-label={`${category.name} hours`}
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                min="0"
+                max="59"
+                value={values[category.id]?.minutes ?? ''}
+                onChange={(e) => handleChange(category.id, 'minutes', e.target.value)}
+                placeholder="m"
+                aria-label={`${category.name} minutes`}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          maxLength={40}
+          placeholder="Add your own category"
+          disabled={disabled || adding}
+          className="flex-1 px-3 py-1 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={disabled || adding || !newCategory.trim()}
+          className="p-2 text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+          aria-label="Add category"
+        >
+          {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <p
+        className={`text-sm ${
+          assignedMinutes === 0 || remainingMinutes === 0
+            ? 'text-gray-600 dark:text-gray-400'
+            : 'text-yellow-600 dark:text-yellow-400'
+        }`}
+      >
+        Assigned {formatMinutes(assignedMinutes)} of {formatMinutes(totalMinutes)}
+        {assignedMinutes > 0 && remainingMinutes > 0 && ` · ${formatMinutes(remainingMinutes)} left`}
+        {remainingMinutes < 0 && ` · ${formatMinutes(remainingMinutes)} over`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,390 @@
+import { useState, ChangeEvent } from 'react';
+import { Upload, X, Loader2, CheckCircle, FileSearch, Download } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { parseCsv, toCsv } from '../../lib/csv';
+import { downloadFile } from '../../lib/dataExport';
+import { formatWeekLabel } from '../../lib/weekUtils';
+import {
+  guessLogColumns,
+  validateLogRows,
+  rowsToImportedWeeks,
+  fetchExistingWeeks,
+  saveImportedWeeks,
+  type ConflictMode,
+  type DurationUnit,
+  type ExistingWeek,
+  type ImportSummary,
+  type LogColumnMapping,
+  type LogRowResult,
+} from '../../lib/screenTimeImport';
+
+interface CsvImportPanelProps {
+  onImported: () => Promise<void>;
+  onClose: () => void;
+}
+
+interface DryRun {
+  rows: LogRowResult[];
+  existing: Map<string, ExistingWeek>;
+}
+
+export function CsvImportPanel({ onImported, onClose }: CsvImportPanelProps) {
+  const { user } = useAuth();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<LogColumnMapping | null>(null);
+  const [conflictMode, setConflictMode] = useState<ConflictMode>('skip');
+  const [dryRun, setDryRun] = useState<DryRun | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setMapping(null);
+    setDryRun(null);
+    setSummary(null);
+    setError(null);
+
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) {
+        setError('The CSV file needs a header row and at least one data row');
+        return;
+      }
+
+      setHeaders(parsed[0]);
+      setRows(parsed.slice(1));
+      setMapping(guessLogColumns(parsed[0]));
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      setError('Failed to read file');
+    }
+  };
+
+  const updateMapping = (updates: Partial<LogColumnMapping>) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, ...updates });
+    setDryRun(null);
+  };
+
+  const handleDryRun = async () => {
+    if (!user || !mapping) return;
+
+    setChecking(true);
+    setError(null);
+
+    try {
+      const results = validateLogRows(rows, mapping);
+      const weeks = results
+        .map((row) => row.weekStartDate)
+        .filter((week): week is string => week !== null);
+      const existing = await fetchExistingWeeks(user.id, Array.from(new Set(weeks)));
+      setDryRun({ rows: results, existing });
+    } catch (error) {
+      console.error('Error checking CSV rows:', error);
+      setError('Failed to check rows against your existing logs');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !mapping || !dryRun) return;
+
+    setImporting(true);
+    setError(null);
+
+    try {
+      const result = await saveImportedWeeks(user.id, rowsToImportedWeeks(dryRun.rows, mapping), conflictMode);
+      setSummary(result);
+      await onImported();
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      setError('Failed to import logs');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    if (!dryRun) return;
+
+    const report = toCsv([
+      ['row', ...headers, 'error'],
+      ...dryRun.rows
+        .filter((row) => row.error)
+        .map((row) => [row.rowNumber, ...rows[row.rowNumber - 2], row.error]),
+    ]);
+    downloadFile(`${fileName?.replace(/\.csv$/i, '') ?? 'import'}-errors.csv`, report, 'text/csv');
+  };
+
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  const rowOutcome = (row: LogRowResult) => {
+    if (row.error) return { label: row.error, className: 'text-red-600 dark:text-red-400' };
+    const existing = row.weekStartDate ? dryRun?.existing.get(row.weekStartDate) : undefined;
+    if (!existing) return { label: 'Will be added', className: 'text-green-600 dark:text-green-400' };
+    if (conflictMode === 'replace') {
+      return { label: `Will replace ${formatMinutes(existing.minutes)}`, className: 'text-yellow-600 dark:text-yellow-400' };
+    }
+    return { label: 'Already logged, will be skipped', className: 'text-gray-500' };
+  };
+
+  const counts = dryRun
+    ? dryRun.rows.reduce(
+        (acc, row) => {
+          if (row.error) acc.errors++;
+          else if (row.weekStartDate && dryRun.existing.has(row.weekStartDate)) acc.duplicates++;
+          else acc.new++;
+          return acc;
+        },
+        { new: 0, duplicates: 0, errors: 0 }
+      )
+    : null;
+  const importableCount = counts ? counts.new + (conflictMode === 'replace' ? counts.duplicates : 0) : 0;
+
+  const selectClassName =
+    'w-full px-3 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Import From Spreadsheet</h2>
+        <button onClick={onClose} className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white" aria-label="Close import">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Upload a CSV with one row per week: a date within the week and the screen time for that
+        week, plus optional notes. Nothing is saved until you run a dry run and confirm.
+      </p>
+
+      <label className="flex items-center justify-center space-x-2 px-4 py-6 border-2 border-dashed border-gray-300 dark:border-gray-600 hover:border-blue-500 rounded-lg cursor-pointer transition-colors mb-4">
+        <Upload className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        <span className="text-gray-700 dark:text-gray-300">{fileName ?? 'Choose a .csv file'}</span>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          disabled={importing}
+          className="hidden"
+        />
+      </label>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {mapping && !summary && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+            <div>
+              <label htmlFor="csv-week" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Week / date column
+              </label>
+              <select
+                id="csv-week"
+                value={mapping.week}
+                onChange={(e) => updateMapping({ week: parseInt(e.target.value) })}
+                className={selectClassName}
+              >
+                <option value={-1}>Choose a column</option>
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="csv-minutes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Screen time column
+              </label>
+              <select
+                id="csv-minutes"
+                value={mapping.minutes}
+                onChange={(e) => updateMapping({ minutes: parseInt(e.target.value) })}
+                className={selectClassName}
+              >
+                <option value={-1}>Choose a column</option>
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="csv-unit" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Plain numbers are
+              </label>
+              <select
+                id="csv-unit"
+                value={mapping.unit}
+                onChange={(e) => updateMapping({ unit: e.target.value as DurationUnit })}
+                className={selectClassName}
+              >
+                <option value="minutes">Minutes</option>
+                <option value="hours">Hours</option>
+                <option value="seconds">Seconds</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="csv-notes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Notes column
+              </label>
+              <select
+                id="csv-notes"
+                value={mapping.notes ?? -1}
+                onChange={(e) => {
+                  const index = parseInt(e.target.value);
+                  updateMapping({ notes: index === -1 ? null : index });
+                }}
+                className={selectClassName}
+              >
+                <option value={-1}>None</option>
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <select
+              value={conflictMode}
+              onChange={(e) => setConflictMode(e.target.value as ConflictMode)}
+              className="px-3 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="skip">Keep weeks I already logged</option>
+              <option value="replace">Replace weeks I already logged</option>
+            </select>
+            <button
+              onClick={handleDryRun}
+              disabled={checking || mapping.week === -1 || mapping.minutes === -1}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-900 dark:text-white rounded-lg transition-colors"
+            >
+              {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileSearch className="w-4 h-4" />}
+              <span>Dry run {rows.length} row{rows.length === 1 ? '' : 's'}</span>
+            </button>
+          </div>
+
+          {dryRun && counts && (
+            <>
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  <span className="text-green-600 dark:text-green-400">{counts.new} new</span> ·{' '}
+                  <span className="text-yellow-600 dark:text-yellow-400">{counts.duplicates} already logged</span> ·{' '}
+                  <span className="text-red-600 dark:text-red-400">
+                    {counts.errors} error{counts.errors === 1 ? '' : 's'}
+                  </span>
+                </p>
+                {counts.errors > 0 && (
+                  <button
+                    onClick={handleDownloadErrors}
+                    className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Error report</span>
+                  </button>
+                )}
+              </div>
+
+              <div className="max-h-80 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg mb-4">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-600 dark:text-gray-400 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Row</th>
+                      <th className="px-3 py-2 text-left font-medium">Week</th>
+                      <th className="px-3 py-2 text-right font-medium">Time</th>
+                      <th className="px-3 py-2 text-left font-medium">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {dryRun.rows.map((row) => {
+                      const outcome = rowOutcome(row);
+                      return (
+                        <tr key={row.rowNumber}>
+                          <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                          <td className="px-3 py-2 text-gray-900 dark:text-white">
+                            {row.weekStartDate ? formatWeekLabel(new Date(row.weekStartDate)) : '—'}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-900 dark:text-white">
+                            {row.minutes !== null ? formatMinutes(row.minutes) : '—'}
+                          </td>
+                          <td className={`px-3 py-2 ${outcome.className}`}>{outcome.label}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <button
+                onClick={handleImport}
+                disabled={importing || importableCount === 0}
+                className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+              >
+                {importing ? (
+                  <>
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    <span>Importing...</span>
+                  </>
+                ) : (
+                  <>
+                    <Upload className="w-5 h-5" />
+                    <span>
+                      Import {importableCount} week{importableCount === 1 ? '' : 's'}
+                    </span>
+                  </>
+                )}
+              </button>
+            </>
+          )}
+        </>
+      )}
+
+      {summary && (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2 text-green-600 dark:text-green-400">
+            <CheckCircle className="w-5 h-5" />
+            <span>
+              {summary.inserted} added, {summary.replaced} replaced, {summary.skipped} skipped
+              {counts && counts.errors > 0 && `, ${counts.errors} rows with errors not imported`}
+            </span>
+          </div>
+          {summary.failed.length > 0 && (
+            <ul className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm space-y-1">
+              {summary.failed.map((failure) => {
+                const row = dryRun?.rows.find((r) => r.weekStartDate === failure.weekStartDate && !r.error);
+                return (
+                  <li key={failure.weekStartDate}>
+                    {row ? `Row ${row.rowNumber}` : `Week of ${failure.weekStartDate}`}: {failure.message}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
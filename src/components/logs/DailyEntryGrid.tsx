@@ -0,0 +1,62 @@
+import { getWeekDays, timeInputToMinutes, type TimeInput } from '../../lib/weekUtils';
+
+interface DailyEntryGridProps {
+  weekStartDate: string;
+  values: TimeInput[];
+  onChange: (values: TimeInput[]) => void;
+  disabled?: boolean;
+}
+
+export function DailyEntryGrid({ weekStartDate, values, onChange, disabled }: DailyEntryGridProps) {
+  const days = getWeekDays(weekStartDate);
+
+  const handleChange = (index: number, field: keyof TimeInput, value: string) => {
+    const next = values.map((day, i) => (i === index ? { ...day, [field]: value } : day));
+    onChange(next);
+  };
+
+  const inputClassName =
+    'w-full px-2 py-1 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white text-center placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-7 gap-2">
+      {days.map((day, index) => {
+        const overLimit = timeInputToMinutes(values[index]) > 1440;
+        return (
+          <div
+            key={day.date}
+            className={`p-2 bg-gray-50 dark:bg-gray-900/50 rounded-lg border ${
+              overLimit ? 'border-red-500' : 'border-gray-200 dark:border-gray-700'
+            }`}
+          >
+            <p className="text-xs font-medium text-gray-600 dark:text-gray-400 text-center mb-2">{day.label}</p>
+            <div className="space-y-1">
+              <input
+                type="number"
+                min="0"
+                max="24"
+                value={values[index].hours}
+                onChange={(e) => handleChange(index, 'hours', e.target.value)}
+                placeholder="h"
+                aria-label={`${day.label} hours`}
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                min="0"
+                max="59"
+                value={values[index].minutes}
+                onChange={(e) => handleChange(index, 'minutes', e.target.value)}
+                placeholder="m"
+                aria-label={`${day.label} minutes`}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, ChangeEvent } from 'react';
+import { Upload, X, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatWeekLabel } from '../../lib/weekUtils';
+import {
+  parseScreenTimeExport,
+  saveImportedWeeks,
+  type ConflictMode,
+  type ImportSummary,
+  type ParsedImport,
+} from '../../lib/screenTimeImport';
+
+interface ScreenTimeImportPanelProps {
+  existingWeeks: Map<string, number>;
+  onImported: () => Promise<void>;
+  onClose: () => void;
+}
+
+export function ScreenTimeImportPanel({ existingWeeks, onImported, onClose }: ScreenTimeImportPanelProps) {
+  const { user } = useAuth();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [conflictMode, setConflictMode] = useState<ConflictMode>('skip');
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParsed(null);
+    setSummary(null);
+    setError(null);
+
+    try {
+      const text = await file.text();
+      setParsed(parseScreenTimeExport(file.name, text));
+    } catch (error) {
+      console.error('Error parsing import file:', error);
+      setError((error as Error).message || 'Failed to read file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !parsed) return;
+
+    setImporting(true);
+    setError(null);
+
+    try {
+      const result = await saveImportedWeeks(user.id, parsed.weeks, conflictMode);
+      setSummary(result);
+      await onImported();
+    } catch (error) {
+      console.error('Error importing screen time:', error);
+      setError('Failed to import screen time');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  const importableCount = parsed
+    ? parsed.weeks.filter(
+        (week) => !week.error && (conflictMode === 'replace' || !existingWeeks.has(week.weekStartDate))
+      ).length
+    : 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Import Screen Time</h2>
+        <button onClick={onClose} className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white" aria-label="Close import">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Upload a CSV or JSON export with a date and a screen time value per day, or per app per day
+        (e.g. Android Digital Wellbeing style exports). Days are grouped into weeks automatically.
+      </p>
+
+      <label className="flex items-center justify-center space-x-2 px-4 py-6 border-2 border-dashed border-gray-300 dark:border-gray-600 hover:border-blue-500 rounded-lg cursor-pointer transition-colors mb-4">
+        <Upload className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        <span className="text-gray-700 dark:text-gray-300">{fileName ?? 'Choose a .csv or .json file'}</span>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+          disabled={importing}
+          className="hidden"
+        />
+      </label>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {parsed && !summary && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Detected: <span className="text-gray-900 dark:text-white">{parsed.format}</span> · {parsed.weeks.length} week
+              {parsed.weeks.length === 1 ? '' : 's'}
+            </p>
+            <select
+              value={conflictMode}
+              onChange={(e) => setConflictMode(e.target.value as ConflictMode)}
+              className="px-3 py-1 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="skip">Keep existing weeks</option>
+              <option value="replace">Replace existing weeks</option>
+            </select>
+          </div>
+
+          {parsed.warnings.length > 0 && (
+            <ul className="bg-yellow-500/10 border border-yellow-500 rounded-lg p-3 text-yellow-600 dark:text-yellow-400 text-sm mb-3 space-y-1">
+              {parsed.warnings.map((warning) => (
+                <li key={warning} className="flex items-start space-x-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{warning}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="max-h-72 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg mb-4">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900/50 text-gray-600 dark:text-gray-400 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Week</th>
+                  <th className="px-3 py-2 text-left font-medium">Days</th>
+                  <th className="px-3 py-2 text-right font-medium">Total</th>
+                  <th className="px-3 py-2 text-left font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {parsed.weeks.map((week) => {
+                  const existingMinutes = existingWeeks.get(week.weekStartDate);
+                  return (
+                    <tr key={week.weekStartDate}>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">
+                        {formatWeekLabel(new Date(week.weekStartDate))}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{week.days.length}/7</td>
+                      <td className="px-3 py-2 text-right text-gray-900 dark:text-white">{formatMinutes(week.minutes)}</td>
+                      <td className="px-3 py-2">
+                        {week.error ? (
+                          <span className="text-red-600 dark:text-red-400">{week.error}</span>
+                        ) : existingMinutes === undefined ? (
+                          <span className="text-green-600 dark:text-green-400">New</span>
+                        ) : conflictMode === 'replace' ? (
+                          <span className="text-yellow-600 dark:text-yellow-400">Replaces {formatMinutes(existingMinutes)}</span>
+                        ) : (
+                          <span className="text-gray-500">Already logged, skipped</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <button
+            onClick={handleImport}
+            disabled={importing || importableCount === 0}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+          >
+            {importing ? (
+              <>
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span>Importing...</span>
+              </>
+            ) : (
+              <>
+                <Upload className="w-5 h-5" />
+                <span>
+                  Import {importableCount} week{importableCount === 1 ? '' : 's'}
+                </span>
+              </>
+            )}
+          </button>
+        </>
+      )}
+
+      {summary && (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2 text-green-600 dark:text-green-400">
+            <CheckCircle className="w-5 h-5" />
+            <span>
+              {summary.inserted} added, {summary.replaced} replaced, {summary.skipped} skipped
+            </span>
+          </div>
+          {summary.failed.length > 0 && (
+            <ul className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm space-y-1">
+              {summary.failed.map((failure) => (
+                <li key={failure.weekStartDate}>
+                  Week of {formatWeekLabel(new Date(failure.weekStartDate))}: {failure.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { NotificationItem } from './NotificationItem';
+
+// Notifications shown in the dropdown; the rest are on the notifications page
+const DROPDOWN_LIMIT = 8;
+
+interface NotificationBellProps {
+  align?: 'left' | 'right';
+  onNavigate?: () => void;
+}
+
+export function NotificationBell({ align = 'right', onNavigate }: NotificationBellProps) {
+  const { notifications, unreadCount, loading, markAllAsRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  const handleNavigate = () => {
+    setOpen(false);
+    onNavigate?.();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        className="relative p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white transition-colors"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div
+          className={`absolute ${
+            align === 'left' ? 'left-0' : 'right-0'
+          } mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-50 overflow-hidden`}
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <p className="font-semibold text-gray-900 dark:text-white">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllAsRead}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-8 text-sm text-center text-gray-600 dark:text-gray-400">
+                You're all caught up
+              </p>
+            ) : (
+              notifications
+                .slice(0, DROPDOWN_LIMIT)
+                .map((notification) => (
+                  <NotificationItem key={notification.id} notification={notification} onNavigate={handleNavigate} />
+                ))
+            )}
+          </div>
+
+          <Link
+            to="/notifications"
+            onClick={handleNavigate}
+            className="block px-4 py-3 text-sm text-center text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-blue-700 dark:hover:text-blue-300 border-t border-gray-200 dark:border-gray-700"
+          >
+            View all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useNavigate } from 'react-router-dom';
+import { Award, Flag, Flame, Swords, TrendingDown } from 'lucide-react';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { formatNotificationTime, getNotificationContent } from '../../lib/notifications';
+import type { UserNotification } from '../../types';
+
+interface NotificationItemProps {
+  notification: UserNotification;
+  onNavigate?: () => void;
+}
+
+function getIcon(notification: UserNotification) {
+  switch (notification.type) {
+    case 'badge_earned':
+      return Award;
+    case 'overtaken':
+      return TrendingDown;
+    case 'challenge_invite':
+      return notification.data.duel_id ? Swords : Flag;
+    case 'streak_at_risk':
+      return Flame;
+  }
+}
+
+export function NotificationItem({ notification, onNavigate }: NotificationItemProps) {
+  const { markAsRead } = useNotifications();
+  const navigate = useNavigate();
+  const { title, message, link } = getNotificationContent(notification);
+  const Icon = getIcon(notification);
+  const unread = !notification.read_at;
+
+  const handleClick = () => {
+    markAsRead(notification.id);
+    onNavigate?.();
+    navigate(link);
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      className={`flex items-start space-x-3 w-full px-4 py-3 text-left transition-colors hover:bg-gray-100 dark:hover:bg-gray-700 ${
+        unread ? 'bg-blue-500/5' : ''
+      }`}
+    >
+      <div className="w-9 h-9 bg-blue-500/20 rounded-full flex items-center justify-center flex-shrink-0">
+        <Icon className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm text-gray-900 dark:text-white ${unread ? 'font-semibold' : 'font-medium'}`}>{title}</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{message}</p>
+        <p className="text-xs text-gray-500 mt-1">{formatNotificationTime(notification.created_at)}</p>
+      </div>
+      {unread && <span className="w-2 h-2 mt-2 bg-blue-500 rounded-full flex-shrink-0" aria-label="Unread" />}
+    </button>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useRef, useState, ChangeEvent, PointerEvent } from 'react';
+import { Camera, Loader2, Trash2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../shared/Toast';
+import {
+  DEFAULT_AVATAR_CROP,
+  MAX_AVATAR_FILE_BYTES,
+  deleteAvatar,
+  discardAvatar,
+  drawAvatarCrop,
+  getAvatarUrl,
+  loadImageFile,
+  removeOldAvatars,
+  renderAvatar,
+  uploadAvatar,
+  type AvatarCrop,
+} from '../../lib/avatars';
+
+const PREVIEW_SIZE = 192;
+const MAX_ZOOM = 4;
+
+export function AvatarEditor() {
+  const { user, profile, updateProfile } = useAuth();
+  const { showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<AvatarCrop>(DEFAULT_AVATAR_CROP);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (image && context) {
+      drawAvatarCrop(context, image, crop, PREVIEW_SIZE);
+    }
+  }, [image, crop]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+
+    if (!file.type.startsWith('image/')) {
+      setError('Choose an image file');
+      return;
+    }
+    if (file.size > MAX_AVATAR_FILE_BYTES) {
+      setError('Images must be smaller than 10 MB');
+      return;
+    }
+
+    try {
+      setImage(await loadImageFile(file));
+      setCrop(DEFAULT_AVATAR_CROP);
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+
+    // Dragging moves the picture, so the crop window moves the opposite way
+    const dx = e.clientX - dragRef.current.x;
+    const dy = e.clientY - dragRef.current.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+
+    const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+    setCrop((current) => ({
+      ...current,
+      x: clamp(current.x - (dx / PREVIEW_SIZE) * 2),
+      y: clamp(current.y - (dy / PREVIEW_SIZE) * 2),
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleSave = async () => {
+    if (!user || !image) return;
+
+    setSaving(true);
+    setError(null);
+
+    let uploadedPath: string | null = null;
+    try {
+      const blob = await renderAvatar(image, crop);
+      uploadedPath = await uploadAvatar(user.id, blob);
+      const { error } = await updateProfile({ avatar_url: getAvatarUrl(uploadedPath) });
+      if (error) throw error;
+      await removeOldAvatars(user.id, uploadedPath);
+
+      setImage(null);
+      showToast('Profile photo updated', 'success');
+    } catch (error) {
+      console.error('Error uploading avatar:', error);
+      // The profile still shows the previous photo, so the new file is not needed
+      if (uploadedPath) await discardAvatar(uploadedPath);
+      setError('Failed to upload your photo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!user) return;
+    if (!confirm('Remove your profile photo?')) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const { error } = await updateProfile({ avatar_url: null });
+      if (error) throw error;
+      await deleteAvatar(user.id);
+
+      showToast('Profile photo removed', 'success');
+    } catch (error) {
+      console.error('Error removing avatar:', error);
+      setError('Failed to remove your photo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+
+      {image ? (
+        <div className="flex flex-col sm:flex-row items-center gap-6 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+          <canvas
+            ref={canvasRef}
+            width={PREVIEW_SIZE}
+            height={PREVIEW_SIZE}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="rounded-full cursor-move touch-none flex-shrink-0"
+            style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+          />
+          <div className="flex-1 w-full space-y-4">
+            <p className="text-sm text-gray-400 dark:text-gray-600 dark:text-gray-400">Drag the picture to position it and use the slider to zoom.</p>
+            <div>
+              <label htmlFor="avatar-zoom" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Zoom
+              </label>
+              <input
+                id="avatar-zoom"
+                type="range"
+                min="1"
+                max={MAX_ZOOM}
+                step="0.05"
+                value={crop.zoom}
+                onChange={(e) => setCrop({ ...crop, zoom: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setImage(null)}
+                disabled={saving}
+                className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Save Photo</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={saving}
+            className="flex items-center space-x-2 px-4 py-2 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors disabled:cursor-not-allowed"
+          >
+            <Camera className="w-4 h-4" />
+            <span>{profile?.avatar_url ? 'Change photo' : 'Upload photo'}</span>
+          </button>
+          {profile?.avatar_url && (
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={saving}
+              className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:cursor-not-allowed"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+              <span>Remove</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm mt-3">{error}</div>
+      )}
+    </div>
+  );
+}
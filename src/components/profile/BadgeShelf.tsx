@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { Award, Flame, Target, TrendingDown, Trophy, Loader2, Lock } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { supabase } from '../../lib/supabase';
+import { BADGES } from '../../lib/achievements';
+import type { Achievement, AchievementBadge } from '../../types';
+
+const BADGE_STYLES: Record<AchievementBadge, { icon: typeof Award; color: string }> = {
+  first_log: { icon: Award, color: 'text-blue-600 dark:text-blue-400 bg-blue-500/10' },
+  streak_4: { icon: Flame, color: 'text-orange-600 dark:text-orange-400 bg-orange-500/10' },
+  streak_12: { icon: Flame, color: 'text-orange-600 dark:text-orange-400 bg-orange-500/10' },
+  streak_52: { icon: Flame, color: 'text-red-600 dark:text-red-400 bg-red-500/10' },
+  first_goal_met: { icon: Target, color: 'text-green-600 dark:text-green-400 bg-green-500/10' },
+  biggest_reduction: { icon: TrendingDown, color: 'text-cyan-600 dark:text-cyan-400 bg-cyan-500/10' },
+  top_3: { icon: Trophy, color: 'text-yellow-600 dark:text-yellow-400 bg-yellow-500/10' },
+};
+
+interface BadgeShelfProps {
+  /** Someone else's badges; the signed-in user's own are loaded when omitted */
+  earned?: Pick<Achievement, 'badge' | 'earned_at'>[];
+}
+
+export function BadgeShelf({ earned }: BadgeShelfProps) {
+  const { user } = useAuth();
+  const [ownAchievements, setOwnAchievements] = useState<Pick<Achievement, 'badge' | 'earned_at'>[]>([]);
+  const [loading, setLoading] = useState(!earned);
+
+  const achievements = earned ?? ownAchievements;
+
+  useEffect(() => {
+    if (user && !earned) {
+      loadAchievements();
+    }
+  }, [user, earned]);
+
+  const loadAchievements = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('achievements')
+        .select('*')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setOwnAchievements(data || []);
+    } catch (error) {
+      console.error('Error loading achievements:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Badges</h3>
+        {!loading && (
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {achievements.length} of {BADGES.length} earned
+          </span>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {BADGES.map((definition) => {
+            const achievement = achievements.find((a) => a.badge === definition.badge);
+            const { icon: Icon, color } = BADGE_STYLES[definition.badge];
+
+            return (
+              <div
+                key={definition.badge}
+                title={definition.description}
+                className={`flex flex-col items-center text-center p-3 rounded-lg border ${
+                  achievement
+                    ? 'border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50'
+                    : 'border-gray-200 dark:border-gray-700 opacity-50'
+                }`}
+              >
+                <div
+                  className={`w-12 h-12 rounded-full flex items-center justify-center mb-2 ${
+                    achievement ? color : 'text-gray-500 bg-gray-100 dark:bg-gray-700'
+                  }`}
+                >
+                  {achievement ? <Icon className="w-6 h-6" /> : <Lock className="w-5 h-5" />}
+                </div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">{definition.name}</p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {achievement
+                    ? new Date(achievement.earned_at).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                      })
+                    : definition.description}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../shared/Toast';
+import { supabase } from '../../lib/supabase';
+import {
+  NOTIFICATION_TYPES,
+  WEEKDAYS,
+  formatHour,
+  getBrowserTimeZone,
+  getTimeZones,
+  type NotificationChannel,
+} from '../../lib/notifications';
+import type { NotificationType, UserSettings } from '../../types';
+
+interface NotificationSettingsProps {
+  settings: UserSettings | null;
+  saving: boolean;
+  onUpdate: (updates: Partial<UserSettings>) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const CHANNELS: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'email', label: 'Email' },
+  { channel: 'in_app', label: 'In-app' },
+];
+
+type ChannelPreferences = Record<NotificationChannel, boolean>;
+
+// Matches the column defaults and `notification_enabled()` for types without a row
+const DEFAULT_PREFERENCES: ChannelPreferences = { email: false, in_app: true };
+
+export function NotificationSettings({ settings, saving, onUpdate }: NotificationSettingsProps) {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [preferences, setPreferences] = useState<Partial<Record<NotificationType, ChannelPreferences>>>({});
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<NotificationType | null>(null);
+
+  const timeZones = useMemo(() => getTimeZones(settings?.timezone), [settings?.timezone]);
+  const browserTimeZone = getBrowserTimeZone();
+
+  useEffect(() => {
+    if (user) {
+      loadPreferences();
+    }
+  }, [user]);
+
+  const loadPreferences = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('notification_type, email, in_app')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      const loaded: Partial<Record<NotificationType, ChannelPreferences>> = {};
+      (data || []).forEach((preference) => {
+        loaded[preference.notification_type as NotificationType] = {
+          email: preference.email,
+          in_app: preference.in_app,
+        };
+      });
+      setPreferences(loaded);
+    } catch (error) {
+      console.error('Error loading notification preferences:', error);
+      showToast('Failed to load notification preferences', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isEnabled = (type: NotificationType, channel: NotificationChannel) =>
+    (preferences[type] ?? DEFAULT_PREFERENCES)[channel];
+
+  const handleToggle = async (type: NotificationType, channel: NotificationChannel) => {
+    if (!user) return;
+
+    const enabled = !isEnabled(type, channel);
+    setUpdating(type);
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(
+          { user_id: user.id, notification_type: type, [channel]: enabled },
+          { onConflict: 'user_id,notification_type' }
+        );
+
+      if (error) throw error;
+      setPreferences((current) => ({
+        ...current,
+        [type]: { ...(current[type] ?? DEFAULT_PREFERENCES), [channel]: enabled },
+      }));
+    } catch (error) {
+      console.error('Error updating notification preference:', error);
+      showToast('Failed to update notification preference', 'error');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const selectClassName =
+    'w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-gray-900 dark:text-white font-medium">Notification</p>
+          <div className="flex space-x-3">
+            {CHANNELS.map(({ channel, label }) => (
+              <p key={channel} className="w-11 text-center text-xs font-medium text-gray-500">
+                {label}
+              </p>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {NOTIFICATION_TYPES.map((definition) => (
+            <div key={definition.type} className="flex items-center justify-between">
+              <div className="flex-1 pr-4">
+                <p className="text-gray-900 dark:text-white text-sm font-medium">{definition.label}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{definition.description}</p>
+              </div>
+              <div className="flex space-x-3">
+                {CHANNELS.map(({ channel, label }) =>
+                  definition.channels.includes(channel) ? (
+                    <button
+                      key={channel}
+                      onClick={() => handleToggle(definition.type, channel)}
+                      disabled={loading || updating !== null}
+                      aria-label={`${label} notifications for ${definition.label.toLowerCase()}`}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-800 ${
+                        isEnabled(definition.type, channel) ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          isEnabled(definition.type, channel) ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  ) : (
+                    <span key={channel} className="w-11" />
+                  )
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+        <p className="text-gray-900 dark:text-white font-medium mb-1">Reminder Time</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          When to send log reminders and streak warnings, in your time zone
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="reminderDay" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Day
+            </label>
+            <select
+              id="reminderDay"
+              value={settings?.reminder_day ?? 6}
+              onChange={(e) => onUpdate({ reminder_day: Number(e.target.value) })}
+              disabled={saving}
+              className={selectClassName}
+            >
+              {WEEKDAYS.map((day, index) => (
+                <option key={day} value={index}>
+                  {day}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="reminderHour" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Time
+            </label>
+            <select
+              id="reminderHour"
+              value={settings?.reminder_hour ?? 17}
+              onChange={(e) => onUpdate({ reminder_hour: Number(e.target.value) })}
+              disabled={saving}
+              className={selectClassName}
+            >
+              {HOURS.map((hour) => (
+                <option key={hour} value={hour}>
+                  {formatHour(hour)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="sm:col-span-2">
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Time zone
+              </label>
+              {settings && settings.timezone !== browserTimeZone && (
+                <button
+                  onClick={() => onUpdate({ timezone: browserTimeZone })}
+                  disabled={saving}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-50"
+                >
+                  Use {browserTimeZone}
+                </button>
+              )}
+            </div>
+            <select
+              id="timezone"
+              value={settings?.timezone ?? 'UTC'}
+              onChange={(e) => onUpdate({ timezone: e.target.value })}
+              disabled={saving}
+              className={selectClassName}
+            >
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Weekly digests, rank changes and challenge results are sent on Sunday morning
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+
+interface AvatarProps {
+  name: string | null | undefined;
+  url?: string | null;
+  size?: 'sm' | 'md' | 'lg' | 'xl';
+  className?: string;
+}
+
+export function Avatar({ name, url, size = 'md', className = '' }: AvatarProps) {
+  const [failed, setFailed] = useState(false);
+
+  // A new image deserves a new attempt even if the previous one failed to load
+  useEffect(() => {
+    setFailed(false);
+  }, [url]);
+
+  const sizeClasses = {
+    sm: 'w-8 h-8 text-sm',
+    md: 'w-10 h-10',
+    lg: 'w-16 h-16 text-xl',
+    xl: 'w-20 h-20 text-3xl',
+  };
+
+  if (url && !failed) {
+    return (
+      <img
+        src={url}
+        alt={name ?? ''}
+        onError={() => setFailed(true)}
+        className={`rounded-full object-cover flex-shrink-0 ${sizeClasses[size]} ${className}`}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={`rounded-full bg-gradient-to-br from-blue-500 to-blue-700 flex items-center justify-center text-white font-bold flex-shrink-0 ${sizeClasses[size]} ${className}`}
+    >
+      {name?.charAt(0).toUpperCase() || 'U'}
+    </div>
+  );
+}
@@ -27,23 +27,23 @@ export class ErrorBoundary extends Component<Props, State> {
   public render() {
     if (this.state.hasError) {
       return (
-        <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
-          <div className="max-w-md w-full bg-gray-800 rounded-lg shadow-xl p-8 text-center">
+        <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex items-center justify-center p-4">
+          <div className="max-w-md w-full bg-white dark:bg-gray-800 rounded-lg shadow-xl p-8 text-center">
             <div className="w-16 h-16 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
-              <AlertTriangle className="w-8 h-8 text-red-400" />
+              <AlertTriangle className="w-8 h-8 text-red-600 dark:text-red-400" />
             </div>
-            <h2 className="text-2xl font-bold text-white mb-2">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
               Something went wrong
             </h2>
-            <p className="text-gray-400 mb-6">
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
               We encountered an unexpected error. Please refresh the page to try again.
             </p>
             {this.state.error && (
-              <details className="text-left mb-6 bg-gray-900 rounded p-4">
-                <summary className="text-sm text-gray-400 cursor-pointer mb-2">
+              <details className="text-left mb-6 bg-gray-100 dark:bg-gray-900 rounded p-4">
+                <summary className="text-sm text-gray-600 dark:text-gray-400 cursor-pointer mb-2">
                   Error details
                 </summary>
-                <code className="text-xs text-red-400 break-all">
+                <code className="text-xs text-red-600 dark:text-red-400 break-all">
                   {this.state.error.toString()}
                 </code>
               </details>
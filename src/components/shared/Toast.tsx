@@ -32,11 +32,11 @@ export function ToastProvider({ children }: { children: ReactNode }) {
   const getIcon = (type: Toast['type']) => {
     switch (type) {
       case 'success':
-        return <CheckCircle className="w-5 h-5 text-green-400" />;
+        return <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400" />;
       case 'error':
-        return <XCircle className="w-5 h-5 text-red-400" />;
+        return <XCircle className="w-5 h-5 text-red-600 dark:text-red-400" />;
       case 'info':
-        return <AlertCircle className="w-5 h-5 text-blue-400" />;
+        return <AlertCircle className="w-5 h-5 text-blue-600 dark:text-blue-400" />;
     }
   };
 
@@ -63,10 +63,10 @@ export function ToastProvider({ children }: { children: ReactNode }) {
             )} shadow-lg animate-in slide-in-from-right`}
           >
             {getIcon(toast.type)}
-            <p className="text-white text-sm font-medium flex-1">{toast.message}</p>
+            <p className="text-gray-900 dark:text-white text-sm font-medium flex-1">{toast.message}</p>
             <button
               onClick={() => removeToast(toast.id)}
-              className="text-gray-400 hover:text-white"
+              className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
             >
               <X className="w-4 h-4" />
             </button>
@@ -0,0 +1,211 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../shared/Toast';
+import { supabase } from '../../lib/supabase';
+import { Link2, Copy, Ban, Loader2, Plus } from 'lucide-react';
+import type { TeamInvite } from '../../types';
+
+interface TeamInvitesProps {
+  teamId: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+];
+
+const MAX_USES_OPTIONS = [
+  { label: 'Single use', value: '1' },
+  { label: '5 uses', value: '5' },
+  { label: '25 uses', value: '25' },
+  { label: 'Unlimited', value: '' },
+];
+
+export function TeamInvites({ teamId }: TeamInvitesProps) {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [invites, setInvites] = useState<TeamInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [expiryHours, setExpiryHours] = useState(EXPIRY_OPTIONS[1].hours);
+  const [maxUses, setMaxUses] = useState(MAX_USES_OPTIONS[0].value);
+
+  useEffect(() => {
+    loadInvites();
+  }, [teamId]);
+
+  const loadInvites = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('team_invites')
+        .select('*')
+        .eq('team_id', teamId)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvites(data || []);
+    } catch (error) {
+      console.error('Error loading invites:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setCreating(true);
+    try {
+      const expiresAt = new Date(Date.now() + expiryHours * 60 * 60 * 1000);
+      const { error } = await supabase
+        .from('team_invites')
+        .insert({
+          team_id: teamId,
+          created_by: user.id,
+          expires_at: expiresAt.toISOString(),
+          max_uses: maxUses ? parseInt(maxUses) : null,
+        });
+
+      if (error) throw error;
+      await loadInvites();
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      showToast('Failed to create invite', 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm('Revoke this invite? The link will stop working immediately.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('team_invites')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+      await loadInvites();
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      showToast('Failed to revoke invite', 'error');
+    }
+  };
+
+  const getInviteUrl = (code: string) => `${window.location.origin}/join/${code}`;
+
+  const handleCopy = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(code));
+      showToast('Invite link copied', 'success');
+    } catch {
+      showToast('Could not copy the link', 'error');
+    }
+  };
+
+  const formatExpiry = (expiresAt: string) =>
+    new Date(expiresAt).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const selectClassName =
+    'w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="p-6 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center space-x-2 mb-4">
+        <Link2 className="w-5 h-5 text-blue-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Invite Links</h3>
+      </div>
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        <select
+          value={expiryHours}
+          onChange={(e) => setExpiryHours(parseInt(e.target.value))}
+          className={selectClassName}
+          aria-label="Invite expiry"
+        >
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.hours} value={option.hours}>
+              Expires in {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={maxUses}
+          onChange={(e) => setMaxUses(e.target.value)}
+          className={selectClassName}
+          aria-label="Invite uses"
+        >
+          {MAX_USES_OPTIONS.map((option) => (
+            <option key={option.label} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={creating}
+          className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+        >
+          {creating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Plus className="w-5 h-5" />}
+          <span>New Invite</span>
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : invites.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No active invites.</p>
+      ) : (
+        <div className="space-y-2">
+          {invites.map((invite) => {
+            const exhausted = invite.max_uses !== null && invite.use_count >= invite.max_uses;
+            return (
+              <div
+                key={invite.id}
+                className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className={`font-mono font-semibold ${exhausted ? 'text-gray-500 line-through' : 'text-gray-900 dark:text-white'}`}>
+                    {invite.code}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    {invite.use_count}/{invite.max_uses ?? '∞'} used · expires {formatExpiry(invite.expires_at)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  <button
+                    onClick={() => handleCopy(invite.code)}
+                    disabled={exhausted}
+                    className="p-2 text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                    aria-label="Copy invite link"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(invite.id)}
+                    className="p-2 text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    aria-label="Revoke invite"
+                  >
+                    <Ban className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
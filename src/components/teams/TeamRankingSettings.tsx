@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useTeam } from '../../contexts/TeamContext';
+import { useToast } from '../shared/Toast';
+import { supabase } from '../../lib/supabase';
+import { Scale } from 'lucide-react';
+import type { UserTeam, LogRequirement, RankingDirection } from '../../types';
+
+interface TeamRankingSettingsProps {
+  team: UserTeam;
+}
+
+const DIRECTION_OPTIONS: { value: RankingDirection | ''; label: string }[] = [
+  { value: '', label: 'Deployment default' },
+  { value: 'lower_is_better', label: 'Lowest screen time wins' },
+  { value: 'higher_is_better', label: 'Highest screen time wins' },
+];
+
+const REQUIREMENT_OPTIONS: { value: LogRequirement | ''; label: string }[] = [
+  { value: '', label: 'Deployment default' },
+  { value: 'any_week', label: 'At least one log in the period' },
+  { value: 'every_week', label: 'A log for every completed week' },
+];
+
+export function TeamRankingSettings({ team }: TeamRankingSettingsProps) {
+  const { refreshTeams } = useTeam();
+  const { showToast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const handleUpdate = async (updates: {
+    ranking_direction?: RankingDirection | null;
+    log_requirement?: LogRequirement | null;
+  }) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update(updates)
+        .eq('id', team.id);
+
+      if (error) throw error;
+      await refreshTeams();
+      showToast('Ranking rules updated', 'success');
+    } catch (error) {
+      console.error('Error updating ranking rules:', error);
+      showToast('Failed to update ranking rules', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectClassName =
+    'w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+  return (
+    <div className="p-6 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center space-x-2 mb-4">
+        <Scale className="w-5 h-5 text-blue-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Ranking Rules</h3>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="rankingDirection" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Winner
+          </label>
+          <select
+            id="rankingDirection"
+            value={team.ranking_direction ?? ''}
+            onChange={(e) =>
+              handleUpdate({ ranking_direction: (e.target.value || null) as RankingDirection | null })
+            }
+            disabled={saving}
+            className={selectClassName}
+          >
+            {DIRECTION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="logRequirement" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Who gets ranked
+          </label>
+          <select
+            id="logRequirement"
+            value={team.log_requirement ?? ''}
+            onChange={(e) =>
+              handleUpdate({ log_requirement: (e.target.value || null) as LogRequirement | null })
+            }
+            disabled={saving}
+            className={selectClassName}
+          >
+            {REQUIREMENT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Members without the required logs are left off the board so nobody wins by not logging.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { createContext, useContext, useEffect, useCallback, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { supabase } from '../lib/supabase';
+import { getBadge } from '../lib/achievements';
+import { useToast } from '../components/shared/Toast';
+import type { Achievement } from '../types';
+
+interface AchievementContextType {
+  checkAchievements: () => Promise<void>;
+}
+
+const AchievementContext = createContext<AchievementContextType | undefined>(undefined);
+
+export function AchievementProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+
+  // Awards anything newly earned and toasts badges the user has not been told about yet
+  const checkAchievements = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase.rpc('claim_achievements');
+      if (error) throw error;
+
+      ((data || []) as Pick<Achievement, 'badge' | 'earned_at'>[]).forEach((achievement) => {
+        showToast(`Badge earned: ${getBadge(achievement.badge).name}`, 'success');
+      });
+    } catch (error) {
+      console.error('Error checking achievements:', error);
+    }
+  }, [user, showToast]);
+
+  useEffect(() => {
+    checkAchievements();
+  }, [checkAchievements]);
+
+  return (
+    <AchievementContext.Provider value={{ checkAchievements }}>{children}</AchievementContext.Provider>
+  );
+}
+
+export function useAchievements() {
+  const context = useContext(AchievementContext);
+  if (context === undefined) {
+    throw new Error('useAchievements must be used within an AchievementProvider');
+  }
+  return context;
+}
@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User as SupabaseUser, AuthError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { saveWithBrowserTimeZone } from '../lib/notifications';
 import type { User } from '../types';
 
 interface AuthContextType {
@@ -82,11 +83,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       if (profileError) return { error: profileError };
 
-      const { error: settingsError } = await supabase
-        .from('user_settings')
-        .insert({
-          user_id: data.user.id,
-        });
+      const userId = data.user.id;
+      const { error: settingsError } = await saveWithBrowserTimeZone((timezone) =>
+        supabase.from('user_settings').insert({
+          user_id: userId,
+          timezone,
+        })
+      );
 
       if (settingsError) return { error: settingsError };
 
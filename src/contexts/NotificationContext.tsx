@@ -0,0 +1,157 @@
+import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { supabase } from '../lib/supabase';
+import type { UserNotification } from '../types';
+
+// How many of the latest notifications are kept in the app
+const NOTIFICATION_LIMIT = 50;
+
+interface NotificationContextType {
+  notifications: UserNotification[];
+  unreadCount: number;
+  loading: boolean;
+  markAsRead: (notificationId: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export function NotificationProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const loadUnreadCount = useCallback(async () => {
+    if (!user) return;
+
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error loading unread notifications:', error);
+      return;
+    }
+    setUnreadCount(count ?? 0);
+  }, [user]);
+
+  const loadNotifications = useCallback(async () => {
+    if (!user) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      setNotifications((data || []) as UserNotification[]);
+      await loadUnreadCount();
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, loadUnreadCount]);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  // New notifications are written by database triggers; Realtime pushes them to open tabs
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const notification = payload.new as UserNotification;
+          setNotifications((current) => [notification, ...current].slice(0, NOTIFICATION_LIMIT));
+          setUnreadCount((count) => count + 1);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const notification = payload.new as UserNotification;
+          setNotifications((current) =>
+            current.map((existing) => (existing.id === notification.id ? notification : existing))
+          );
+          loadUnreadCount();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, loadUnreadCount]);
+
+  const markAsRead = async (notificationId: string) => {
+    const notification = notifications.find((existing) => existing.id === notificationId);
+    if (!user || !notification || notification.read_at) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((existing) => (existing.id === notificationId ? { ...existing, read_at: readAt } : existing))
+    );
+    setUnreadCount((count) => Math.max(0, count - 1));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('id', notificationId);
+
+    if (error) {
+      console.error('Error marking notification as read:', error);
+      await loadNotifications();
+    }
+  };
+
+  const markAllAsRead = async () => {
+    if (!user) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((current) => current.map((existing) => ({ ...existing, read_at: existing.read_at ?? readAt })));
+    setUnreadCount(0);
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      await loadNotifications();
+    }
+  };
+
+  return (
+    <NotificationContext.Provider value={{ notifications, unreadCount, loading, markAsRead, markAllAsRead }}>
+      {children}
+    </NotificationContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+}
@@ -0,0 +1,102 @@
+import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { supabase } from '../lib/supabase';
+import type { Team, TeamRole, UserTeam } from '../types';
+
+const ACTIVE_TEAM_STORAGE_KEY = 'lean-screen:active-team';
+
+interface TeamContextType {
+  teams: UserTeam[];
+  activeTeam: UserTeam | null;
+  loading: boolean;
+  selectTeam: (teamId: string | null) => void;
+  createTeam: (name: string) => Promise<{ team: Team | null; error: Error | null }>;
+  refreshTeams: () => Promise<void>;
+}
+
+const TeamContext = createContext<TeamContextType | undefined>(undefined);
+
+export function TeamProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [teams, setTeams] = useState<UserTeam[]>([]);
+  const [activeTeamId, setActiveTeamId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_TEAM_STORAGE_KEY)
+  );
+  const [loading, setLoading] = useState(true);
+
+  const refreshTeams = useCallback(async () => {
+    if (!user) {
+      setTeams([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('team_members')
+        .select('role, team:teams(*)')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      const memberships = (data || []) as unknown as { role: TeamRole; team: Team | null }[];
+      setTeams(
+        memberships
+          .filter((m) => m.team && !m.team.deleted_at)
+          .map((m) => ({ ...(m.team as Team), role: m.role }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (error) {
+      console.error('Error loading teams:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshTeams();
+  }, [refreshTeams]);
+
+  const selectTeam = (teamId: string | null) => {
+    setActiveTeamId(teamId);
+    if (teamId) {
+      localStorage.setItem(ACTIVE_TEAM_STORAGE_KEY, teamId);
+    } else {
+      localStorage.removeItem(ACTIVE_TEAM_STORAGE_KEY);
+    }
+  };
+
+  const createTeam = async (name: string) => {
+    try {
+      const { data, error } = await supabase.rpc('create_team', { team_name: name });
+      if (error) return { team: null, error };
+
+      await refreshTeams();
+      selectTeam(data.id);
+      return { team: data as Team, error: null };
+    } catch (error) {
+      return { team: null, error: error as Error };
+    }
+  };
+
+  const activeTeam = teams.find((team) => team.id === activeTeamId) ?? null;
+
+  const value = {
+    teams,
+    activeTeam,
+    loading,
+    selectTeam,
+    createTeam,
+    refreshTeams,
+  };
+
+  return <TeamContext.Provider value={value}>{children}</TeamContext.Provider>;
+}
+
+export function useTeam() {
+  const context = useContext(TeamContext);
+  if (context === undefined) {
+    throw new Error('useTeam must be used within a TeamProvider');
+  }
+  return context;
+}
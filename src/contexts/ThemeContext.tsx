@@ -0,0 +1,84 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { supabase } from '../lib/supabase';
+import {
+  applyTheme,
+  getStoredTheme,
+  isThemePreference,
+  resolveTheme,
+  storeTheme,
+  watchSystemTheme,
+  type ResolvedTheme,
+  type ThemePreference,
+} from '../lib/theme';
+
+interface ThemeContextType {
+  theme: ThemePreference;
+  resolvedTheme: ResolvedTheme;
+  setTheme: (theme: ThemePreference) => void;
+}
+
+const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [theme, setThemeState] = useState<ThemePreference>(getStoredTheme);
+  const [resolvedTheme, setResolvedTheme] = useState<ResolvedTheme>(() => resolveTheme(getStoredTheme()));
+
+  // The saved setting wins over the copy cached on this device
+  useEffect(() => {
+    if (!user) return;
+
+    const loadTheme = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('user_settings')
+          .select('theme')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data && isThemePreference(data.theme)) {
+          setTheme(data.theme);
+        }
+      } catch (error) {
+        console.error('Error loading theme:', error);
+      }
+    };
+
+    loadTheme();
+  }, [user]);
+
+  useEffect(() => {
+    const update = () => setResolvedTheme(resolveTheme(theme));
+    update();
+
+    if (theme !== 'system') return;
+    return watchSystemTheme(update);
+  }, [theme]);
+
+  useEffect(() => {
+    applyTheme(resolvedTheme);
+  }, [resolvedTheme]);
+
+  const setTheme = (next: ThemePreference) => {
+    storeTheme(next);
+    setThemeState(next);
+  };
+
+  const value = {
+    theme,
+    resolvedTheme,
+    setTheme,
+  };
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+export function useTheme() {
+  const context = useContext(ThemeContext);
+  if (context === undefined) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return context;
+}
@@ -0,0 +1,29 @@
+import type { AchievementBadge } from '../types';
+
+export interface BadgeDefinition {
+  badge: AchievementBadge;
+  name: string;
+  description: string;
+}
+
+/**
+ * Display order on the badge shelf. Which badges a user has is decided by
+ * `award_achievements()` in the database.
+ */
+export const BADGES: BadgeDefinition[] = [
+  { badge: 'first_log', name: 'First Log', description: 'Logged your first week of screen time' },
+  { badge: 'streak_4', name: 'Month Strong', description: 'Logged 4 weeks in a row' },
+  { badge: 'streak_12', name: 'Quarter Habit', description: 'Logged 12 weeks in a row' },
+  { badge: 'streak_52', name: 'Year Round', description: 'Logged 52 weeks in a row' },
+  { badge: 'first_goal_met', name: 'On Target', description: 'Finished a week at or under your goal' },
+  {
+    badge: 'biggest_reduction',
+    name: 'Biggest Reduction',
+    description: 'Cut your screen time more than anyone else on the leaderboard in a week',
+  },
+  { badge: 'top_3', name: 'Podium Finish', description: 'Finished a week in the top 3 of the leaderboard' },
+];
+
+export function getBadge(badge: AchievementBadge): BadgeDefinition {
+  return BADGES.find((definition) => definition.badge === badge) ?? BADGES[0];
+}
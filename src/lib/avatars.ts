@@ -0,0 +1,125 @@
+import { supabase } from './supabase';
+
+export const AVATAR_BUCKET = 'avatars';
+export const AVATAR_SIZE = 256;
+export const MAX_AVATAR_FILE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Position of the square crop inside the source image. `zoom` of 1 uses the largest square that
+ * fits; `x` and `y` pan from -1 (left/top edge) to 1 (right/bottom edge).
+ */
+export interface AvatarCrop {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_AVATAR_CROP: AvatarCrop = { zoom: 1, x: 0, y: 0 };
+
+export function loadImageFile(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('This file could not be read as an image'));
+    };
+    image.src = url;
+  });
+}
+
+export function drawAvatarCrop(
+  context: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  crop: AvatarCrop,
+  size: number
+) {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const side = Math.min(width, height) / crop.zoom;
+  const centerX = width / 2 + (crop.x * (width - side)) / 2;
+  const centerY = height / 2 + (crop.y * (height - side)) / 2;
+
+  context.clearRect(0, 0, size, size);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, centerX - side / 2, centerY - side / 2, side, side, 0, 0, size, size);
+}
+
+/** Crops and scales the image down to a square JPEG of `AVATAR_SIZE` pixels. */
+export function renderAvatar(image: HTMLImageElement, crop: AvatarCrop): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = AVATAR_SIZE;
+  canvas.height = AVATAR_SIZE;
+
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new Error('Image editing is not supported in this browser'));
+
+  // JPEG has no transparency, so transparent PNGs get the app background instead of black
+  context.fillStyle = '#1f2937';
+  context.fillRect(0, 0, AVATAR_SIZE, AVATAR_SIZE);
+  drawAvatarCrop(context, image, crop, AVATAR_SIZE);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to process the image'))),
+      'image/jpeg',
+      0.9
+    );
+  });
+}
+
+async function removeAvatarFiles(userId: string, keep?: string) {
+  const { data, error } = await supabase.storage.from(AVATAR_BUCKET).list(userId);
+  if (error) throw error;
+
+  const stale = (data || []).map((file) => `${userId}/${file.name}`).filter((path) => path !== keep);
+  if (stale.length === 0) return;
+
+  const { error: removeError } = await supabase.storage.from(AVATAR_BUCKET).remove(stale);
+  if (removeError) throw removeError;
+}
+
+/**
+ * Uploads a new avatar under the user's own folder and returns its storage path. Each upload gets a
+ * new file name so browsers and CDNs never serve the previous picture.
+ */
+export async function uploadAvatar(userId: string, blob: Blob): Promise<string> {
+  const path = `${userId}/${Date.now()}.jpg`;
+
+  const { error } = await supabase.storage
+    .from(AVATAR_BUCKET)
+    .upload(path, blob, { contentType: 'image/jpeg', cacheControl: '31536000' });
+  if (error) throw error;
+
+  return path;
+}
+
+export function getAvatarUrl(path: string): string {
+  return supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/** Removes the user's older avatars once the profile points at the one at `keep`. */
+export async function removeOldAvatars(userId: string, keep: string) {
+  try {
+    await removeAvatarFiles(userId, keep);
+  } catch (error) {
+    // A leftover file only wastes space, the new avatar is already in place
+    console.error('Error removing old avatars:', error);
+  }
+}
+
+/** Removes an upload that the profile never pointed at. */
+export async function discardAvatar(path: string) {
+  const { error } = await supabase.storage.from(AVATAR_BUCKET).remove([path]);
+  if (error) {
+    console.error('Error removing unused avatar:', error);
+  }
+}
+
+export async function deleteAvatar(userId: string) {
+  await removeAvatarFiles(userId);
+}
@@ -0,0 +1,46 @@
+import { getWeekStartDateString } from './weekUtils';
+import type { Challenge, ChallengeRule } from '../types';
+
+export type ChallengeStatus = 'upcoming' | 'active' | 'finished';
+
+export const CHALLENGE_RULES: { rule: ChallengeRule; label: string; description: string }[] = [
+  {
+    rule: 'lowest_total',
+    label: 'Lowest total',
+    description: 'Least screen time over the challenge. Logging every week ranks ahead of skipping weeks.',
+  },
+  {
+    rule: 'biggest_reduction',
+    label: 'Biggest reduction',
+    description: 'Largest drop in weekly average compared with the 4 logged weeks before the challenge.',
+  },
+  {
+    rule: 'under_target_weeks',
+    label: 'Weeks under target',
+    description: 'Most weeks at or under the weekly limit. Ties go to the lower total.',
+  },
+];
+
+export function getChallengeRule(rule: ChallengeRule) {
+  return CHALLENGE_RULES.find((definition) => definition.rule === rule) ?? CHALLENGE_RULES[0];
+}
+
+/**
+ * A challenge is finished once its last week is over, which is also when the database
+ * freezes its results (see `get_challenge_standings`).
+ */
+export function getChallengeStatus(
+  challenge: Pick<Challenge, 'start_week' | 'end_week' | 'finalized_at'>
+): ChallengeStatus {
+  const currentWeek = getWeekStartDateString(new Date());
+
+  if (challenge.finalized_at || currentWeek > challenge.end_week) return 'finished';
+  if (currentWeek < challenge.start_week) return 'upcoming';
+  return 'active';
+}
+
+export function getChallengeWeekCount(challenge: Pick<Challenge, 'start_week' | 'end_week'>): number {
+  const days =
+    (Date.parse(`${challenge.end_week}T00:00:00Z`) - Date.parse(`${challenge.start_week}T00:00:00Z`)) / 86400000;
+  return Math.round(days / 7) + 1;
+}
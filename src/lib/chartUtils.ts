@@ -0,0 +1,52 @@
+import { getWeekStartDateString } from './weekUtils';
+
+export interface WeeklyPoint {
+  weekStartDate: string;
+  minutes: number | null;
+}
+
+function addDays(dateString: string, days: number): string {
+  const d = new Date(`${dateString}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * One point per week from the first logged week (or `weeks` back) up to the current week.
+ * Weeks without a log have `minutes: null` so gaps stay visible.
+ */
+export function buildWeeklySeries(
+  logs: { week_start_date: string; minutes: number }[],
+  weeks?: number
+): WeeklyPoint[] {
+  const currentWeek = getWeekStartDateString(new Date());
+  const byWeek = new Map(logs.map((log) => [log.week_start_date, log.minutes]));
+  const firstLogged = logs.reduce<string | null>(
+    (first, log) => (first === null || log.week_start_date < first ? log.week_start_date : first),
+    null
+  );
+
+  if (!firstLogged) return [];
+
+  const start = weeks ? addDays(currentWeek, -7 * (weeks - 1)) : firstLogged;
+
+  const series: WeeklyPoint[] = [];
+  for (let week = start; week <= currentWeek; week = addDays(week, 7)) {
+    series.push({ weekStartDate: week, minutes: byWeek.get(week) ?? null });
+  }
+
+  return series;
+}
+
+/**
+ * Trailing average over the last `window` weeks, ignoring weeks without a log.
+ * Null until at least one logged week falls inside the window.
+ */
+export function movingAverage(values: (number | null)[], window: number): (number | null)[] {
+  return values.map((_, index) => {
+    const logged = values
+      .slice(Math.max(0, index - window + 1), index + 1)
+      .filter((value): value is number => value !== null);
+    return logged.length > 0 ? logged.reduce((sum, value) => sum + value, 0) / logged.length : null;
+  });
+}
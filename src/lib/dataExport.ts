@@ -0,0 +1,249 @@
+import { supabase } from './supabase';
+import { toCsv } from './csv';
+import { getWeekDays } from './weekUtils';
+import type { NotificationPreference, ScreenTimeLog, User, UserSettings, UserStreak } from '../types';
+
+/**
+ * Bump when a field is renamed, removed or changes meaning. Adding optional fields
+ * does not require a new version. The format is documented in the README.
+ */
+export const EXPORT_SCHEMA = 'lean-screen-export';
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export interface ExportedLog {
+  week_start_date: string;
+  minutes: number;
+  notes: string | null;
+  daily_entries: { entry_date: string; minutes: number }[];
+  categories: { name: string; minutes: number }[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StreakPeriod {
+  start_week: string;
+  end_week: string;
+  weeks: number;
+}
+
+export interface DataExport {
+  schema: typeof EXPORT_SCHEMA;
+  schema_version: typeof EXPORT_SCHEMA_VERSION;
+  exported_at: string;
+  user: Pick<User, 'email' | 'display_name' | 'created_at'>;
+  settings: Pick<
+    UserSettings,
+    | 'theme'
+    | 'show_on_leaderboard'
+    | 'timezone'
+    | 'reminder_day'
+    | 'reminder_hour'
+    | 'profile_show_streaks'
+    | 'profile_show_badges'
+    | 'profile_show_history'
+  > | null;
+  notification_preferences: Pick<NotificationPreference, 'notification_type' | 'email' | 'in_app'>[];
+  streak: Pick<
+    UserStreak,
+    'current_streak' | 'longest_streak' | 'current_goal_streak' | 'longest_goal_streak' | 'last_log_week_start'
+  > | null;
+  streak_history: StreakPeriod[];
+  custom_categories: { name: string; color: string }[];
+  logs: ExportedLog[];
+}
+
+type LogWithDetails = ScreenTimeLog & {
+  daily_entries: { entry_date: string; minutes: number }[];
+  categories: { minutes: number; category: { name: string } | null }[];
+};
+
+/**
+ * Streaks are runs of consecutive logged weeks. The database only keeps the current and
+ * longest streak, so the history is rebuilt from the logs. Frozen weeks keep a run going
+ * but are not counted, matching `recalculate_user_streak()`.
+ */
+export function getStreakHistory(weekStartDates: string[], frozenWeeks: string[] = []): StreakPeriod[] {
+  const frozen = new Set(frozenWeeks);
+  const weeks = Array.from(new Set([...weekStartDates, ...frozenWeeks])).sort();
+  const periods: StreakPeriod[] = [];
+
+  weeks.forEach((week) => {
+    const current = periods[periods.length - 1];
+    const gapDays = current
+      ? (Date.parse(`${week}T00:00:00Z`) - Date.parse(`${current.end_week}T00:00:00Z`)) / 86400000
+      : null;
+
+    if (current && gapDays === 7) {
+      current.end_week = week;
+      if (!frozen.has(week)) current.weeks++;
+    } else if (!frozen.has(week)) {
+      periods.push({ start_week: week, end_week: week, weeks: 1 });
+    }
+  });
+
+  return periods;
+}
+
+export async function fetchDataExport(userId: string): Promise<DataExport> {
+  const [
+    userResult,
+    settingsResult,
+    preferencesResult,
+    streakResult,
+    categoriesResult,
+    logsResult,
+    freezesResult,
+  ] = await Promise.all([
+    supabase.from('users').select('email, display_name, created_at').eq('id', userId).single(),
+    supabase
+      .from('user_settings')
+      .select(
+        'theme, show_on_leaderboard, timezone, reminder_day, reminder_hour, profile_show_streaks, profile_show_badges, profile_show_history'
+      )
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('notification_preferences')
+      .select('notification_type, email, in_app')
+      .eq('user_id', userId)
+      .order('notification_type', { ascending: true }),
+    supabase
+      .from('user_streaks')
+      .select('current_streak, longest_streak, current_goal_streak, longest_goal_streak, last_log_week_start')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('screen_time_categories')
+      .select('name, color')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('name', { ascending: true }),
+    supabase
+      .from('screen_time_logs')
+      .select(
+        '*, daily_entries:screen_time_daily_entries(entry_date, minutes), categories:screen_time_log_categories(minutes, category:screen_time_categories(name))'
+      )
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('week_start_date', { ascending: true }),
+    supabase.from('streak_freezes').select('week_start_date').eq('user_id', userId),
+  ]);
+
+  const firstError = [
+    userResult,
+    settingsResult,
+    preferencesResult,
+    streakResult,
+    categoriesResult,
+    logsResult,
+    freezesResult,
+  ].find((result) => result.error)?.error;
+  if (firstError) throw firstError;
+  if (!userResult.data) throw new Error('User profile not found');
+
+  const logs = (logsResult.data || []) as unknown as LogWithDetails[];
+
+  return {
+    schema: EXPORT_SCHEMA,
+    schema_version: EXPORT_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    user: userResult.data,
+    settings: settingsResult.data,
+    notification_preferences: preferencesResult.data || [],
+    streak: streakResult.data,
+    streak_history: getStreakHistory(
+      logs.map((log) => log.week_start_date),
+      (freezesResult.data || []).map((freeze) => freeze.week_start_date)
+    ),
+    custom_categories: categoriesResult.data || [],
+    logs: logs.map((log) => ({
+      week_start_date: log.week_start_date,
+      minutes: log.minutes,
+      notes: log.notes,
+      daily_entries: [...log.daily_entries].sort((a, b) => a.entry_date.localeCompare(b.entry_date)),
+      categories: log.categories
+        .map((row) => ({ name: row.category?.name ?? 'Unknown', minutes: row.minutes }))
+        .sort((a, b) => b.minutes - a.minutes),
+      created_at: log.created_at,
+      updated_at: log.updated_at,
+    })),
+  };
+}
+
+const LOGS_CSV_HEADER = [
+  'week_start_date',
+  'minutes',
+  'notes',
+  'daily_minutes',
+  'categories',
+  'created_at',
+  'updated_at',
+];
+
+export function logsToCsv(data: DataExport): string {
+  return toCsv([
+    LOGS_CSV_HEADER,
+    ...data.logs.map((log) => {
+      // Sunday..Saturday, blank for days without an entry
+      const dailyMinutes =
+        log.daily_entries.length > 0
+          ? getWeekDays(log.week_start_date)
+              .map((day) => log.daily_entries.find((entry) => entry.entry_date === day.date)?.minutes ?? '')
+              .join(';')
+          : '';
+
+      return [
+        log.week_start_date,
+        log.minutes,
+        log.notes,
+        dailyMinutes,
+        log.categories.map((category) => `${category.name}:${category.minutes}`).join(';'),
+        log.created_at,
+        log.updated_at,
+      ];
+    }),
+  ]);
+}
+
+export function streakHistoryToCsv(data: DataExport): string {
+  return toCsv([
+    ['start_week', 'end_week', 'weeks'],
+    ...data.streak_history.map((period) => [period.start_week, period.end_week, period.weeks]),
+  ]);
+}
+
+export function settingsToCsv(data: DataExport): string {
+  return toCsv([
+    ['setting', 'value'],
+    ['display_name', data.user.display_name],
+    ['email', data.user.email],
+    ['theme', data.settings?.theme],
+    ['show_on_leaderboard', data.settings?.show_on_leaderboard],
+    ['timezone', data.settings?.timezone],
+    ['reminder_day', data.settings?.reminder_day],
+    ['reminder_hour', data.settings?.reminder_hour],
+    ['profile_show_streaks', data.settings?.profile_show_streaks],
+    ['profile_show_badges', data.settings?.profile_show_badges],
+    ['profile_show_history', data.settings?.profile_show_history],
+    ...data.notification_preferences.flatMap((preference) => [
+      [`email_${preference.notification_type}`, preference.email],
+      [`in_app_${preference.notification_type}`, preference.in_app],
+    ]),
+    ['current_streak', data.streak?.current_streak],
+    ['longest_streak', data.streak?.longest_streak],
+    ['current_goal_streak', data.streak?.current_goal_streak],
+    ['longest_goal_streak', data.streak?.longest_goal_streak],
+  ]);
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,53 @@
+import { getUtcWeekStartDateString } from './weekUtils';
+import type { Duel, DuelWeek } from '../types';
+
+export type DuelPhase = 'pending' | 'expired' | 'declined' | 'cancelled' | 'upcoming' | 'active' | 'finished';
+
+export type DuelSide = 'challenger' | 'opponent';
+
+export interface ScoredDuelWeek extends DuelWeek {
+  winner: DuelSide | 'tie' | null;
+  challengerScore: number;
+  opponentScore: number;
+}
+
+/**
+ * Pending duels expire once their last week is over, since the database no longer lets them be
+ * accepted (see `respond_to_duel`).
+ */
+export function getDuelPhase(duel: Pick<Duel, 'status' | 'start_week' | 'end_week'>): DuelPhase {
+  const currentWeek = getUtcWeekStartDateString(new Date());
+
+  if (duel.status === 'pending') return currentWeek > duel.end_week ? 'expired' : 'pending';
+  if (duel.status !== 'accepted') return duel.status;
+  if (currentWeek > duel.end_week) return 'finished';
+  if (currentWeek < duel.start_week) return 'upcoming';
+  return 'active';
+}
+
+/**
+ * Each week both users logged goes to whoever had less screen time; ties and weeks missing a log
+ * score for nobody. Scores are running totals up to and including the week.
+ */
+export function scoreDuelWeeks(weeks: DuelWeek[]): ScoredDuelWeek[] {
+  let challengerScore = 0;
+  let opponentScore = 0;
+
+  return weeks.map((week) => {
+    let winner: ScoredDuelWeek['winner'] = null;
+
+    if (week.challenger_minutes !== null && week.opponent_minutes !== null) {
+      if (week.challenger_minutes < week.opponent_minutes) {
+        winner = 'challenger';
+        challengerScore++;
+      } else if (week.opponent_minutes < week.challenger_minutes) {
+        winner = 'opponent';
+        opponentScore++;
+      } else {
+        winner = 'tie';
+      }
+    }
+
+    return { ...week, winner, challengerScore, opponentScore };
+  });
+}
@@ -0,0 +1,27 @@
+import type { WeeklyGoal } from '../types';
+
+/**
+ * The weekly limit a goal sets. Matches `target_minutes` in the `weekly_goal_results` view.
+ */
+export function getGoalTargetMinutes(goal: WeeklyGoal | null): number | null {
+  if (!goal) return null;
+
+  switch (goal.goal_type) {
+    case 'minutes':
+      return goal.target_minutes;
+    case 'reduction_pct':
+      return goal.baseline_minutes !== null && goal.reduction_pct !== null
+        ? Math.round(goal.baseline_minutes * (1 - goal.reduction_pct / 100))
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * The goal in effect for a week: the latest one starting on or before it.
+ * `goals` must be sorted by `effective_week_start`, newest first.
+ */
+export function getGoalForWeek(goals: WeeklyGoal[], weekStartDate: string): WeeklyGoal | null {
+  return goals.find((goal) => goal.effective_week_start <= weekStartDate) ?? null;
+}
@@ -0,0 +1,99 @@
+import { addWeeks, formatWeekLabel, getUtcWeekStartDateString } from './weekUtils';
+import type { LeaderboardPeriod, LeaderboardRange } from '../types';
+
+export type LeaderboardPreset = Exclude<LeaderboardPeriod, 'custom' | 'past_week'>;
+
+export const LEADERBOARD_PERIODS: { period: LeaderboardPeriod; label: string }[] = [
+  { period: 'this_week', label: 'This Week' },
+  { period: 'last_4_weeks', label: 'Last 4 Weeks' },
+  { period: 'last_12_weeks', label: 'Last 12 Weeks' },
+  { period: 'all_time', label: 'All Time' },
+  { period: 'custom', label: 'Custom' },
+  { period: 'past_week', label: 'Past Weeks' },
+];
+
+export const DEFAULT_LEADERBOARD_PERIOD: LeaderboardPreset = 'last_4_weeks';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function getPresetRange(
+  period: LeaderboardPreset,
+  currentWeek: string = getUtcWeekStartDateString(new Date())
+): LeaderboardRange {
+  switch (period) {
+    case 'this_week':
+      return { startWeek: currentWeek, endWeek: currentWeek };
+    case 'last_4_weeks':
+      return { startWeek: addWeeks(currentWeek, -3), endWeek: currentWeek };
+    case 'last_12_weeks':
+      return { startWeek: addWeeks(currentWeek, -11), endWeek: currentWeek };
+    case 'all_time':
+      return { startWeek: null, endWeek: null };
+  }
+}
+
+/** Snaps any `YYYY-MM-DD` date to the start of its week, or returns null if it is not a date. */
+export function toWeekStart(value: string | null): string | null {
+  if (!value || !DATE_PATTERN.test(value)) return null;
+
+  const date = new Date(`${value}T00:00:00Z`);
+  if (isNaN(date.getTime())) return null;
+  return getUtcWeekStartDateString(date);
+}
+
+// Matches `take_leaderboard_snapshot()`: a week is frozen from the Tuesday after it ended
+const SNAPSHOT_DELAY_DAYS = 9;
+
+/** The most recent week that is over. */
+export function getLastClosedWeek(): string {
+  return addWeeks(getUtcWeekStartDateString(new Date()), -1);
+}
+
+/** Whether a week's standings can be frozen, so it has a snapshot instead of a live board. */
+export function isWeekFinal(weekStart: string): boolean {
+  const finalDate = new Date(`${weekStart}T00:00:00Z`);
+  finalDate.setUTCDate(finalDate.getUTCDate() + SNAPSHOT_DELAY_DAYS);
+  return finalDate <= new Date();
+}
+
+/**
+ * Reads the leaderboard range from the URL: `?range=last_12_weeks` for a preset,
+ * `?from=2025-09-07&to=2025-10-26` for a custom range (`to` defaults to the current week), or
+ * `?week=2025-10-26` for the final standings of a past week.
+ */
+export function parseLeaderboardParams(params: URLSearchParams): {
+  period: LeaderboardPeriod;
+  range: LeaderboardRange;
+} {
+  const week = toWeekStart(params.get('week'));
+  const lastClosedWeek = getLastClosedWeek();
+
+  if (week || params.get('range') === 'past_week') {
+    const pastWeek = week && week <= lastClosedWeek ? week : lastClosedWeek;
+    return { period: 'past_week', range: { startWeek: pastWeek, endWeek: pastWeek } };
+  }
+
+  const from = toWeekStart(params.get('from'));
+
+  if (from) {
+    const to = toWeekStart(params.get('to')) ?? getUtcWeekStartDateString(new Date());
+    return {
+      period: 'custom',
+      range: from <= to ? { startWeek: from, endWeek: to } : { startWeek: to, endWeek: from },
+    };
+  }
+
+  const preset = LEADERBOARD_PERIODS.find(
+    (p) => p.period !== 'custom' && p.period !== 'past_week' && p.period === params.get('range')
+  );
+  const period = (preset?.period ?? DEFAULT_LEADERBOARD_PERIOD) as LeaderboardPreset;
+  return { period, range: getPresetRange(period) };
+}
+
+export function formatRangeLabel(range: LeaderboardRange): string {
+  if (!range.startWeek) return 'All time';
+
+  const end = range.endWeek ?? getUtcWeekStartDateString(new Date());
+  if (range.startWeek === end) return formatWeekLabel(new Date(range.startWeek));
+  return `${formatWeekLabel(new Date(range.startWeek))} – ${formatWeekLabel(new Date(end))}`;
+}
@@ -0,0 +1,161 @@
+import { getBadge } from './achievements';
+import { formatWeekLabel } from './weekUtils';
+import type { NotificationType, UserNotification } from '../types';
+
+export type NotificationChannel = 'email' | 'in_app';
+
+export const NOTIFICATION_TYPES: {
+  type: NotificationType;
+  label: string;
+  description: string;
+  channels: NotificationChannel[];
+}[] = [
+  {
+    type: 'log_reminder',
+    label: 'Log reminder',
+    description: "On your reminder day, if you haven't logged the week yet",
+    channels: ['email'],
+  },
+  {
+    type: 'streak_at_risk',
+    label: 'Streak at risk',
+    description: 'On your reminder day when your streak ends unless you log this week',
+    channels: ['email', 'in_app'],
+  },
+  {
+    type: 'weekly_digest',
+    label: 'Weekly digest',
+    description: 'Your total, streak and rank every Sunday',
+    channels: ['email'],
+  },
+  {
+    type: 'rank_change',
+    label: 'Rank changes',
+    description: 'When you move up or down the leaderboard over a week',
+    channels: ['email'],
+  },
+  {
+    type: 'overtaken',
+    label: 'Overtaken',
+    description: "When someone passes you on this week's leaderboard",
+    channels: ['in_app'],
+  },
+  {
+    type: 'challenge_invite',
+    label: 'Challenge invitations',
+    description: 'New challenges in your teams and duel invitations',
+    channels: ['in_app'],
+  },
+  {
+    type: 'challenge_updates',
+    label: 'Challenge results',
+    description: 'Final standings of the challenges you joined',
+    channels: ['email'],
+  },
+  {
+    type: 'badge_earned',
+    label: 'Badges',
+    description: 'When you earn a new badge',
+    channels: ['in_app'],
+  },
+];
+
+export function getNotificationType(type: NotificationType) {
+  return NOTIFICATION_TYPES.find((definition) => definition.type === type);
+}
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return NOTIFICATION_TYPES.some((definition) => definition.type === value);
+}
+
+// Matches `user_settings.reminder_day`, 0 = Sunday
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function formatHour(hour: number) {
+  const date = new Date(2000, 0, 1, hour);
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+export function getBrowserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Raised by the database for a time zone it doesn't know
+const UNKNOWN_TIME_ZONE_CODE = '22023';
+
+/**
+ * Saves settings with the browser's time zone, falling back to UTC when the database doesn't know
+ * it. Browsers and the database don't always ship the same time zone list.
+ */
+export async function saveWithBrowserTimeZone<T extends { error: { code?: string } | null }>(
+  save: (timezone: string) => PromiseLike<T>
+): Promise<T> {
+  const result = await save(getBrowserTimeZone());
+  return result.error?.code === UNKNOWN_TIME_ZONE_CODE ? save('UTC') : result;
+}
+
+/**
+ * IANA time zones the browser knows about. Older browsers can't list them, so they only
+ * offer UTC, their own time zone and the one already saved.
+ */
+export function getTimeZones(current?: string): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+
+  return Array.from(new Set(['UTC', getBrowserTimeZone(), ...(current ? [current] : []), ...zones])).sort();
+}
+
+function formatWeek(weekStartDate: string | undefined) {
+  return weekStartDate ? formatWeekLabel(new Date(`${weekStartDate}T00:00:00`)) : 'this week';
+}
+
+/** Text and destination of an in-app notification, built from the event data. */
+export function getNotificationContent(notification: UserNotification): {
+  title: string;
+  message: string;
+  link: string;
+} {
+  const { data } = notification;
+
+  switch (notification.type) {
+    case 'badge_earned': {
+      const badge = getBadge(data.badge ?? 'first_log');
+      return { title: `Badge earned: ${badge.name}`, message: badge.description, link: '/profile' };
+    }
+    case 'overtaken':
+      return {
+        title: `${data.display_name ?? 'Someone'} passed you on the leaderboard`,
+        message: `They moved ahead of you for the week of ${formatWeek(data.week_start_date)}.`,
+        link: '/leaderboard',
+      };
+    case 'challenge_invite':
+      if (data.duel_id) {
+        return {
+          title: `${data.display_name ?? 'Someone'} challenged you to a duel`,
+          message: `Starting the week of ${formatWeek(data.start_week)}. Accept or decline the invitation.`,
+          link: `/duels/${data.duel_id}`,
+        };
+      }
+      return {
+        title: `New challenge in ${data.team_name ?? 'your team'}`,
+        message: `Join "${data.challenge_name}", starting the week of ${formatWeek(data.start_week)}.`,
+        link: `/challenges/${data.challenge_id}`,
+      };
+    case 'streak_at_risk':
+      return {
+        title: `Your ${data.current_streak ?? 0}-week streak ends this week`,
+        message: "Log this week's screen time to keep it going.",
+        link: '/logs',
+      };
+  }
+}
+
+export function formatNotificationTime(createdAt: string) {
+  const minutes = Math.floor((Date.now() - Date.parse(createdAt)) / 60000);
+
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  if (minutes < 60 * 24 * 7) return `${Math.floor(minutes / (60 * 24))}d ago`;
+  return new Date(createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
@@ -0,0 +1,542 @@
+import { supabase } from './supabase';
+import { parseCsv } from './csv';
+import { getWeekStartDateString, getWeekDays } from './weekUtils';
+
+export type DurationUnit = 'hours' | 'minutes' | 'seconds' | 'milliseconds';
+export type ConflictMode = 'skip' | 'replace';
+
+export interface ImportedDay {
+  entryDate: string;
+  minutes: number;
+}
+
+export interface ImportedWeek {
+  weekStartDate: string;
+  minutes: number;
+  days: ImportedDay[];
+  notes?: string | null;
+  error: string | null;
+}
+
+export interface LogColumnMapping {
+  week: number;
+  minutes: number;
+  notes: number | null;
+  unit: DurationUnit;
+}
+
+export interface LogRowResult {
+  rowNumber: number;
+  weekStartDate: string | null;
+  minutes: number | null;
+  notes: string | null;
+  error: string | null;
+}
+
+export interface ExistingWeek {
+  id: string;
+  minutes: number;
+}
+
+export interface ParsedImport {
+  format: string;
+  weeks: ImportedWeek[];
+  warnings: string[];
+}
+
+export interface ImportSummary {
+  inserted: number;
+  replaced: number;
+  skipped: number;
+  failed: { weekStartDate: string; message: string }[];
+}
+
+interface UsageRecord {
+  date: Date;
+  minutes: number;
+}
+
+const MAX_DAY_MINUTES = 1440;
+const MAX_WEEK_MINUTES = 10080;
+
+const JSON_LIST_KEYS = ['days', 'data', 'entries', 'usage', 'records', 'items', 'screenTime'];
+const DATE_KEYS = ['date', 'day', 'startDate', 'start', 'timestamp', 'beginTime', 'firstTimeStamp'];
+const DURATION_KEYS: [string, DurationUnit][] = [
+  ['minutes', 'minutes'],
+  ['totalMinutes', 'minutes'],
+  ['screenTimeMinutes', 'minutes'],
+  ['seconds', 'seconds'],
+  ['durationSeconds', 'seconds'],
+  ['totalTimeInForeground', 'milliseconds'],
+  ['totalTimeInForegroundMs', 'milliseconds'],
+  ['timeInForeground', 'milliseconds'],
+  ['usageTimeMs', 'milliseconds'],
+  ['durationMs', 'milliseconds'],
+  ['duration', 'minutes'],
+  ['screenTime', 'minutes'],
+  ['totalTime', 'minutes'],
+  ['usageTime', 'minutes'],
+  ['hours', 'hours'],
+];
+
+/**
+ * Parses a duration such as "95", "1h 35m", "1 hr 35 mins", "1:35" or "01:35:00".
+ * Plain numbers are read in the given unit. Returns whole minutes, or null if unreadable.
+ */
+export function parseDuration(value: unknown, unit: DurationUnit = 'minutes'): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? Math.round(toMinutes(value, unit)) : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim().toLowerCase();
+  if (text === '') return null;
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(toMinutes(parseFloat(text), unit));
+  }
+
+  const clock = text.match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  if (clock) {
+    const [, hours, minutes, seconds] = clock;
+    return Math.round(parseInt(hours) * 60 + parseInt(minutes) + (seconds ? parseInt(seconds) / 60 : 0));
+  }
+
+  const parts = [...text.matchAll(/(\d+(?:\.\d+)?)\s*(h|hr|hrs|hour|hours|m|min|mins|minute|minutes|s|sec|secs|second|seconds)\b/g)];
+  if (parts.length === 0) return null;
+
+  const total = parts.reduce((sum, [, amount, suffix]) => {
+    const n = parseFloat(amount);
+    if (suffix.startsWith('h')) return sum + n * 60;
+    if (suffix.startsWith('s')) return sum + n / 60;
+    return sum + n;
+  }, 0);
+
+  return Math.round(total);
+}
+
+function toMinutes(value: number, unit: DurationUnit): number {
+  switch (unit) {
+    case 'hours':
+      return value * 60;
+    case 'seconds':
+      return value / 60;
+    case 'milliseconds':
+      return value / 60000;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parses ISO (2025-10-19, optionally with a time), US (10/19/2025), European (19.10.2025)
+ * dates and Unix timestamps in seconds or milliseconds. Returns a local date at midnight.
+ */
+export function parseImportDate(value: unknown): Date | null {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d{9,13}$/.test(value.trim()))) {
+    const n = Number(value);
+    const d = new Date(n > 1e11 ? n : n * 1000);
+    return Number.isNaN(d.getTime()) ? null : new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  }
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return buildDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (match) return buildDate(+match[3], +match[1], +match[2]);
+
+  match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+  if (match) return buildDate(+match[3], +match[2], +match[1]);
+
+  return null;
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  const d = new Date(year, month - 1, day);
+  return d.getMonth() === month - 1 && d.getDate() === day ? d : null;
+}
+
+/**
+ * Sums usage per day, then groups the days into weeks keyed by the same
+ * `week_start_date` the log form uses.
+ */
+function groupIntoWeeks(records: UsageRecord[], warnings: string[]): ImportedWeek[] {
+  const today = new Date();
+  const byDay = new Map<number, UsageRecord>();
+
+  records.forEach((record) => {
+    if (record.date > today) return;
+    const key = record.date.getTime();
+    const existing = byDay.get(key);
+    byDay.set(key, { date: record.date, minutes: (existing?.minutes ?? 0) + record.minutes });
+  });
+
+  if (records.some((record) => record.date > today)) {
+    warnings.push('Days in the future were ignored');
+  }
+
+  const weeks = new Map<string, ImportedWeek>();
+
+  Array.from(byDay.values())
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .forEach((day) => {
+      const weekStartDate = getWeekStartDateString(day.date);
+      const week = weeks.get(weekStartDate) ?? { weekStartDate, minutes: 0, days: [], error: null };
+      const entryDate = getWeekDays(weekStartDate)[day.date.getDay()].date;
+
+      week.days.push({ entryDate, minutes: day.minutes });
+      week.minutes += day.minutes;
+
+      if (day.minutes > MAX_DAY_MINUTES && !week.error) {
+        week.error = `${entryDate} has more than 24 hours of screen time`;
+      }
+
+      weeks.set(weekStartDate, week);
+    });
+
+  return Array.from(weeks.values())
+    .filter((week) => {
+      if (week.minutes > 0) return true;
+      warnings.push(`Week of ${week.weekStartDate} has no screen time and was ignored`);
+      return false;
+    })
+    .map((week) =>
+      week.minutes > MAX_WEEK_MINUTES && !week.error
+        ? { ...week, error: 'More than 168 hours of screen time' }
+        : week
+    )
+    .sort((a, b) => b.weekStartDate.localeCompare(a.weekStartDate));
+}
+
+function findKey(record: Record<string, unknown>, candidates: string[]): string | undefined {
+  const keys = Object.keys(record);
+  for (const candidate of candidates) {
+    const key = keys.find((k) => k.toLowerCase() === candidate.toLowerCase());
+    if (key) return key;
+  }
+  return undefined;
+}
+
+function parseJsonExport(text: string): ParsedImport {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  let list: unknown = json;
+  if (!Array.isArray(list) && list && typeof list === 'object') {
+    const key = findKey(list as Record<string, unknown>, JSON_LIST_KEYS);
+    list = key ? (list as Record<string, unknown>)[key] : undefined;
+  }
+
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error('No usage records found in the JSON file');
+  }
+
+  const warnings: string[] = [];
+  const records: UsageRecord[] = [];
+  let perApp = false;
+  let unreadable = 0;
+
+  list.forEach((item) => {
+    if (!item || typeof item !== 'object') {
+      unreadable++;
+      return;
+    }
+
+    const record = item as Record<string, unknown>;
+    const dateKey = findKey(record, DATE_KEYS);
+    const durationKey = findKey(record, DURATION_KEYS.map(([key]) => key));
+    const unit = DURATION_KEYS.find(([key]) => key.toLowerCase() === durationKey?.toLowerCase())?.[1];
+    const date = dateKey ? parseImportDate(record[dateKey]) : null;
+    const minutes = durationKey ? parseDuration(record[durationKey], unit) : null;
+
+    if (findKey(record, ['packageName', 'package', 'app', 'appName'])) {
+      perApp = true;
+    }
+
+    if (!date || minutes === null) {
+      unreadable++;
+      return;
+    }
+
+    records.push({ date, minutes });
+  });
+
+  if (records.length === 0) {
+    throw new Error('Could not find a date and a duration in the JSON records');
+  }
+  if (unreadable > 0) {
+    warnings.push(`${unreadable} record${unreadable === 1 ? ' was' : 's were'} unreadable and skipped`);
+  }
+
+  return {
+    format: perApp ? 'Per-app usage (Digital Wellbeing style JSON)' : 'Daily totals (JSON)',
+    weeks: groupIntoWeeks(records, warnings),
+    warnings,
+  };
+}
+
+function durationUnitFromHeader(header: string): DurationUnit {
+  if (/\bms\b|milli/.test(header)) return 'milliseconds';
+  if (/\bsec|seconds|\(s\)/.test(header)) return 'seconds';
+  if (/hour|\(h\)/.test(header)) return 'hours';
+  return 'minutes';
+}
+
+function parseCsvExport(text: string): ParsedImport {
+  const rows = parseCsv(text);
+  if (rows.length < 2) {
+    throw new Error('The CSV file needs a header row and at least one data row');
+  }
+
+  const headers = rows[0].map((header) => header.trim().toLowerCase());
+  const dateIndex = headers.findIndex((h) => /date|day|timestamp/.test(h));
+  const durationIndex = headers.findIndex(
+    (h, index) => index !== dateIndex && !/date|timestamp/.test(h) && /minute|duration|screen ?time|usage|total|foreground|time|hours/.test(h)
+  );
+  const appIndex = headers.findIndex((h) => /^(app|app name|application|package|package name)$/.test(h));
+
+  if (dateIndex === -1 || durationIndex === -1) {
+    throw new Error('Could not find a date column and a screen time column in the CSV header');
+  }
+
+  const unit = durationUnitFromHeader(headers[durationIndex]);
+  const warnings: string[] = [];
+  const records: UsageRecord[] = [];
+  let unreadable = 0;
+
+  rows.slice(1).forEach((row) => {
+    const date = parseImportDate(row[dateIndex]);
+    const minutes = parseDuration(row[durationIndex], unit);
+
+    if (!date || minutes === null) {
+      unreadable++;
+      return;
+    }
+
+    records.push({ date, minutes });
+  });
+
+  if (records.length === 0) {
+    throw new Error('None of the CSV rows had a readable date and screen time');
+  }
+  if (unreadable > 0) {
+    warnings.push(`${unreadable} row${unreadable === 1 ? ' was' : 's were'} unreadable and skipped`);
+  }
+
+  return {
+    format: appIndex !== -1 ? 'Per-app usage (CSV)' : 'Daily totals (CSV)',
+    weeks: groupIntoWeeks(records, warnings),
+    warnings,
+  };
+}
+
+/**
+ * Reads a screen time export (CSV or JSON) into weekly totals with per-day entries.
+ * Throws an Error with a user-facing message when the file can't be understood.
+ */
+export function parseScreenTimeExport(fileName: string, text: string): ParsedImport {
+  const trimmed = text.trim();
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return parseJsonExport(trimmed);
+  }
+  return parseCsvExport(text);
+}
+
+/**
+ * Picks the most likely week, minutes and notes columns from a CSV header row.
+ * Unmatched columns are -1 (null for the optional notes column).
+ */
+export function guessLogColumns(headers: string[]): LogColumnMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const week = normalized.findIndex((h) => /week|date|day/.test(h));
+  const minutes = normalized.findIndex(
+    (h, index) => index !== week && /minute|duration|screen ?time|total|time|hours/.test(h)
+  );
+  const notes = normalized.findIndex((h) => /note|comment/.test(h));
+
+  return {
+    week,
+    minutes,
+    notes: notes === -1 ? null : notes,
+    unit: minutes === -1 ? 'minutes' : durationUnitFromHeader(normalized[minutes]),
+  };
+}
+
+/**
+ * Validates spreadsheet rows of weekly totals. Any date in a week maps to that week; rows
+ * outside the `screen_time_logs` minutes check (0 to 10,080) and repeated weeks are rejected.
+ * `rowNumber` is 1-based and counts the header row, so it matches spreadsheet line numbers.
+ */
+export function validateLogRows(rows: string[][], mapping: LogColumnMapping): LogRowResult[] {
+  const firstRowForWeek = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const notes = mapping.notes !== null ? row[mapping.notes]?.trim() || null : null;
+    const result: LogRowResult = { rowNumber, weekStartDate: null, minutes: null, notes, error: null };
+
+    const date = parseImportDate(row[mapping.week]);
+    if (!date) {
+      return { ...result, error: `"${row[mapping.week] ?? ''}" is not a valid date` };
+    }
+    result.weekStartDate = getWeekStartDateString(date);
+
+    const minutes = parseDuration(row[mapping.minutes], mapping.unit);
+    if (minutes === null) {
+      return { ...result, error: `"${row[mapping.minutes] ?? ''}" is not a valid duration` };
+    }
+    result.minutes = minutes;
+
+    if (minutes < 0 || minutes > MAX_WEEK_MINUTES) {
+      return { ...result, error: 'Minutes must be between 0 and 10,080 (168 hours)' };
+    }
+
+    const duplicateRow = firstRowForWeek.get(result.weekStartDate);
+    if (duplicateRow) {
+      return { ...result, error: `Same week as row ${duplicateRow}` };
+    }
+    firstRowForWeek.set(result.weekStartDate, rowNumber);
+
+    return result;
+  });
+}
+
+export function rowsToImportedWeeks(rows: LogRowResult[], mapping: LogColumnMapping): ImportedWeek[] {
+  return rows
+    .filter((row) => !row.error && row.weekStartDate && row.minutes !== null)
+    .map((row) => ({
+      weekStartDate: row.weekStartDate as string,
+      minutes: row.minutes as number,
+      days: [],
+      // Without a notes column, replacing a week keeps its existing notes
+      notes: mapping.notes !== null ? row.notes : undefined,
+      error: null,
+    }));
+}
+
+/**
+ * Looks up the user's live logs for the given weeks. Mirrors the
+ * `(user_id, week_start_date, deleted_at)` unique key: soft-deleted logs don't conflict.
+ */
+export async function fetchExistingWeeks(
+  userId: string,
+  weekStartDates: string[]
+): Promise<Map<string, ExistingWeek>> {
+  if (weekStartDates.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('screen_time_logs')
+    .select('id, week_start_date, minutes')
+    .eq('user_id', userId)
+    .in('week_start_date', weekStartDates)
+    .is('deleted_at', null);
+
+  if (error) throw error;
+
+  return new Map(
+    (data || []).map((log: { id: string; week_start_date: string; minutes: number }) => [
+      log.week_start_date,
+      { id: log.id, minutes: log.minutes },
+    ])
+  );
+}
+
+/**
+ * Writes imported weeks for a user. Existing weeks are skipped or replaced depending on `mode`;
+ * replacing a week also replaces its per-day entries and clears its category breakdown, which
+ * would no longer add up to the new total.
+ */
+export async function saveImportedWeeks(
+  userId: string,
+  weeks: ImportedWeek[],
+  mode: ConflictMode
+): Promise<ImportSummary> {
+  const summary: ImportSummary = { inserted: 0, replaced: 0, skipped: 0, failed: [] };
+  const validWeeks = weeks.filter((week) => !week.error);
+
+  if (validWeeks.length === 0) return summary;
+
+  const existingByWeek = await fetchExistingWeeks(
+    userId,
+    validWeeks.map((week) => week.weekStartDate)
+  );
+
+  for (const week of validWeeks) {
+    try {
+      let logId = existingByWeek.get(week.weekStartDate)?.id;
+
+      if (logId && mode === 'skip') {
+        summary.skipped++;
+        continue;
+      }
+
+      if (logId) {
+        const [entriesResult, categoriesResult] = await Promise.all([
+          supabase.from('screen_time_daily_entries').delete().eq('log_id', logId),
+          supabase.from('screen_time_log_categories').delete().eq('log_id', logId),
+        ]);
+
+        if (entriesResult.error) throw entriesResult.error;
+        if (categoriesResult.error) throw categoriesResult.error;
+
+        const { error } = await supabase
+          .from('screen_time_logs')
+          .update(
+            week.notes !== undefined
+              ? { minutes: week.minutes, notes: week.notes }
+              : { minutes: week.minutes }
+          )
+          .eq('id', logId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('screen_time_logs')
+          .insert({
+            user_id: userId,
+            week_start_date: week.weekStartDate,
+            minutes: week.minutes,
+            notes: week.notes ?? null,
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        logId = data.id as string;
+      }
+
+      if (week.days.length > 0) {
+        const { error } = await supabase.from('screen_time_daily_entries').insert(
+          week.days.map((day) => ({
+            log_id: logId,
+            user_id: userId,
+            entry_date: day.entryDate,
+            minutes: day.minutes,
+          }))
+        );
+
+        if (error) throw error;
+      }
+
+      if (existingByWeek.has(week.weekStartDate)) {
+        summary.replaced++;
+      } else {
+        summary.inserted++;
+      }
+    } catch (error) {
+      console.error('Error importing week:', error);
+      summary.failed.push({
+        weekStartDate: week.weekStartDate,
+        message: (error as Error).message || 'Failed to save week',
+      });
+    }
+  }
+
+  return summary;
+}
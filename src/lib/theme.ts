@@ -0,0 +1,46 @@
+import type { UserSettings } from '../types';
+
+export type ThemePreference = UserSettings['theme'];
+export type ResolvedTheme = 'dark' | 'light';
+
+/**
+ * The last theme preference seen on this device. `index.html` reads it before the app loads so the
+ * page is painted in the right theme; keep the key and the logic there in sync with this file.
+ */
+export const THEME_STORAGE_KEY = 'lean-screen:theme';
+
+// Matches the `user_settings.theme` column default
+export const DEFAULT_THEME: ThemePreference = 'dark';
+
+const darkSchemeQuery = () => window.matchMedia('(prefers-color-scheme: dark)');
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return value === 'system' || value === 'dark' || value === 'light';
+}
+
+export function getStoredTheme(): ThemePreference {
+  const stored = localStorage.getItem(THEME_STORAGE_KEY);
+  return isThemePreference(stored) ? stored : DEFAULT_THEME;
+}
+
+export function storeTheme(theme: ThemePreference) {
+  localStorage.setItem(THEME_STORAGE_KEY, theme);
+}
+
+export function resolveTheme(theme: ThemePreference): ResolvedTheme {
+  if (theme === 'system') return darkSchemeQuery().matches ? 'dark' : 'light';
+  return theme;
+}
+
+export function applyTheme(theme: ResolvedTheme) {
+  const root = document.documentElement;
+  root.classList.toggle('dark', theme === 'dark');
+  root.style.colorScheme = theme;
+}
+
+/** Calls `onChange` whenever the operating system switches between light and dark. */
+export function watchSystemTheme(onChange: () => void) {
+  const query = darkSchemeQuery();
+  query.addEventListener('change', onChange);
+  return () => query.removeEventListener('change', onChange);
+}
@@ -13,6 +13,20 @@ export function getWeekStartDate(date: Date): Date {
   return d;
 }
 
+export function getWeekStartDateString(date: Date): string {
+  return getWeekStartDate(date).toISOString().split('T')[0];
+}
+
+/**
+ * The Sunday that starts the week of the date's UTC day. Matches the weeks the database works out
+ * from `CURRENT_DATE`, whatever the browser's time zone.
+ */
+export function getUtcWeekStartDateString(date: Date): string {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  d.setUTCDate(d.getUTCDate() - d.getUTCDay());
+  return d.toISOString().split('T')[0];
+}
+
 export function getWeekEndDate(weekStart: Date): Date {
   const d = new Date(weekStart);
   d.setDate(d.getDate() + 6);
@@ -72,3 +86,43 @@ export function formatDateToWeekStart(dateString: string): string {
   const weekStart = getWeekStartDate(date);
   return weekStart.toISOString().split('T')[0];
 }
+
+export function addWeeks(weekStartDate: string, weeks: number): string {
+  const d = new Date(`${weekStartDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + weeks * 7);
+  return d.toISOString().split('T')[0];
+}
+
+export interface WeekDay {
+  date: string;
+  label: string;
+}
+
+export function getWeekDays(weekStartDate: string): WeekDay[] {
+  const days: WeekDay[] = [];
+
+  for (let i = 0; i < 7; i++) {
+    const d = new Date(`${weekStartDate}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + i);
+
+    days.push({
+      date: d.toISOString().split('T')[0],
+      label: d.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric', timeZone: 'UTC' }),
+    });
+  }
+
+  return days;
+}
+
+export interface TimeInput {
+  hours: string;
+  minutes: string;
+}
+
+export function emptyWeekInputs(): TimeInput[] {
+  return Array.from({ length: 7 }, () => ({ hours: '', minutes: '' }));
+}
+
+export function timeInputToMinutes(value: TimeInput): number {
+  return (parseInt(value.hours) || 0) * 60 + (parseInt(value.minutes) || 0);
+}
@@ -0,0 +1,291 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { formatWeekLabel } from '../lib/weekUtils';
+import { getChallengeRule, getChallengeStatus, getChallengeWeekCount } from '../lib/challenges';
+import { ArrowLeft, Trophy, Medal, Award, Flag, Lock, Loader2 } from 'lucide-react';
+import type { Challenge, ChallengeStanding } from '../types';
+
+export function ChallengePage() {
+  const { challengeId } = useParams<{ challengeId: string }>();
+  const { user } = useAuth();
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [standings, setStandings] = useState<ChallengeStanding[]>([]);
+  const [joined, setJoined] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (challengeId && user) {
+      loadChallenge(challengeId);
+    }
+  }, [challengeId, user]);
+
+  const loadChallenge = async (id: string) => {
+    if (!user) return;
+
+    try {
+      // Standings first: they freeze the results when the challenge has just ended
+      const standingsResult = await supabase.rpc('get_challenge_standings', { p_challenge_id: id });
+      if (standingsResult.error) throw standingsResult.error;
+
+      const [challengeResult, participantResult] = await Promise.all([
+        supabase.from('challenges').select('*').eq('id', id).single(),
+        supabase
+          .from('challenge_participants')
+          .select('id')
+          .eq('challenge_id', id)
+          .eq('user_id', user.id)
+          .maybeSingle(),
+      ]);
+
+      if (challengeResult.error) throw challengeResult.error;
+      if (participantResult.error) throw participantResult.error;
+
+      setChallenge(challengeResult.data);
+      setStandings(standingsResult.data || []);
+      setJoined(participantResult.data !== null);
+    } catch (error) {
+      console.error('Error loading challenge:', error);
+      setError('Challenge not found or you are not a member of its team');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!user || !challenge) return;
+
+    setJoining(true);
+    setError(null);
+
+    try {
+      const { error } = await supabase
+        .from('challenge_participants')
+        .insert({ challenge_id: challenge.id, user_id: user.id });
+
+      if (error) throw error;
+      await loadChallenge(challenge.id);
+    } catch (error) {
+      console.error('Error joining challenge:', error);
+      setError('Failed to join challenge');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  const formatScore = (standing: ChallengeStanding) => {
+    if (!challenge || standing.score === null) return '-';
+
+    switch (challenge.rule) {
+      case 'lowest_total':
+        return formatMinutes(standing.score);
+      case 'biggest_reduction':
+        if (standing.score > 0) return `-${standing.score}%`;
+        if (standing.score < 0) return `+${Math.abs(standing.score)}%`;
+        return '0%';
+      case 'under_target_weeks':
+        return `${standing.score} of ${standing.weeks_logged} weeks`;
+    }
+  };
+
+  const getRankIcon = (rank: number | null) => {
+    switch (rank) {
+      case 1:
+        return <Trophy className="w-6 h-6 text-yellow-600 dark:text-yellow-400" />;
+      case 2:
+        return <Medal className="w-6 h-6 text-gray-700 dark:text-gray-300" />;
+      case 3:
+        return <Award className="w-6 h-6 text-amber-600" />;
+      default:
+        return <span className="text-gray-600 dark:text-gray-400 font-semibold">{rank === null ? '-' : `#${rank}`}</span>;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!challenge) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+          <Flag className="w-16 h-16 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Challenge unavailable</h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-4">{error}</p>
+          <Link to="/challenges" className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">
+            Back to challenges
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const status = getChallengeStatus(challenge);
+  const rule = getChallengeRule(challenge.rule);
+  const weeks = getChallengeWeekCount(challenge);
+  const winners = standings.filter((standing) => standing.rank === 1);
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <Link
+        to="/challenges"
+        className="inline-flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>All challenges</span>
+      </Link>
+
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{challenge.name}</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            {formatWeekLabel(new Date(challenge.start_week))} – {formatWeekLabel(new Date(challenge.end_week))}
+            {' · '}
+            {weeks} {weeks === 1 ? 'week' : 'weeks'}
+          </p>
+          {challenge.description && <p className="text-gray-700 dark:text-gray-300 mt-2">{challenge.description}</p>}
+        </div>
+        {status !== 'finished' && !joined && (
+          <button
+            onClick={handleJoin}
+            disabled={joining}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors flex-shrink-0"
+          >
+            {joining && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>Join Challenge</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-4 text-red-600 dark:text-red-400 text-sm mb-6">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700 mb-6 text-sm">
+        <p className="text-gray-900 dark:text-white font-medium">
+          {rule.label}
+          {challenge.target_minutes !== null && ` (limit ${formatMinutes(challenge.target_minutes)} per week)`}
+        </p>
+        <p className="text-gray-600 dark:text-gray-400">{rule.description}</p>
+        {challenge.finalized_at && (
+          <p className="flex items-center space-x-1 text-gray-500 mt-2">
+            <Lock className="w-3 h-3" />
+            <span>
+              Final results, frozen on{' '}
+              {new Date(challenge.finalized_at).toLocaleDateString('en-US', {
+                month: 'long',
+                day: 'numeric',
+                year: 'numeric',
+              })}
+            </span>
+          </p>
+        )}
+      </div>
+
+      {challenge.finalized_at && winners.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-500 rounded-lg p-6 mb-6 text-center">
+          <Trophy className="w-10 h-10 text-yellow-600 dark:text-yellow-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-600 dark:text-gray-400">{winners.length > 1 ? 'Winners' : 'Winner'}</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {winners.map((winner) => winner.display_name).join(' & ')}
+          </p>
+          <p className="text-gray-700 dark:text-gray-300">{formatScore(winners[0])}</p>
+        </div>
+      )}
+
+      {standings.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+          <Flag className="w-16 h-16 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">No participants yet</h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            {status === 'finished' ? 'Nobody took part in this challenge.' : 'Join to get things started.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700/50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                    Rank
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                    {challenge.rule === 'biggest_reduction'
+                      ? 'Change vs Baseline'
+                      : challenge.rule === 'under_target_weeks'
+                        ? 'Weeks Under Limit'
+                        : 'Screen Time'}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                    Weeks Logged
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {standings.map((standing) => (
+                  <tr
+                    key={standing.user_id}
+                    className={`${
+                      standing.user_id === user?.id ? 'bg-blue-600/10' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    } transition-colors`}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">{getRankIcon(standing.rank)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-blue-700 flex items-center justify-center text-white font-bold mr-3">
+                          {standing.display_name.charAt(0).toUpperCase()}
+                        </div>
+                        <p className="text-gray-900 dark:text-white font-medium">
+                          {standing.display_name}
+                          {standing.user_id === user?.id && (
+                            <span className="text-blue-600 dark:text-blue-400 text-sm ml-2">(You)</span>
+                          )}
+                        </p>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="text-gray-900 dark:text-white font-semibold">{formatScore(standing)}</span>
+                      {challenge.rule === 'biggest_reduction' && standing.baseline_minutes !== null && (
+                        <p className="text-xs text-gray-500">
+                          vs {formatMinutes(Math.round(standing.baseline_minutes))}/week baseline
+                        </p>
+                      )}
+                      {challenge.rule !== 'lowest_total' && standing.weeks_logged > 0 && (
+                        <p className="text-xs text-gray-500">{formatMinutes(standing.total_minutes)} total</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-700 dark:text-gray-300">
+                      {standing.weeks_logged} / {weeks}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useTeam } from '../contexts/TeamContext';
+import { supabase } from '../lib/supabase';
+import { formatWeekLabel } from '../lib/weekUtils';
+import { getChallengeRule, getChallengeStatus, getChallengeWeekCount, type ChallengeStatus } from '../lib/challenges';
+import { CreateChallengeForm } from '../components/challenges/CreateChallengeForm';
+import { Flag, Plus, Users, Trash2, Loader2, ChevronRight } from 'lucide-react';
+import type { Challenge } from '../types';
+
+interface ChallengeWithParticipants extends Challenge {
+  participants: { user_id: string }[];
+}
+
+const STATUS_ORDER: ChallengeStatus[] = ['active', 'upcoming', 'finished'];
+
+export function ChallengesPage() {
+  const { user } = useAuth();
+  const { activeTeam } = useTeam();
+  const navigate = useNavigate();
+  const [challenges, setChallenges] = useState<ChallengeWithParticipants[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = activeTeam?.role === 'owner' || activeTeam?.role === 'admin';
+
+  useEffect(() => {
+    if (activeTeam) {
+      loadChallenges(activeTeam.id);
+    } else {
+      setChallenges([]);
+      setLoading(false);
+    }
+  }, [activeTeam?.id]);
+
+  const loadChallenges = async (teamId: string) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('challenges')
+        .select('*, participants:challenge_participants(user_id)')
+        .eq('team_id', teamId)
+        .order('start_week', { ascending: false });
+
+      if (error) throw error;
+      setChallenges((data || []) as unknown as ChallengeWithParticipants[]);
+    } catch (error) {
+      console.error('Error loading challenges:', error);
+      setError('Failed to load challenges');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleJoin = async (challenge: ChallengeWithParticipants) => {
+    if (!user || !activeTeam) return;
+
+    const joined = challenge.participants.some((p) => p.user_id === user.id);
+    setError(null);
+    setUpdatingId(challenge.id);
+
+    try {
+      const { error } = joined
+        ? await supabase
+            .from('challenge_participants')
+            .delete()
+            .eq('challenge_id', challenge.id)
+            .eq('user_id', user.id)
+        : await supabase.from('challenge_participants').insert({ challenge_id: challenge.id, user_id: user.id });
+
+      if (error) throw error;
+      await loadChallenges(activeTeam.id);
+    } catch (error) {
+      console.error('Error updating challenge participation:', error);
+      setError(joined ? 'Failed to leave challenge' : 'Failed to join challenge');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (challenge: ChallengeWithParticipants) => {
+    if (!activeTeam) return;
+    if (!confirm(`Delete ${challenge.name}? Its standings and results will be lost.`)) return;
+
+    setError(null);
+    try {
+      const { error } = await supabase.from('challenges').delete().eq('id', challenge.id);
+
+      if (error) throw error;
+      await loadChallenges(activeTeam.id);
+    } catch (error) {
+      console.error('Error deleting challenge:', error);
+      setError('Failed to delete challenge');
+    }
+  };
+
+  const getStatusBadge = (status: ChallengeStatus) => {
+    const styles = {
+      active: 'bg-green-500/10 text-green-600 dark:text-green-400',
+      upcoming: 'bg-blue-500/10 text-blue-600 dark:text-blue-400',
+      finished: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400',
+    };
+    return (
+      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${styles[status]}`}>
+        {status}
+      </span>
+    );
+  };
+
+  const sortedChallenges = [...challenges].sort(
+    (a, b) => STATUS_ORDER.indexOf(getChallengeStatus(a)) - STATUS_ORDER.indexOf(getChallengeStatus(b))
+  );
+
+  if (!activeTeam) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Challenges</h1>
+          <p className="text-gray-600 dark:text-gray-400">Time-boxed competitions within your team</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+          <Users className="w-16 h-16 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">No team selected</h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            Challenges run within a team.{' '}
+            <Link to="/teams" className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">
+              Select or create a team
+            </Link>{' '}
+            first.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Challenges</h1>
+          <p className="text-gray-600 dark:text-gray-400">Time-boxed competitions within {activeTeam.name}</p>
+        </div>
+        {isAdmin && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>New Challenge</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-4 text-red-600 dark:text-red-400 text-sm mb-6">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <CreateChallengeForm
+          teamId={activeTeam.id}
+          onCreated={(challenge) => navigate(`/challenges/${challenge.id}`)}
+          onCancel={() => setShowForm(false)}
+        />
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+        </div>
+      ) : sortedChallenges.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+          <Flag className="w-16 h-16 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">No challenges yet</h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            {isAdmin
+              ? 'Start a challenge to compete over a few weeks.'
+              : 'Ask a team owner or admin to start a challenge.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {sortedChallenges.map((challenge) => {
+            const status = getChallengeStatus(challenge);
+            const joined = challenge.participants.some((p) => p.user_id === user?.id);
+            const weeks = getChallengeWeekCount(challenge);
+
+            return (
+              <div key={challenge.id} className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate">{challenge.name}</h2>
+                      {getStatusBadge(status)}
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {formatWeekLabel(new Date(challenge.start_week))} – {formatWeekLabel(new Date(challenge.end_week))}
+                      {' · '}
+                      {weeks} {weeks === 1 ? 'week' : 'weeks'}
+                      {' · '}
+                      {getChallengeRule(challenge.rule).label}
+                    </p>
+                    {challenge.description && (
+                      <p className="text-sm text-gray-700 dark:text-gray-300 mt-2">{challenge.description}</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-2">
+                      {challenge.participants.length}{' '}
+                      {challenge.participants.length === 1 ? 'participant' : 'participants'}
+                      {joined && ' · You are in'}
+                    </p>
+                  </div>
+                  {isAdmin && (
+                    <button
+                      onClick={() => handleDelete(challenge)}
+                      className="p-2 text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                      aria-label="Delete challenge"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-end space-x-3 mt-4">
+                  {status !== 'finished' && (
+                    <button
+                      onClick={() => handleToggleJoin(challenge)}
+                      disabled={updatingId === challenge.id}
+                      className={`flex items-center space-x-2 px-4 py-2 text-sm rounded-lg transition-colors disabled:cursor-not-allowed ${
+                        joined
+                          ? 'text-gray-700 dark:text-gray-300 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                          : 'bg-blue-600 hover:bg-blue-700 text-white'
+                      }`}
+                    >
+                      {updatingId === challenge.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                      <span>{joined ? 'Leave' : 'Join'}</span>
+                    </button>
+                  )}
+                  <Link
+                    to={`/challenges/${challenge.id}`}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors"
+                  >
+                    <span>{status === 'finished' ? 'Results' : 'Standings'}</span>
+                    <ChevronRight className="w-4 h-4" />
+                  </Link>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,13 @@ import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { Clock, TrendingUp, Calendar, Flame } from 'lucide-react';
-import type { ScreenTimeLog, UserStreak } from '../types';
+import { Clock, TrendingUp, Calendar, Flame, Target } from 'lucide-react';
+import type { ScreenTimeCategory, ScreenTimeLog, UserStreak } from '../types';
 import { getWeekStartDate, formatWeekLabel } from '../lib/weekUtils';
+import { CategoryBreakdownChart, type CategoryTotal } from '../components/dashboard/CategoryBreakdownChart';
+import { TrendChart } from '../components/dashboard/TrendChart';
+import { GoalCard } from '../components/dashboard/GoalCard';
+import { StreakFreezeCard } from '../components/dashboard/StreakFreezeCard';
 
 export function DashboardPage() {
   const { user } = useAuth();
@@ -14,6 +18,8 @@ export function DashboardPage() {
   const [last12WeeksMinutes, setLast12WeeksMinutes] = useState(0);
   const [streak, setStreak] = useState<UserStreak | null>(null);
   const [recentLogs, setRecentLogs] = useState<ScreenTimeLog[]>([]);
+  const [categoryTotals, setCategoryTotals] = useState<CategoryTotal[]>([]);
+  const [history, setHistory] = useState<Pick<ScreenTimeLog, 'week_start_date' | 'minutes'>[]>([]);
 
   useEffect(() => {
     if (user) {
@@ -33,7 +39,15 @@ export function DashboardPage() {
       last12WeeksStart.setDate(last12WeeksStart.getDate() - 77);
       const last12WeeksStartStr = getWeekStartDate(last12WeeksStart).toISOString().split('T')[0];
 
-      const [currentWeekResult, last4WeeksResult, last12WeeksResult, streakResult, logsResult] = await Promise.all([
+      const [
+        currentWeekResult,
+        last4WeeksResult,
+        last12WeeksResult,
+        streakResult,
+        logsResult,
+        categoriesResult,
+        historyResult,
+      ] = await Promise.all([
         supabase
           .from('screen_time_logs')
           .select('minutes')
@@ -65,13 +79,50 @@ export function DashboardPage() {
           .is('deleted_at', null)
           .order('week_start_date', { ascending: false })
           .limit(5),
+        supabase
+          .from('screen_time_log_categories')
+          .select(
+            'category_id, minutes, category:screen_time_categories(name, color), log:screen_time_logs!inner(week_start_date, deleted_at)'
+          )
+          .eq('user_id', user.id)
+          .gte('log.week_start_date', last4WeeksStartStr)
+          .is('log.deleted_at', null),
+        supabase
+          .from('screen_time_logs')
+          .select('week_start_date, minutes')
+          .eq('user_id', user.id)
+          .is('deleted_at', null)
+          .order('week_start_date', { ascending: true }),
       ]);
 
+      const categoryRows = (categoriesResult.data || []) as unknown as {
+        category_id: string;
+        minutes: number;
+        category: Pick<ScreenTimeCategory, 'name' | 'color'> | null;
+      }[];
+
+      const totalsByCategory = new Map<string, CategoryTotal>();
+      categoryRows.forEach((row) => {
+        const existing = totalsByCategory.get(row.category_id);
+        if (existing) {
+          existing.minutes += row.minutes;
+        } else {
+          totalsByCategory.set(row.category_id, {
+            categoryId: row.category_id,
+            name: row.category?.name ?? 'Unknown',
+            color: row.category?.color ?? '#6b7280',
+            minutes: row.minutes,
+          });
+        }
+      });
+
       setCurrentWeekMinutes(currentWeekResult.data?.minutes || 0);
       setLast4WeeksMinutes(last4WeeksResult.data?.reduce((sum, log) => sum + log.minutes, 0) || 0);
       setLast12WeeksMinutes(last12WeeksResult.data?.reduce((sum, log) => sum + log.minutes, 0) || 0);
       setStreak(streakResult.data);
       setRecentLogs(logsResult.data || []);
+      setCategoryTotals(Array.from(totalsByCategory.values()));
+      setHistory(historyResult.data || []);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -104,52 +155,75 @@ export function DashboardPage() {
   return (
     <div className="p-6 max-w-7xl mx-auto">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-white mb-2">Dashboard</h1>
-        <p className="text-gray-400">Track your screen time and stay consistent</p>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Dashboard</h1>
+        <p className="text-gray-600 dark:text-gray-400">Track your screen time and stay consistent</p>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-gray-400 text-sm">Current Week</span>
+            <span className="text-gray-600 dark:text-gray-400 text-sm">Current Week</span>
             <Clock className="w-5 h-5 text-blue-500" />
           </div>
-          <p className="text-3xl font-bold text-white">{formatMinutes(currentWeekMinutes)}</p>
+          <p className="text-3xl font-bold text-gray-900 dark:text-white">{formatMinutes(currentWeekMinutes)}</p>
         </div>
 
-        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-gray-400 text-sm">Last 4 Weeks</span>
+            <span className="text-gray-600 dark:text-gray-400 text-sm">Last 4 Weeks</span>
             <TrendingUp className="w-5 h-5 text-green-500" />
           </div>
-          <p className="text-3xl font-bold text-white">{formatMinutes(last4WeeksMinutes)}</p>
+          <p className="text-3xl font-bold text-gray-900 dark:text-white">{formatMinutes(last4WeeksMinutes)}</p>
         </div>
 
-        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-gray-400 text-sm">Last 12 Weeks</span>
+            <span className="text-gray-600 dark:text-gray-400 text-sm">Last 12 Weeks</span>
             <Calendar className="w-5 h-5 text-purple-500" />
           </div>
-          <p className="text-3xl font-bold text-white">{formatMinutes(last12WeeksMinutes)}</p>
+          <p className="text-3xl font-bold text-gray-900 dark:text-white">{formatMinutes(last12WeeksMinutes)}</p>
         </div>
 
-        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-gray-400 text-sm">Current Streak</span>
+            <span className="text-gray-600 dark:text-gray-400 text-sm">Current Streak</span>
             <Flame className="w-5 h-5 text-orange-500" />
           </div>
-          <p className="text-3xl font-bold text-white">{streak?.current_streak || 0} weeks</p>
+          <p className="text-3xl font-bold text-gray-900 dark:text-white">{streak?.current_streak || 0} weeks</p>
           <p className="text-xs text-gray-500 mt-1">Best: {streak?.longest_streak || 0} weeks</p>
+          <div className="flex items-center space-x-1 mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 text-sm">
+            <Target className="w-4 h-4 text-green-500" />
+            <span className="text-gray-900 dark:text-white font-medium">{streak?.current_goal_streak || 0} weeks</span>
+            <span className="text-gray-600 dark:text-gray-400">under goal</span>
+            <span className="text-xs text-gray-500">(best {streak?.longest_goal_streak || 0})</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+        <div className="lg:col-span-2">
+          <TrendChart logs={history} />
+        </div>
+        <GoalCard currentWeekMinutes={currentWeekMinutes} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+        <div className="lg:col-span-2">
+          <CategoryBreakdownChart totals={categoryTotals} />
         </div>
+        <StreakFreezeCard
+          loggedWeeks={history.map((log) => log.week_start_date)}
+          onFreezeUsed={loadDashboardData}
+        />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-xl font-bold text-white">Recent Logs</h2>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Recent Logs</h2>
             <Link
               to="/logs"
-              className="text-sm text-blue-400 hover:text-blue-300"
+              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
             >
               View All
             </Link>
@@ -157,8 +231,8 @@ export function DashboardPage() {
 
           {recentLogs.length === 0 ? (
             <div className="text-center py-8">
-              <Clock className="w-12 h-12 text-gray-600 mx-auto mb-3" />
-              <p className="text-gray-400 mb-4">No logs yet</p>
+              <Clock className="w-12 h-12 text-gray-400 dark:text-gray-600 mx-auto mb-3" />
+              <p className="text-gray-600 dark:text-gray-400 mb-4">No logs yet</p>
               <Link
                 to="/logs"
                 className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
@@ -171,23 +245,23 @@ export function DashboardPage() {
               {recentLogs.map((log) => (
                 <div
                   key={log.id}
-                  className="flex items-center justify-between p-3 bg-gray-700/50 rounded-lg"
+                  className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
                 >
                   <div>
-                    <p className="text-white font-medium">Week of {formatWeekRange(log.week_start_date)}</p>
+                    <p className="text-gray-900 dark:text-white font-medium">Week of {formatWeekRange(log.week_start_date)}</p>
                     {log.notes && (
-                      <p className="text-sm text-gray-400 truncate max-w-xs">{log.notes}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 truncate max-w-xs">{log.notes}</p>
                     )}
                   </div>
-                  <span className="text-blue-400 font-semibold">{formatMinutes(log.minutes)}</span>
+                  <span className="text-blue-600 dark:text-blue-400 font-semibold">{formatMinutes(log.minutes)}</span>
                 </div>
               ))}
             </div>
           )}
         </div>
 
-        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
-          <h2 className="text-xl font-bold text-white mb-4">Quick Actions</h2>
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Quick Actions</h2>
           <div className="space-y-3">
             <Link
               to="/logs"
@@ -195,22 +269,22 @@ export function DashboardPage() {
             >
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-white font-semibold">Log Screen Time</p>
+                  <p className="text-gray-900 dark:text-white font-semibold">Log Screen Time</p>
                   <p className="text-sm text-blue-200">Add this week's screen time</p>
                 </div>
-                <Clock className="w-6 h-6 text-white" />
+                <Clock className="w-6 h-6 text-gray-900 dark:text-white" />
               </div>
             </Link>
             <Link
               to="/leaderboard"
-              className="block p-4 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+              className="block p-4 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
             >
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-white font-semibold">View Leaderboard</p>
-                  <p className="text-sm text-gray-400">See how you rank</p>
+                  <p className="text-gray-900 dark:text-white font-semibold">View Leaderboard</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">See how you rank</p>
                 </div>
-                <TrendingUp className="w-6 h-6 text-gray-400" />
+                <TrendingUp className="w-6 h-6 text-gray-600 dark:text-gray-400" />
               </div>
             </Link>
           </div>
@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { formatWeekLabel, getUtcWeekStartDateString } from '../lib/weekUtils';
+import { getChallengeWeekCount } from '../lib/challenges';
+import { getDuelPhase, scoreDuelWeeks, type DuelSide, type ScoredDuelWeek } from '../lib/duels';
+import { ArrowLeft, Swords, Trophy, EyeOff, Loader2 } from 'lucide-react';
+import type { Duel, DuelWeek } from '../types';
+
+interface DuelWithUsers extends Duel {
+  challenger: { display_name: string } | null;
+  opponent: { display_name: string } | null;
+}
+
+export function DuelPage() {
+  const { duelId } = useParams<{ duelId: string }>();
+  const { user } = useAuth();
+  const [duel, setDuel] = useState<DuelWithUsers | null>(null);
+  const [weeks, setWeeks] = useState<ScoredDuelWeek[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (duelId && user) {
+      loadDuel(duelId);
+    }
+  }, [duelId, user]);
+
+  const loadDuel = async (id: string) => {
+    try {
+      const [duelResult, weeksResult] = await Promise.all([
+        supabase
+          .from('duels')
+          .select('*, challenger:users!challenger_id(display_name), opponent:users!opponent_id(display_name)')
+          .eq('id', id)
+          .single(),
+        supabase.rpc('get_duel_weeks', { p_duel_id: id }),
+      ]);
+
+      if (duelResult.error) throw duelResult.error;
+      if (weeksResult.error) throw weeksResult.error;
+
+      setDuel(duelResult.data as unknown as DuelWithUsers);
+      setWeeks(scoreDuelWeeks((weeksResult.data || []) as DuelWeek[]));
+    } catch (error) {
+      console.error('Error loading duel:', error);
+      setError('Duel not found');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRespond = async (status: 'accepted' | 'declined') => {
+    if (!duel) return;
+
+    setResponding(true);
+    setError(null);
+
+    try {
+      const { error } = await supabase.rpc('respond_to_duel', { p_duel_id: duel.id, p_status: status });
+
+      if (error) throw error;
+      await loadDuel(duel.id);
+    } catch (error) {
+      console.error('Error responding to duel:', error);
+      setError((error as Error).message || 'Failed to update duel');
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!duel || !user) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+          <Swords className="w-16 h-16 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Duel unavailable</h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-4">{error}</p>
+          <Link to="/duels" className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">
+            Back to duels
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const mySide: DuelSide = duel.challenger_id === user.id ? 'challenger' : 'opponent';
+  const theirSide: DuelSide = mySide === 'challenger' ? 'opponent' : 'challenger';
+  const theirName = duel[theirSide]?.display_name ?? 'Deleted user';
+  const phase = getDuelPhase(duel);
+  const weekCount = getChallengeWeekCount(duel);
+  const currentWeek = getUtcWeekStartDateString(new Date());
+
+  const latest = weeks[weeks.length - 1];
+  const myScore = latest ? latest[`${mySide}Score`] : 0;
+  const theirScore = latest ? latest[`${theirSide}Score`] : 0;
+  const theyAreHidden = weeks.some((week) => week[`${theirSide}_hidden`]);
+
+  const renderMinutes = (week: ScoredDuelWeek, side: DuelSide) => {
+    if (week[`${side}_hidden`]) {
+      return <span className="text-gray-500">Hidden</span>;
+    }
+    const minutes = week[`${side}_minutes`];
+    if (minutes === null) {
+      return <span className="text-gray-500">-</span>;
+    }
+    return (
+      <span className={week.winner === side ? 'text-green-600 dark:text-green-400 font-semibold' : 'text-gray-900 dark:text-white'}>
+        {formatMinutes(minutes)}
+      </span>
+    );
+  };
+
+  const renderWinner = (week: ScoredDuelWeek) => {
+    switch (week.winner) {
+      case mySide:
+        return <span className="text-green-600 dark:text-green-400">You</span>;
+      case theirSide:
+        return <span className="text-red-600 dark:text-red-400">{theirName}</span>;
+      case 'tie':
+        return <span className="text-gray-700 dark:text-gray-300">Tie</span>;
+      default:
+        return (
+          <span className="text-gray-500">
+            {week.week_start_date > currentWeek ? 'Not started' : 'Waiting for logs'}
+          </span>
+        );
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <Link to="/duels" className="inline-flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white mb-4">
+        <ArrowLeft className="w-4 h-4" />
+        <span>All duels</span>
+      </Link>
+
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">You vs {theirName}</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            {formatWeekLabel(new Date(duel.start_week))} – {formatWeekLabel(new Date(duel.end_week))}
+            {' · '}
+            {weekCount} {weekCount === 1 ? 'week' : 'weeks'}
+            {' · '}
+            <span className="capitalize">{phase}</span>
+          </p>
+        </div>
+        {phase === 'pending' && mySide === 'opponent' && (
+          <div className="flex items-center space-x-3 flex-shrink-0">
+            <button
+              onClick={() => handleRespond('declined')}
+              disabled={responding}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:cursor-not-allowed"
+            >
+              Decline
+            </button>
+            <button
+              onClick={() => handleRespond('accepted')}
+              disabled={responding}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+            >
+              {responding && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>Accept Duel</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-4 text-red-600 dark:text-red-400 text-sm mb-6">
+          {error}
+        </div>
+      )}
+
+      {duel.status !== 'accepted' ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+          <Swords className="w-16 h-16 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            {phase === 'pending' ? 'Waiting for an answer' : `This duel was ${phase}`}
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            {phase === 'pending'
+              ? mySide === 'challenger'
+                ? `The scoreboard appears once ${theirName} accepts.`
+                : 'Accept the duel to start comparing your weeks.'
+              : 'Declined, cancelled and expired duels have no scoreboard.'}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div
+            className={`rounded-lg p-6 mb-6 text-center border ${
+              phase === 'finished' && myScore > theirScore
+                ? 'bg-yellow-500/10 border-yellow-500'
+                : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700'
+            }`}
+          >
+            {phase === 'finished' && myScore > theirScore && (
+              <Trophy className="w-10 h-10 text-yellow-600 dark:text-yellow-400 mx-auto mb-2" />
+            )}
+            <div className="flex items-center justify-center space-x-8">
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">You</p>
+                <p className="text-4xl font-bold text-gray-900 dark:text-white">{myScore}</p>
+              </div>
+              <span className="text-2xl text-gray-500">–</span>
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{theirName}</p>
+                <p className="text-4xl font-bold text-gray-900 dark:text-white">{theirScore}</p>
+              </div>
+            </div>
+            {phase === 'finished' && (
+              <p className="text-gray-700 dark:text-gray-300 mt-2">
+                {myScore > theirScore
+                  ? 'You won this duel'
+                  : myScore < theirScore
+                    ? `${theirName} won this duel`
+                    : 'This duel ended in a draw'}
+              </p>
+            )}
+          </div>
+
+          {theyAreHidden && (
+            <div className="flex items-center space-x-2 bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700 text-sm text-gray-600 dark:text-gray-400 mb-6">
+              <EyeOff className="w-4 h-4 flex-shrink-0" />
+              <span>{theirName} is currently hidden from the leaderboard, so their weeks are not shown.</span>
+            </div>
+          )}
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-700/50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                      Week
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                      You
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                      {theirName}
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                      Winner
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                      Score
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {weeks.map((week) => (
+                    <tr
+                      key={week.week_start_date}
+                      className={`${
+                        week.week_start_date === currentWeek ? 'bg-blue-600/10' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                      } transition-colors`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-700 dark:text-gray-300">
+                        {formatWeekLabel(new Date(week.week_start_date))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">{renderMinutes(week, mySide)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">{renderMinutes(week, theirSide)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">{renderWinner(week)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-900 dark:text-white font-semibold">
+                        {week[`${mySide}Score`]} – {week[`${theirSide}Score`]}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { formatWeekLabel } from '../lib/weekUtils';
+import { getChallengeWeekCount } from '../lib/challenges';
+import { getDuelPhase, type DuelPhase } from '../lib/duels';
+import { CreateDuelForm } from '../components/duels/CreateDuelForm';
+import { Swords, Check, X, Loader2, ChevronRight } from 'lucide-react';
+import type { Duel, DuelStatus } from '../types';
+
+interface DuelWithUsers extends Duel {
+  challenger: { display_name: string } | null;
+  opponent: { display_name: string } | null;
+}
+
+const PHASE_ORDER: DuelPhase[] = ['pending', 'active', 'upcoming', 'finished', 'expired', 'declined', 'cancelled'];
+
+export function DuelsPage() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [duels, setDuels] = useState<DuelWithUsers[]>([]);
+  const [opponent, setOpponent] = useState<{ id: string; display_name: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const opponentId = searchParams.get('opponent');
+
+  useEffect(() => {
+    if (user) {
+      loadDuels();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user && opponentId && opponentId !== user.id) {
+      loadOpponent(opponentId);
+    } else {
+      setOpponent(null);
+    }
+  }, [user, opponentId]);
+
+  const loadDuels = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('duels')
+        .select('*, challenger:users!challenger_id(display_name), opponent:users!opponent_id(display_name)')
+        .order('start_week', { ascending: false });
+
+      if (error) throw error;
+      setDuels((data || []) as unknown as DuelWithUsers[]);
+    } catch (error) {
+      console.error('Error loading duels:', error);
+      setError('Failed to load duels');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadOpponent = async (id: string) => {
+    try {
+      const { data, error } = await supabase.from('users').select('id, display_name').eq('id', id).single();
+
+      if (error) throw error;
+      setOpponent(data);
+    } catch (error) {
+      console.error('Error loading opponent:', error);
+      setError('That user could not be found');
+    }
+  };
+
+  const closeForm = () => {
+    setSearchParams({});
+  };
+
+  const handleRespond = async (duel: DuelWithUsers, status: Exclude<DuelStatus, 'pending'>) => {
+    setError(null);
+    setUpdatingId(duel.id);
+
+    try {
+      const { error } = await supabase.rpc('respond_to_duel', { p_duel_id: duel.id, p_status: status });
+
+      if (error) throw error;
+      if (status === 'accepted') {
+        navigate(`/duels/${duel.id}`);
+        return;
+      }
+      await loadDuels();
+    } catch (error) {
+      console.error('Error responding to duel:', error);
+      setError((error as Error).message || 'Failed to update duel');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const getPhaseBadge = (phase: DuelPhase) => {
+    const styles = {
+      pending: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400',
+      active: 'bg-green-500/10 text-green-600 dark:text-green-400',
+      upcoming: 'bg-blue-500/10 text-blue-600 dark:text-blue-400',
+      finished: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400',
+      expired: 'bg-gray-100 dark:bg-gray-700 text-gray-500',
+      declined: 'bg-gray-100 dark:bg-gray-700 text-gray-500',
+      cancelled: 'bg-gray-100 dark:bg-gray-700 text-gray-500',
+    };
+    return (
+      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${styles[phase]}`}>{phase}</span>
+    );
+  };
+
+  const sortedDuels = [...duels].sort(
+    (a, b) => PHASE_ORDER.indexOf(getDuelPhase(a)) - PHASE_ORDER.indexOf(getDuelPhase(b))
+  );
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Duels</h1>
+        <p className="text-gray-600 dark:text-gray-400">Friendly 1v1 competitions over a few weeks</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-4 text-red-600 dark:text-red-400 text-sm mb-6">
+          {error}
+        </div>
+      )}
+
+      {opponent && (
+        <CreateDuelForm
+          opponentId={opponent.id}
+          opponentName={opponent.display_name}
+          onCreated={() => {
+            closeForm();
+            loadDuels();
+          }}
+          onCancel={closeForm}
+        />
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+        </div>
+      ) : sortedDuels.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+          <Swords className="w-16 h-16 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">No duels yet</h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            Pick someone on the{' '}
+            <Link to="/leaderboard" className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">
+              leaderboard
+            </Link>{' '}
+            and challenge them to a duel.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {sortedDuels.map((duel) => {
+            const phase = getDuelPhase(duel);
+            const isChallenger = duel.challenger_id === user?.id;
+            const otherName = (isChallenger ? duel.opponent : duel.challenger)?.display_name ?? 'Deleted user';
+            const weeks = getChallengeWeekCount(duel);
+
+            return (
+              <div key={duel.id} className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate">You vs {otherName}</h2>
+                      {getPhaseBadge(phase)}
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {formatWeekLabel(new Date(duel.start_week))} – {formatWeekLabel(new Date(duel.end_week))}
+                      {' · '}
+                      {weeks} {weeks === 1 ? 'week' : 'weeks'}
+                    </p>
+                    {phase === 'pending' && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        {isChallenger
+                          ? `Waiting for ${otherName} to accept`
+                          : `${otherName} challenged you`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-end space-x-3 mt-4">
+                  {phase === 'pending' && !isChallenger && (
+                    <>
+                      <button
+                        onClick={() => handleRespond(duel, 'declined')}
+                        disabled={updatingId === duel.id}
+                        className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:cursor-not-allowed"
+                      >
+                        <X className="w-4 h-4" />
+                        <span>Decline</span>
+                      </button>
+                      <button
+                        onClick={() => handleRespond(duel, 'accepted')}
+                        disabled={updatingId === duel.id}
+                        className="flex items-center space-x-2 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded-lg transition-colors disabled:cursor-not-allowed"
+                      >
+                        {updatingId === duel.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Check className="w-4 h-4" />
+                        )}
+                        <span>Accept</span>
+                      </button>
+                    </>
+                  )}
+                  {phase === 'pending' && isChallenger && (
+                    <button
+                      onClick={() => handleRespond(duel, 'cancelled')}
+                      disabled={updatingId === duel.id}
+                      className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:cursor-not-allowed"
+                    >
+                      {updatingId === duel.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                      <span>Cancel</span>
+                    </button>
+                  )}
+                  {duel.status === 'accepted' && (
+                    <Link
+                      to={`/duels/${duel.id}`}
+                      className="flex items-center space-x-1 px-4 py-2 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors"
+                    >
+                      <span>{phase === 'finished' ? 'Result' : 'Scoreboard'}</span>
+                      <ChevronRight className="w-4 h-4" />
+                    </Link>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useTeam } from '../contexts/TeamContext';
+import { supabase } from '../lib/supabase';
+import { Clock, Users, Loader2, AlertTriangle } from 'lucide-react';
+import type { TeamInvitePreview, TeamInviteStatus } from '../types';
+
+export function JoinTeamPage() {
+  const { code = '' } = useParams();
+  const { user, loading: authLoading } = useAuth();
+  const { refreshTeams, selectTeam } = useTeam();
+  const navigate = useNavigate();
+  const [invite, setInvite] = useState<TeamInvitePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInvite();
+  }, [code]);
+
+  const loadInvite = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_team_invite', { invite_code: code });
+      if (error) throw error;
+      setInvite(data?.[0] ?? null);
+    } catch (error) {
+      console.error('Error loading invite:', error);
+      setError('Failed to load invite');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    setError(null);
+    setJoining(true);
+
+    try {
+      const { data: teamId, error } = await supabase.rpc('redeem_team_invite', { invite_code: code });
+      if (error) throw error;
+
+      await refreshTeams();
+      selectTeam(teamId);
+      navigate('/leaderboard', { replace: true });
+    } catch (error) {
+      console.error('Error joining team:', error);
+      setError((error as Error).message || 'Failed to join team');
+      setJoining(false);
+    }
+  };
+
+  const getStatusMessage = (status: TeamInviteStatus) => {
+    const messages = {
+      valid: '',
+      expired: 'This invite has expired. Ask a team admin for a new link.',
+      exhausted: 'This invite has already been used. Ask a team admin for a new link.',
+      revoked: 'This invite has been revoked. Ask a team admin for a new link.',
+    };
+    return messages[status];
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex flex-col items-center justify-center p-4">
+      <div className="mb-8 text-center">
+        <div className="flex items-center justify-center mb-4">
+          <Clock className="w-12 h-12 text-blue-500" />
+        </div>
+        <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">Lean Screen</h1>
+        <p className="text-gray-600 dark:text-gray-400">Track your screen time, compete with your team</p>
+      </div>
+
+      <div className="w-full max-w-md mx-auto">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-8 text-center">
+          {!invite ? (
+            <>
+              <div className="w-16 h-16 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <AlertTriangle className="w-8 h-8 text-red-600 dark:text-red-400" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Invite not found</h2>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">
+                {error || 'Double-check the link or ask a team admin for a new one.'}
+              </p>
+              <Link to="/dashboard" className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium">
+                Go to Lean Screen
+              </Link>
+            </>
+          ) : (
+            <>
+              <div className="w-16 h-16 bg-blue-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Users className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+              </div>
+              <p className="text-gray-600 dark:text-gray-400 mb-1">You've been invited to join</p>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">{invite.team_name}</h2>
+              <p className="text-sm text-gray-500 mb-6">
+                {invite.member_count} {invite.member_count === 1 ? 'member' : 'members'}
+              </p>
+
+              {invite.status !== 'valid' ? (
+                <p className="text-red-600 dark:text-red-400 text-sm">{getStatusMessage(invite.status)}</p>
+              ) : !user ? (
+                <div className="space-y-3">
+                  <Link
+                    to={`/auth?redirect=${encodeURIComponent(`/join/${code}`)}`}
+                    className="block w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    Sign in or create an account to join
+                  </Link>
+                </div>
+              ) : (
+                <>
+                  {error && (
+                    <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm mb-4">
+                      {error}
+                    </div>
+                  )}
+                  <button
+                    onClick={handleJoin}
+                    disabled={joining}
+                    className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center"
+                  >
+                    {joining ? (
+                      <>
+                        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                        Joining...
+                      </>
+                    ) : (
+                      'Join Team'
+                    )}
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
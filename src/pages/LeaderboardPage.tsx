@@ -1,29 +1,152 @@
 import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useTeam } from '../contexts/TeamContext';
+import { useToast } from '../components/shared/Toast';
+import { Avatar } from '../components/shared/Avatar';
 import { supabase } from '../lib/supabase';
-import { Trophy, Medal, Award, Flame, TrendingUp } from 'lucide-react';
-import type { LeaderboardEntry, LeaderboardPeriod } from '../types';
+import { addWeeks, formatWeekLabel, getUtcWeekStartDateString } from '../lib/weekUtils';
+import {
+  LEADERBOARD_PERIODS,
+  formatRangeLabel,
+  getLastClosedWeek,
+  getPresetRange,
+  isWeekFinal,
+  parseLeaderboardParams,
+  toWeekStart,
+} from '../lib/leaderboardRange';
+import {
+  Trophy,
+  Medal,
+  Award,
+  Flame,
+  Target,
+  TrendingUp,
+  TrendingDown,
+  Users,
+  Globe,
+  Swords,
+  Link2,
+  ArrowUp,
+  ArrowDown,
+  Minus,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react';
+import type {
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  LeaderboardRules,
+  LeaderboardSnapshotEntry,
+} from '../types';
+
+const BASELINE_WEEKS = 3;
+// `?team=` value for the global board
+const EVERYONE_TEAM_PARAM = 'everyone';
 
 export function LeaderboardPage() {
   const { user } = useAuth();
+  const { teams, activeTeam } = useTeam();
+  const { showToast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [previousRanks, setPreviousRanks] = useState<Map<string, number> | null>(null);
+  const [rules, setRules] = useState<LeaderboardRules | null>(null);
   const [loading, setLoading] = useState(true);
-  const [period, setPeriod] = useState<LeaderboardPeriod>('weekly');
+
+  // The range, metric and team live in the URL so a leaderboard can be shared as a link
+  const { period, range } = parseLeaderboardParams(searchParams);
+  const isPastWeek = period === 'past_week';
+  // Past weeks show the live board until their standings are frozen
+  const showSnapshot = isPastWeek && range.startWeek !== null && isWeekFinal(range.startWeek);
+  // Past weeks are snapshots of the total board, so there is no improvement view of them
+  const metric: LeaderboardMetric =
+    !isPastWeek && searchParams.get('metric') === 'improvement' ? 'improvement' : 'total';
+  const currentWeek = getUtcWeekStartDateString(new Date());
+  const lastClosedWeek = getLastClosedWeek();
+  // `?team=<id>` picks one of the user's teams; without it the active team's board is shown
+  const teamParam = searchParams.get('team');
+  const boardTeam = teams.find((team) => team.id === teamParam) ?? activeTeam;
+  const scopeTeam = teamParam === EVERYONE_TEAM_PARAM ? null : boardTeam;
 
   useEffect(() => {
     loadLeaderboard();
-  }, [period]);
+  }, [period, range.startWeek, range.endWeek, metric, scopeTeam?.id, scopeTeam?.ranking_direction, scopeTeam?.log_requirement]);
+
+  // Rank movement compares a week with the final standings of the week before
+  const loadPreviousRanks = async (scopeTeamId: string | null): Promise<Map<string, number> | null> => {
+    if (!(period === 'this_week' || isPastWeek) || metric !== 'total' || !range.startWeek) return null;
+
+    const previousWeek = addWeeks(range.startWeek, -1);
+    if (!isWeekFinal(previousWeek)) return null;
 
-  const loadLeaderboard = async () => {
-    setLoading(true);
     try {
-      const { data, error } = await supabase.rpc('get_leaderboard', {
-        period,
-        limit_count: 100,
+      const { data, error } = await supabase.rpc('get_leaderboard_snapshot', {
+        p_week_start: previousWeek,
+        scope_team_id: scopeTeamId,
       });
 
       if (error) throw error;
-      setLeaderboard(data || []);
+
+      const snapshot = (data || []) as LeaderboardSnapshotEntry[];
+      return snapshot.length > 0 ? new Map(snapshot.map((entry) => [entry.user_id, entry.rank])) : null;
+    } catch (error) {
+      // Movement is extra, so the board still shows without it
+      console.error('Error loading rank movement:', error);
+      return null;
+    }
+  };
+
+  const loadLeaderboard = async () => {
+    setLoading(true);
+    try {
+      const scopeTeamId = scopeTeam?.id ?? null;
+      const previousRanksResult = showSnapshot ? null : loadPreviousRanks(scopeTeamId);
+
+      const [leaderboardResult, rulesResult] = await Promise.all([
+        showSnapshot
+          ? supabase.rpc('get_leaderboard_snapshot', {
+              p_week_start: range.startWeek,
+              scope_team_id: scopeTeamId,
+            })
+          : supabase.rpc('get_leaderboard', {
+              range_start: range.startWeek,
+              range_end: range.endWeek,
+              limit_count: 100,
+              scope_team_id: scopeTeamId,
+              metric,
+              baseline_weeks: BASELINE_WEEKS,
+            }),
+        supabase.rpc('get_leaderboard_rules', {
+          scope_team_id: scopeTeamId,
+        }),
+      ]);
+
+      if (leaderboardResult.error) throw leaderboardResult.error;
+      if (rulesResult.error) throw rulesResult.error;
+
+      if (showSnapshot) {
+        const snapshot = (leaderboardResult.data || []) as LeaderboardSnapshotEntry[];
+        setLeaderboard(
+          snapshot.map((entry) => ({
+            ...entry,
+            current_streak: 0,
+            current_goal_streak: 0,
+            baseline_minutes: null,
+            improvement_pct: null,
+          }))
+        );
+        const ranked = snapshot.filter((entry) => entry.previous_rank !== null);
+        // Without anyone ranked the week before there is nothing to compare with
+        setPreviousRanks(
+          ranked.length > 0 ? new Map(ranked.map((entry) => [entry.user_id, entry.previous_rank as number])) : null
+        );
+      } else {
+        setLeaderboard(leaderboardResult.data || []);
+        setPreviousRanks(await previousRanksResult);
+      }
+      setRules(rulesResult.data?.[0] ?? null);
     } catch (error) {
       console.error('Error loading leaderboard:', error);
     } finally {
@@ -40,22 +163,77 @@ export function LeaderboardPage() {
     return `${mins}m`;
   };
 
-  const getPeriodLabel = (p: LeaderboardPeriod) => {
-    const labels = {
-      daily: 'Current Week',
-      weekly: 'Last 4 Weeks',
-      monthly: 'Last 12 Weeks',
-      all_time: 'All Time',
-    };
-    return labels[p];
+  const formatImprovement = (pct: number | null) => {
+    if (pct === null) return '-';
+    if (pct > 0) return `-${pct}%`;
+    if (pct < 0) return `+${Math.abs(pct)}%`;
+    return '0%';
+  };
+
+  const formatScore = (entry: LeaderboardEntry) =>
+    metric === 'improvement'
+      ? formatImprovement(entry.improvement_pct)
+      : formatMinutes(entry.total_minutes);
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null) {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+    });
+    setSearchParams(next, { replace: true });
+  };
+
+  const setPeriod = (p: LeaderboardPeriod) => {
+    if (p === 'custom') {
+      // Start the custom range from whatever is showing, or the last 4 weeks after all time
+      const start = range.startWeek ? range : getPresetRange('last_4_weeks');
+      updateParams({ range: null, week: null, from: start.startWeek, to: start.endWeek ?? currentWeek });
+    } else if (p === 'past_week') {
+      updateParams({ range: null, from: null, to: null, metric: null, week: lastClosedWeek });
+    } else {
+      updateParams({ range: p, week: null, from: null, to: null });
+    }
+  };
+
+  const setPastWeek = (week: string) => {
+    updateParams({ week });
+  };
+
+  const setCustomWeek = (key: 'from' | 'to', value: string) => {
+    const week = toWeekStart(value);
+    if (!week) return;
+
+    const from = key === 'from' ? week : range.startWeek;
+    const to = key === 'to' ? week : range.endWeek;
+    updateParams({ range: null, from, to });
+  };
+
+  const setMetric = (m: LeaderboardMetric) => {
+    updateParams({ metric: m === 'total' ? null : m });
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      // Links always name the board, so they don't depend on the recipient's active team
+      const url = new URL(window.location.href);
+      url.searchParams.set('team', scopeTeam?.id ?? EVERYONE_TEAM_PARAM);
+      await navigator.clipboard.writeText(url.toString());
+      showToast('Leaderboard link copied', 'success');
+    } catch {
+      showToast('Could not copy the link', 'error');
+    }
   };
 
   const getRankIcon = (rank: number) => {
     switch (rank) {
       case 1:
-        return <Trophy className="w-6 h-6 text-yellow-400" />;
+        return <Trophy className="w-6 h-6 text-yellow-600 dark:text-yellow-400" />;
       case 2:
-        return <Medal className="w-6 h-6 text-gray-300" />;
+        return <Medal className="w-6 h-6 text-gray-700 dark:text-gray-300" />;
       case 3:
         return <Award className="w-6 h-6 text-amber-600" />;
       default:
@@ -63,6 +241,48 @@ export function LeaderboardPage() {
     }
   };
 
+  const renderRankChange = (entry: LeaderboardEntry) => {
+    if (!previousRanks) return null;
+
+    const previousRank = previousRanks.get(entry.user_id);
+    if (previousRank === undefined) {
+      return (
+        <span className="text-xs font-medium text-blue-600 dark:text-blue-400" title="Not ranked the week before">
+          New
+        </span>
+      );
+    }
+
+    const change = previousRank - entry.rank;
+    if (change > 0) {
+      return (
+        <span
+          className="flex items-center text-xs font-medium text-green-600 dark:text-green-400"
+          title={`Up ${change} from #${previousRank}`}
+        >
+          <ArrowUp className="w-3 h-3" />
+          {change}
+        </span>
+      );
+    }
+    if (change < 0) {
+      return (
+        <span
+          className="flex items-center text-xs font-medium text-red-600 dark:text-red-400"
+          title={`Down ${Math.abs(change)} from #${previousRank}`}
+        >
+          <ArrowDown className="w-3 h-3" />
+          {Math.abs(change)}
+        </span>
+      );
+    }
+    return (
+      <span className="flex items-center text-gray-500" title="Same rank as the week before">
+        <Minus className="w-3 h-3" />
+      </span>
+    );
+  };
+
   const getRankColor = (rank: number) => {
     switch (rank) {
       case 1:
@@ -72,11 +292,21 @@ export function LeaderboardPage() {
       case 3:
         return 'bg-amber-600/10 border-amber-600';
       default:
-        return 'bg-gray-800 border-gray-700';
+        return 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700';
     }
   };
 
-  const periods: LeaderboardPeriod[] = ['daily', 'weekly', 'monthly', 'all_time'];
+  const getMetricLabel = (m: LeaderboardMetric) => {
+    const labels = {
+      total: 'Total Time',
+      improvement: 'Improvement',
+    };
+    return labels[m];
+  };
+
+  const metrics: LeaderboardMetric[] = ['total', 'improvement'];
+  const podium = leaderboard.slice(0, 3);
+  const lowerIsBetter = rules?.ranking_direction !== 'higher_is_better';
 
   if (loading) {
     return (
@@ -89,73 +319,231 @@ export function LeaderboardPage() {
   return (
     <div className="p-6 max-w-4xl mx-auto">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-white mb-2">Leaderboard</h1>
-        <p className="text-gray-400">See how you rank against your team</p>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Leaderboard</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          {scopeTeam
+            ? `See how you rank against ${scopeTeam.name}`
+            : 'See how you rank against everyone'}
+        </p>
       </div>
 
-      <div className="flex flex-wrap gap-2 mb-6">
-        {periods.map((p) => (
+      <div className="flex flex-wrap gap-3 mb-4">
+        {boardTeam && (
+          <div className="inline-flex p-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <button
+              onClick={() => updateParams({ team: boardTeam.id })}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                scopeTeam
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              <Users className="w-4 h-4" />
+              <span>{boardTeam.name}</span>
+            </button>
+            <button
+              onClick={() => updateParams({ team: EVERYONE_TEAM_PARAM })}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                !scopeTeam
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              <Globe className="w-4 h-4" />
+              <span>Everyone</span>
+            </button>
+          </div>
+        )}
+
+        {!isPastWeek && (
+          <div className="inline-flex p-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+            {metrics.map((m) => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  metric === m
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+              >
+                {getMetricLabel(m)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {LEADERBOARD_PERIODS.map(({ period: p, label }) => (
           <button
             key={p}
             onClick={() => setPeriod(p)}
             className={`px-4 py-2 rounded-lg font-medium transition-colors ${
               period === p
                 ? 'bg-blue-600 text-white'
-                : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-white'
+                : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white'
             }`}
           >
-            {getPeriodLabel(p)}
+            {label}
           </button>
         ))}
       </div>
 
+      {period === 'custom' && (
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          <div>
+            <label htmlFor="leaderboard-from" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              From week
+            </label>
+            <input
+              id="leaderboard-from"
+              type="date"
+              value={range.startWeek ?? ''}
+              max={range.endWeek ?? currentWeek}
+              onChange={(e) => setCustomWeek('from', e.target.value)}
+              className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="leaderboard-to" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              To week
+            </label>
+            <input
+              id="leaderboard-to"
+              type="date"
+              value={range.endWeek ?? currentWeek}
+              min={range.startWeek ?? undefined}
+              onChange={(e) => setCustomWeek('to', e.target.value)}
+              className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-4 mb-6 text-sm">
+        {isPastWeek && range.startWeek ? (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPastWeek(addWeeks(range.startWeek as string, -1))}
+              className="p-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 rounded-lg transition-colors"
+              aria-label="Previous week"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-gray-900 dark:text-white font-medium">
+              {showSnapshot ? 'Final standings' : 'Standings so far'} for {formatWeekLabel(new Date(range.startWeek))}
+            </span>
+            <button
+              onClick={() => setPastWeek(addWeeks(range.startWeek as string, 1))}
+              disabled={range.startWeek >= lastClosedWeek}
+              className="p-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Next week"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <span className="text-gray-600 dark:text-gray-400">Showing {formatRangeLabel(range)}</span>
+        )}
+        <button
+          onClick={handleCopyLink}
+          className="flex items-center space-x-1 px-3 py-1.5 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 rounded-lg transition-colors"
+        >
+          <Link2 className="w-4 h-4" />
+          <span>Copy link</span>
+        </button>
+      </div>
+
+      {rules && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mb-6 text-sm text-gray-600 dark:text-gray-400">
+          <div className="flex items-center space-x-1">
+            {metric === 'improvement' || lowerIsBetter ? (
+              <TrendingDown className="w-4 h-4 text-green-600 dark:text-green-400" />
+            ) : (
+              <TrendingUp className="w-4 h-4 text-orange-600 dark:text-orange-400" />
+            )}
+            <span>
+              {metric === 'improvement'
+                ? `Biggest reduction vs. personal baseline (first ${BASELINE_WEEKS} logged weeks) wins`
+                : lowerIsBetter
+                  ? 'Lowest screen time wins'
+                  : 'Highest screen time wins'}
+            </span>
+          </div>
+          <span>
+            {rules.log_requirement === 'every_week'
+              ? 'Only members who logged every completed week are ranked'
+              : 'Members need at least one log in the period to be ranked'}
+          </span>
+        </div>
+      )}
+
       {leaderboard.length === 0 ? (
-        <div className="bg-gray-800 rounded-lg p-12 border border-gray-700 text-center">
-          <TrendingUp className="w-16 h-16 text-gray-600 mx-auto mb-4" />
-          <h3 className="text-xl font-semibold text-white mb-2">No data yet</h3>
-          <p className="text-gray-400">
-            Start logging screen time to appear on the leaderboard
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+          <TrendingUp className="w-16 h-16 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">No data yet</h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            {isPastWeek
+              ? 'Nobody was ranked that week'
+              : metric === 'improvement'
+                ? `Log at least ${BASELINE_WEEKS + 1} weeks to get a baseline and appear on the improvement board`
+                : 'Start logging screen time to appear on the leaderboard'}
           </p>
         </div>
       ) : (
         <>
-          {leaderboard.slice(0, 3).length > 0 && (
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-              {leaderboard.slice(0, 3).map((_entry, index) => {
-                const actualRank = [2, 1, 3][index];
-                const actualEntry = leaderboard.find((e) => e.rank === actualRank);
-                if (!actualEntry) return null;
+          {podium.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-3 md:items-end gap-4 mb-6">
+              {podium.map((entry, index) => {
+                // Desktop order is 2nd, 1st, 3rd with the winner raised in the middle
+                const placement = ['md:order-2', 'md:order-1', 'md:order-3'][index];
 
                 return (
                   <div
-                    key={actualEntry.user_id}
-                    className={`${getRankColor(actualRank)} rounded-lg p-6 border ${
-                      actualEntry.user_id === user?.id ? 'ring-2 ring-blue-500' : ''
-                    } ${actualRank === 1 ? 'md:col-start-1 md:row-start-1' : ''} ${
-                      actualRank === 2 ? 'md:col-start-2 md:row-start-1' : ''
-                    } ${actualRank === 3 ? 'md:col-start-3 md:row-start-1' : ''}`}
+                    key={entry.user_id}
+                    className={`${getRankColor(entry.rank)} ${placement} rounded-lg p-6 border ${
+                      index === 0 ? 'md:pb-10' : ''
+                    } ${entry.user_id === user?.id ? 'ring-2 ring-blue-500' : ''}`}
                   >
                     <div className="text-center">
                       <div className="flex justify-center mb-3">
-                        {getRankIcon(actualRank)}
-                      </div>
-                      <div className="w-16 h-16 rounded-full bg-gradient-to-br from-blue-500 to-blue-700 flex items-center justify-center text-white font-bold text-xl mx-auto mb-3">
-                        {actualEntry.display_name.charAt(0).toUpperCase()}
+                        {getRankIcon(entry.rank)}
                       </div>
-                      <p className="text-white font-bold text-lg mb-1">
-                        {actualEntry.display_name}
-                        {actualEntry.user_id === user?.id && (
-                          <span className="text-blue-400 text-sm ml-2">(You)</span>
+                      <Avatar name={entry.display_name} url={entry.avatar_url} size="lg" className="mx-auto mb-3" />
+                      <p className="text-gray-900 dark:text-white font-bold text-lg mb-1">
+                        <Link to={`/u/${entry.user_id}`} className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                          {entry.display_name}
+                        </Link>
+                        {entry.user_id === user?.id && (
+                          <span className="text-blue-600 dark:text-blue-400 text-sm ml-2">(You)</span>
                         )}
                       </p>
-                      <p className="text-2xl font-bold text-white mb-2">
-                        {formatMinutes(actualEntry.total_minutes)}
+                      <p className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
+                        {formatScore(entry)}
                       </p>
-                      {actualEntry.current_streak > 0 && (
-                        <div className="flex items-center justify-center space-x-1 text-orange-400">
+                      {index === 0 && (
+                        <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+                          {metric === 'improvement'
+                            ? 'Biggest reduction'
+                            : lowerIsBetter
+                              ? 'Least screen time'
+                              : 'Most screen time'}
+                        </p>
+                      )}
+                      {(entry.current_streak ?? 0) > 0 && (
+                        <div className="flex items-center justify-center space-x-1 text-orange-600 dark:text-orange-400">
                           <Flame className="w-4 h-4" />
                           <span className="text-sm font-medium">
-                            {actualEntry.current_streak} week streak
+                            {entry.current_streak} week streak
+                          </span>
+                        </div>
+                      )}
+                      {(entry.current_goal_streak ?? 0) > 0 && (
+                        <div className="flex items-center justify-center space-x-1 text-green-600 dark:text-green-400 mt-1">
+                          <Target className="w-4 h-4" />
+                          <span className="text-sm font-medium">
+                            {entry.current_goal_streak} weeks under goal
                           </span>
                         </div>
                       )}
@@ -166,56 +554,62 @@ export function LeaderboardPage() {
             </div>
           )}
 
-          <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
             <div className="overflow-x-auto">
               <table className="w-full">
-                <thead className="bg-gray-700/50">
+                <thead className="bg-gray-50 dark:bg-gray-700/50">
                   <tr>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
                       Rank
                     </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
                       User
                     </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                      Screen Time
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                      {metric === 'improvement' ? 'Change vs Baseline' : 'Screen Time'}
                     </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                      Streak
+                    {!isPastWeek && (
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+                        Streak
+                      </th>
+                    )}
+                    <th className="px-6 py-3">
+                      <span className="sr-only">Actions</span>
                     </th>
                   </tr>
                 </thead>
-                <tbody className="divide-y divide-gray-700">
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
                   {leaderboard.map((entry) => (
                     <tr
                       key={entry.user_id}
                       className={`${
                         entry.user_id === user?.id
                           ? 'bg-blue-600/10'
-                          : 'hover:bg-gray-700/50'
+                          : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
                       } transition-colors`}
                     >
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center">
+                        <div className="flex items-center space-x-2">
                           {entry.rank <= 3 ? (
                             getRankIcon(entry.rank)
                           ) : (
-                            <span className="text-gray-400 font-semibold">
+                            <span className="text-gray-600 dark:text-gray-400 font-semibold">
                               #{entry.rank}
                             </span>
                           )}
+                          {renderRankChange(entry)}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center">
-                          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-blue-700 flex items-center justify-center text-white font-bold mr-3">
-                            {entry.display_name.charAt(0).toUpperCase()}
-                          </div>
+                          <Avatar name={entry.display_name} url={entry.avatar_url} className="mr-3" />
                           <div>
-                            <p className="text-white font-medium">
-                              {entry.display_name}
+                            <p className="text-gray-900 dark:text-white font-medium">
+                              <Link to={`/u/${entry.user_id}`} className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                                {entry.display_name}
+                              </Link>
                               {entry.user_id === user?.id && (
-                                <span className="text-blue-400 text-sm ml-2">
+                                <span className="text-blue-600 dark:text-blue-400 text-sm ml-2">
                                   (You)
                                 </span>
                               )}
@@ -224,20 +618,50 @@ export function LeaderboardPage() {
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className="text-white font-semibold">
-                          {formatMinutes(entry.total_minutes)}
+                        <span className="text-gray-900 dark:text-white font-semibold">
+                          {formatScore(entry)}
                         </span>
+                        {metric === 'improvement' && entry.baseline_minutes !== null && (
+                          <p className="text-xs text-gray-500">
+                            vs {formatMinutes(Math.round(entry.baseline_minutes))}/week baseline
+                          </p>
+                        )}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        {entry.current_streak > 0 ? (
-                          <div className="flex items-center space-x-1 text-orange-400">
-                            <Flame className="w-4 h-4" />
-                            <span className="font-medium">
-                              {entry.current_streak} weeks
-                            </span>
-                          </div>
-                        ) : (
-                          <span className="text-gray-500">-</span>
+                      {!isPastWeek && (
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {(entry.current_streak ?? 0) > 0 ? (
+                            <div className="flex items-center space-x-1 text-orange-600 dark:text-orange-400">
+                              <Flame className="w-4 h-4" />
+                              <span className="font-medium">
+                                {entry.current_streak} weeks
+                              </span>
+                            </div>
+                          ) : (
+                            <span className="text-gray-500">-</span>
+                          )}
+                          {(entry.current_goal_streak ?? 0) > 0 && (
+                            <div
+                              className="flex items-center space-x-1 text-green-600 dark:text-green-400 mt-1"
+                              title="Consecutive weeks at or under their goal"
+                            >
+                              <Target className="w-4 h-4" />
+                              <span className="text-sm font-medium">
+                                {entry.current_goal_streak} under goal
+                              </span>
+                            </div>
+                          )}
+                        </td>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        {entry.user_id !== user?.id && (
+                          <Link
+                            to={`/duels?opponent=${entry.user_id}`}
+                            className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                            title={`Challenge ${entry.display_name} to a duel`}
+                          >
+                            <Swords className="w-4 h-4" />
+                            <span>Duel</span>
+                          </Link>
                         )}
                       </td>
                     </tr>
@@ -1,15 +1,46 @@
 import { useEffect, useState, FormEvent } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useAchievements } from '../contexts/AchievementContext';
 import { supabase } from '../lib/supabase';
-import { Plus, CreditCard as Edit2, Trash2, Save, X, Loader2 } from 'lucide-react';
-import type { ScreenTimeLog } from '../types';
-import { getWeekOptions, formatWeekLabel, getWeekStartDate, type WeekOption } from '../lib/weekUtils';
+import { Plus, CreditCard as Edit2, Trash2, Save, X, Loader2, CalendarDays, Upload } from 'lucide-react';
+import type {
+  ScreenTimeCategory,
+  ScreenTimeDailyEntry,
+  ScreenTimeLog,
+  ScreenTimeLogCategory,
+} from '../types';
+import {
+  getWeekOptions,
+  formatWeekLabel,
+  getWeekDays,
+  emptyWeekInputs,
+  timeInputToMinutes,
+  type TimeInput,
+} from '../lib/weekUtils';
+import { DailyEntryGrid } from '../components/logs/DailyEntryGrid';
+import { CategoryBreakdownEditor } from '../components/logs/CategoryBreakdownEditor';
+import { ScreenTimeImportPanel } from '../components/logs/ScreenTimeImportPanel';
+import { CsvImportPanel } from '../components/logs/CsvImportPanel';
+
+type EntryMode = 'weekly' | 'daily';
+type ImportSource = 'export' | 'spreadsheet';
+
+interface LogWithEntries extends ScreenTimeLog {
+  daily_entries: Pick<ScreenTimeDailyEntry, 'entry_date' | 'minutes'>[];
+  categories: Pick<ScreenTimeLogCategory, 'category_id' | 'minutes'>[];
+}
+
+// Cycled through for user-defined categories; built-ins have their own colors
+const CUSTOM_CATEGORY_COLORS = ['#ec4899', '#14b8a6', '#84cc16', '#f97316', '#6366f1', '#eab308'];
 
 export function LogsPage() {
   const { user } = useAuth();
-  const [logs, setLogs] = useState<ScreenTimeLog[]>([]);
+  const { checkAchievements } = useAchievements();
+  const [logs, setLogs] = useState<LogWithEntries[]>([]);
+  const [categories, setCategories] = useState<ScreenTimeCategory[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
+  const [importSource, setImportSource] = useState<ImportSource | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const weekOptions = getWeekOptions(4);
   const [formData, setFormData] = useState({
@@ -17,6 +48,9 @@ export function LogsPage() {
     hours: '0',
     minutes: '0',
     notes: '',
+    entryMode: 'weekly' as EntryMode,
+    days: emptyWeekInputs(),
+    breakdown: {} as Record<string, TimeInput>,
   });
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -24,6 +58,7 @@ export function LogsPage() {
   useEffect(() => {
     if (user) {
       loadLogs();
+      loadCategories();
     }
   }, [user]);
 
@@ -33,7 +68,9 @@ export function LogsPage() {
     try {
       const { data, error } = await supabase
         .from('screen_time_logs')
-        .select('*')
+        .select(
+          '*, daily_entries:screen_time_daily_entries(entry_date, minutes), categories:screen_time_log_categories(category_id, minutes)'
+        )
         .eq('user_id', user.id)
         .is('deleted_at', null)
         .order('week_start_date', { ascending: false });
@@ -48,6 +85,50 @@ export function LogsPage() {
     }
   };
 
+  const loadCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('screen_time_categories')
+        .select('*')
+        .is('deleted_at', null)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  const handleAddCategory = async (name: string) => {
+    if (!user) return;
+
+    const customCount = categories.filter((category) => category.user_id).length;
+
+    try {
+      const { data, error } = await supabase
+        .from('screen_time_categories')
+        .insert({
+          user_id: user.id,
+          name,
+          color: CUSTOM_CATEGORY_COLORS[customCount % CUSTOM_CATEGORY_COLORS.length],
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setCategories([...categories, data]);
+    } catch (error) {
+      console.error('Error creating category:', error);
+      setError(
+        (error as { code?: string }).code === '23505'
+          ? `A category named "${name}" already exists`
+          : 'Failed to create category'
+      );
+    }
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -55,7 +136,16 @@ export function LogsPage() {
     setError(null);
     setSubmitting(true);
 
-    const totalMinutes = parseInt(formData.hours) * 60 + parseInt(formData.minutes);
+    const dailyMode = formData.entryMode === 'daily';
+    const totalMinutes = dailyMode
+      ? formData.days.reduce((sum, day) => sum + timeInputToMinutes(day), 0)
+      : parseInt(formData.hours) * 60 + parseInt(formData.minutes);
+
+    if (dailyMode && formData.days.some((day) => timeInputToMinutes(day) > 1440)) {
+      setError('A single day cannot have more than 24 hours of screen time');
+      setSubmitting(false);
+      return;
+    }
 
     if (totalMinutes <= 0 || totalMinutes > 10080) {
       setError('Please enter a valid time between 0 and 168 hours (7 days)');
@@ -63,50 +153,75 @@ export function LogsPage() {
       return;
     }
 
+    const breakdown = Object.entries(formData.breakdown)
+      .map(([categoryId, value]) => ({ categoryId, minutes: timeInputToMinutes(value) }))
+      .filter((row) => row.minutes > 0);
+    const breakdownMinutes = breakdown.reduce((sum, row) => sum + row.minutes, 0);
+
+    if (breakdown.length > 0 && breakdownMinutes !== totalMinutes) {
+      setError(
+        `The category breakdown (${formatMinutes(breakdownMinutes)}) must add up to the weekly total (${formatMinutes(totalMinutes)})`
+      );
+      setSubmitting(false);
+      return;
+    }
+
     try {
-      if (editingId) {
-        const { error } = await supabase
-          .from('screen_time_logs')
-          .update({
-            week_start_date: formData.weekStartDate,
-            minutes: totalMinutes,
-            notes: formData.notes || null,
-          })
-          .eq('id', editingId);
-
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from('screen_time_logs')
-          .insert({
-            user_id: user.id,
-            week_start_date: formData.weekStartDate,
-            minutes: totalMinutes,
-            notes: formData.notes || null,
-          });
-
-        if (error) throw error;
-      }
+      // One call so the log, its days and its breakdown are saved together or not at all
+      const { error } = await supabase.rpc('save_screen_time_log', {
+        p_log_id: editingId,
+        p_week_start: formData.weekStartDate,
+        p_minutes: totalMinutes,
+        p_notes: formData.notes || null,
+        p_daily_minutes: dailyMode ? formData.days.map(timeInputToMinutes) : null,
+        p_categories: breakdown.map((row) => ({ category_id: row.categoryId, minutes: row.minutes })),
+      });
+
+      if (error) throw error;
 
       resetForm();
       await loadLogs();
-    } catch (error: any) {
+      checkAchievements();
+    } catch (error) {
       console.error('Error saving log:', error);
-      setError(error.message || 'Failed to save log');
+      setError((error as Error).message || 'Failed to save log');
     } finally {
       setSubmitting(false);
     }
   };
 
-  const handleEdit = (log: ScreenTimeLog) => {
+  const handleImported = async () => {
+    await loadLogs();
+    checkAchievements();
+  };
+
+  const handleEdit = (log: LogWithEntries) => {
     const hours = Math.floor(log.minutes / 60);
     const minutes = log.minutes % 60;
 
+    const days = getWeekDays(log.week_start_date).map((day): TimeInput => {
+      const entry = log.daily_entries.find((e) => e.entry_date === day.date);
+      return entry
+        ? { hours: Math.floor(entry.minutes / 60).toString(), minutes: (entry.minutes % 60).toString() }
+        : { hours: '', minutes: '' };
+    });
+
+    const breakdown: Record<string, TimeInput> = {};
+    log.categories.forEach((row) => {
+      breakdown[row.category_id] = {
+        hours: Math.floor(row.minutes / 60).toString(),
+        minutes: (row.minutes % 60).toString(),
+      };
+    });
+
     setFormData({
       weekStartDate: log.week_start_date,
       hours: hours.toString(),
       minutes: minutes.toString(),
       notes: log.notes || '',
+      entryMode: log.daily_entries.length > 0 ? 'daily' : 'weekly',
+      days,
+      breakdown,
     });
     setEditingId(log.id);
     setShowForm(true);
@@ -135,6 +250,9 @@ export function LogsPage() {
       hours: '0',
       minutes: '0',
       notes: '',
+      entryMode: 'weekly',
+      days: emptyWeekInputs(),
+      breakdown: {},
     });
     setEditingId(null);
     setShowForm(false);
@@ -155,6 +273,14 @@ export function LogsPage() {
     return formatWeekLabel(weekStart);
   };
 
+  const formTotalMinutes =
+    formData.entryMode === 'daily'
+      ? formData.days.reduce((sum, day) => sum + timeInputToMinutes(day), 0)
+      : (parseInt(formData.hours) || 0) * 60 + (parseInt(formData.minutes) || 0);
+
+  const getCategory = (categoryId: string) =>
+    categories.find((category) => category.id === categoryId);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -167,29 +293,68 @@ export function LogsPage() {
     <div className="p-6 max-w-4xl mx-auto">
       <div className="flex items-center justify-between mb-8">
         <div>
-          <h1 className="text-3xl font-bold text-white mb-2">Screen Time Logs</h1>
-          <p className="text-gray-400">Track and manage your weekly screen time</p>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Screen Time Logs</h1>
+          <p className="text-gray-600 dark:text-gray-400">Track and manage your weekly screen time</p>
         </div>
-        {!showForm && (
-          <button
-            onClick={() => setShowForm(true)}
-            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
-          >
-            <Plus className="w-5 h-5" />
-            <span>Add Log</span>
-          </button>
+        {!showForm && !importSource && (
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setImportSource('export')}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors"
+            >
+              <Upload className="w-5 h-5" />
+              <span>Import</span>
+            </button>
+            <button
+              onClick={() => setShowForm(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Add Log</span>
+            </button>
+          </div>
         )}
       </div>
 
+      {importSource && (
+        <>
+          <div className="inline-flex p-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg mb-3">
+            {(['export', 'spreadsheet'] as const).map((source) => (
+              <button
+                key={source}
+                type="button"
+                onClick={() => setImportSource(source)}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  importSource === source
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+              >
+                {source === 'export' ? 'Phone export' : 'Spreadsheet'}
+              </button>
+            ))}
+          </div>
+          {importSource === 'export' ? (
+            <ScreenTimeImportPanel
+              existingWeeks={new Map(logs.map((log) => [log.week_start_date, log.minutes]))}
+              onImported={handleImported}
+              onClose={() => setImportSource(null)}
+            />
+          ) : (
+            <CsvImportPanel onImported={handleImported} onClose={() => setImportSource(null)} />
+          )}
+        </>
+      )}
+
       {showForm && (
-        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 mb-6">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-xl font-bold text-white">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
               {editingId ? 'Edit Log' : 'New Log'}
             </h2>
             <button
               onClick={resetForm}
-              className="text-gray-400 hover:text-white"
+              className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
             >
               <X className="w-5 h-5" />
             </button>
@@ -197,7 +362,7 @@ export function LogsPage() {
 
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-              <label htmlFor="week" className="block text-sm font-medium text-gray-300 mb-2">
+              <label htmlFor="week" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Week
               </label>
               <select
@@ -205,7 +370,7 @@ export function LogsPage() {
                 value={formData.weekStartDate}
                 onChange={(e) => setFormData({ ...formData, weekStartDate: e.target.value })}
                 required
-                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 {weekOptions.map((week) => (
                   <option key={week.weekStartDate} value={week.weekStartDate}>
@@ -215,39 +380,92 @@ export function LogsPage() {
               </select>
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label htmlFor="hours" className="block text-sm font-medium text-gray-300 mb-2">
-                  Hours
-                </label>
-                <input
-                  id="hours"
-                  type="number"
-                  min="0"
-                  max="168"
-                  value={formData.hours}
-                  onChange={(e) => setFormData({ ...formData, hours: e.target.value })}
-                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-              <div>
-                <label htmlFor="minutes" className="block text-sm font-medium text-gray-300 mb-2">
-                  Minutes
-                </label>
-                <input
-                  id="minutes"
-                  type="number"
-                  min="0"
-                  max="59"
-                  value={formData.minutes}
-                  onChange={(e) => setFormData({ ...formData, minutes: e.target.value })}
-                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Screen Time</span>
+                <div className="inline-flex p-1 bg-gray-100 dark:bg-gray-700 rounded-lg">
+                  {(['weekly', 'daily'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, entryMode: mode })}
+                      className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                        formData.entryMode === mode
+                          ? 'bg-blue-600 text-white'
+                          : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                      }`}
+                    >
+                      {mode === 'weekly' ? 'Weekly total' : 'Per day'}
+                    </button>
+                  ))}
+                </div>
               </div>
+
+              {formData.entryMode === 'daily' ? (
+                <>
+                  <DailyEntryGrid
+                    weekStartDate={formData.weekStartDate}
+                    values={formData.days}
+                    onChange={(days) => setFormData({ ...formData, days })}
+                    disabled={submitting}
+                  />
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                    Weekly total:{' '}
+                    <span className="text-gray-900 dark:text-white font-semibold">
+                      {formatMinutes(formTotalMinutes)}
+                    </span>
+                  </p>
+                </>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="hours" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Hours
+                    </label>
+                    <input
+                      id="hours"
+                      type="number"
+                      min="0"
+                      max="168"
+                      value={formData.hours}
+                      onChange={(e) => setFormData({ ...formData, hours: e.target.value })}
+                      className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="minutes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Minutes
+                    </label>
+                    <input
+                      id="minutes"
+                      type="number"
+                      min="0"
+                      max="59"
+                      value={formData.minutes}
+                      onChange={(e) => setFormData({ ...formData, minutes: e.target.value })}
+                      className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              )}
             </div>
 
             <div>
-              <label htmlFor="notes" className="block text-sm font-medium text-gray-300 mb-2">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Breakdown by category (optional)
+              </span>
+              <CategoryBreakdownEditor
+                categories={categories}
+                values={formData.breakdown}
+                totalMinutes={formTotalMinutes}
+                onChange={(breakdown) => setFormData({ ...formData, breakdown })}
+                onAddCategory={handleAddCategory}
+                disabled={submitting}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="notes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Notes (optional)
               </label>
               <textarea
@@ -255,13 +473,13 @@ export function LogsPage() {
                 value={formData.notes}
                 onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
                 rows={3}
-                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 placeholder="Any additional notes..."
               />
             </div>
 
             {error && (
-              <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-400 text-sm">
+              <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm">
                 {error}
               </div>
             )}
@@ -270,7 +488,7 @@ export function LogsPage() {
               <button
                 type="submit"
                 disabled={submitting}
-                className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
               >
                 {submitting ? (
                   <>
@@ -287,7 +505,7 @@ export function LogsPage() {
               <button
                 type="button"
                 onClick={resetForm}
-                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors"
               >
                 Cancel
               </button>
@@ -297,12 +515,12 @@ export function LogsPage() {
       )}
 
       {logs.length === 0 ? (
-        <div className="bg-gray-800 rounded-lg p-12 border border-gray-700 text-center">
-          <div className="w-16 h-16 bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+          <div className="w-16 h-16 bg-gray-100 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
             <Plus className="w-8 h-8 text-gray-500" />
           </div>
-          <h3 className="text-xl font-semibold text-white mb-2">No logs yet</h3>
-          <p className="text-gray-400 mb-6">Start tracking your screen time by adding your first log</p>
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">No logs yet</h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">Start tracking your screen time by adding your first log</p>
           {!showForm && (
             <button
               onClick={() => setShowForm(true)}
@@ -318,31 +536,84 @@ export function LogsPage() {
           {logs.map((log) => (
             <div
               key={log.id}
-              className="bg-gray-800 rounded-lg p-4 border border-gray-700 hover:border-gray-600 transition-colors"
+              className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700 hover:border-gray-400 dark:hover:border-gray-600 transition-colors"
             >
               <div className="flex items-start justify-between">
                 <div className="flex-1">
                   <div className="flex items-center space-x-3 mb-2">
-                    <span className="text-white font-semibold">Week of {formatWeekRange(log.week_start_date)}</span>
+                    <span className="text-gray-900 dark:text-white font-semibold">Week of {formatWeekRange(log.week_start_date)}</span>
                     <span className="px-3 py-1 bg-blue-600 text-white text-sm font-medium rounded-full">
                       {formatMinutes(log.minutes)}
                     </span>
+                    {log.daily_entries.length > 0 && (
+                      <span className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400">
+                        <CalendarDays className="w-3 h-3" />
+                        <span>Daily</span>
+                      </span>
+                    )}
                   </div>
+                  {log.daily_entries.length > 0 && (
+                    <div className="flex items-end space-x-1 h-8 mb-2">
+                      {getWeekDays(log.week_start_date).map((day) => {
+                        const dayMinutes =
+                          log.daily_entries.find((e) => e.entry_date === day.date)?.minutes ?? 0;
+                        return (
+                          <div
+                            key={day.date}
+                            title={`${day.label}: ${formatMinutes(dayMinutes)}`}
+                            className="w-3 bg-blue-500/60 rounded-sm"
+                            style={{ height: `${Math.max(2, (dayMinutes / 1440) * 100)}%` }}
+                          />
+                        );
+                      })}
+                    </div>
+                  )}
+                  {log.categories.length > 0 && (
+                    <div className="mb-2">
+                      <div className="flex h-2 rounded-full overflow-hidden bg-gray-100 dark:bg-gray-700 max-w-md">
+                        {log.categories.map((row) => (
+                          <div
+                            key={row.category_id}
+                            title={`${getCategory(row.category_id)?.name ?? 'Unknown'}: ${formatMinutes(row.minutes)}`}
+                            style={{
+                              width: `${(row.minutes / log.minutes) * 100}%`,
+                              backgroundColor: getCategory(row.category_id)?.color ?? '#6b7280',
+                            }}
+                          />
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+                        {[...log.categories]
+                          .sort((a, b) => b.minutes - a.minutes)
+                          .map((row) => (
+                            <span key={row.category_id} className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400">
+                              <span
+                                className="w-2 h-2 rounded-full"
+                                style={{ backgroundColor: getCategory(row.category_id)?.color ?? '#6b7280' }}
+                              />
+                              <span>
+                                {getCategory(row.category_id)?.name ?? 'Unknown'} {formatMinutes(row.minutes)}
+                              </span>
+                            </span>
+                          ))}
+                      </div>
+                    </div>
+                  )}
                   {log.notes && (
-                    <p className="text-gray-400 text-sm">{log.notes}</p>
+                    <p className="text-gray-600 dark:text-gray-400 text-sm">{log.notes}</p>
                   )}
                 </div>
                 <div className="flex items-center space-x-2 ml-4">
                   <button
                     onClick={() => handleEdit(log)}
-                    className="p-2 text-gray-400 hover:text-blue-400 hover:bg-gray-700 rounded-lg transition-colors"
+                    className="p-2 text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
                     aria-label="Edit log"
                   >
                     <Edit2 className="w-4 h-4" />
                   </button>
                   <button
                     onClick={() => handleDelete(log.id)}
-                    className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-lg transition-colors"
+                    className="p-2 text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
                     aria-label="Delete log"
                   >
                     <Trash2 className="w-4 h-4" />
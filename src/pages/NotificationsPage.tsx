@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useNotifications } from '../contexts/NotificationContext';
+import { NotificationItem } from '../components/notifications/NotificationItem';
+import { Bell, CheckCheck } from 'lucide-react';
+
+type NotificationFilter = 'all' | 'unread';
+
+export function NotificationsPage() {
+  const { notifications, unreadCount, loading, markAllAsRead } = useNotifications();
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+
+  const visible = filter === 'unread' ? notifications.filter((notification) => !notification.read_at) : notifications;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-2xl mx-auto">
+      <div className="flex items-start justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Notifications</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            {unreadCount > 0 ? `${unreadCount} unread` : 'What happened since your last visit'}
+          </p>
+        </div>
+        {unreadCount > 0 && (
+          <button
+            onClick={markAllAsRead}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <CheckCheck className="w-4 h-4" />
+            <span>Mark all as read</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex space-x-2 mb-4">
+        {(['all', 'unread'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setFilter(option)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors capitalize ${
+              filter === option
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+        {visible.length === 0 ? (
+          <div className="text-center py-12 px-4">
+            <div className="w-16 h-16 bg-gray-100 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Bell className="w-8 h-8 text-gray-500" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              {filter === 'unread' ? "You're all caught up" : 'No notifications yet'}
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400 max-w-md mx-auto">
+              Badges, leaderboard changes, challenge invitations and streak warnings show up here.
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {visible.map((notification) => (
+              <NotificationItem key={notification.id} notification={notification} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Choose which notifications you get in{' '}
+        <Link to="/settings" className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">
+          Settings
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import { useState, FormEvent } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { User, Mail, Loader2, CheckCircle } from 'lucide-react';
+import { BadgeShelf } from '../components/profile/BadgeShelf';
+import { AvatarEditor } from '../components/profile/AvatarEditor';
+import { Avatar } from '../components/shared/Avatar';
 
 export function ProfilePage() {
   const { profile, updateProfile } = useAuth();
@@ -36,24 +40,29 @@ export function ProfilePage() {
   return (
     <div className="p-6 max-w-2xl mx-auto">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-white mb-2">Profile</h1>
-        <p className="text-gray-400">Manage your account information</p>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Profile</h1>
+        <p className="text-gray-600 dark:text-gray-400">Manage your account information</p>
       </div>
 
-      <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 mb-6">
         <div className="flex items-center space-x-4 mb-6">
-          <div className="w-20 h-20 rounded-full bg-gradient-to-br from-blue-500 to-blue-700 flex items-center justify-center text-white font-bold text-3xl">
-            {profile?.display_name?.charAt(0).toUpperCase() || 'U'}
-          </div>
+          <Avatar name={profile?.display_name} url={profile?.avatar_url} size="xl" />
           <div>
-            <h2 className="text-2xl font-bold text-white">{profile?.display_name}</h2>
-            <p className="text-gray-400">{profile?.email}</p>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{profile?.display_name}</h2>
+            <p className="text-gray-600 dark:text-gray-400">{profile?.email}</p>
+            {profile && (
+              <Link to={`/u/${profile.id}`} className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">
+                View public profile
+              </Link>
+            )}
           </div>
         </div>
 
+        <AvatarEditor />
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
-            <label htmlFor="displayName" className="block text-sm font-medium text-gray-300 mb-2">
+            <label htmlFor="displayName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               <div className="flex items-center space-x-2">
                 <User className="w-4 h-4" />
                 <span>Display Name</span>
@@ -65,14 +74,14 @@ export function ProfilePage() {
               value={displayName}
               onChange={(e) => setDisplayName(e.target.value)}
               required
-              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
               placeholder="Your display name"
               disabled={loading}
             />
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               <div className="flex items-center space-x-2">
                 <Mail className="w-4 h-4" />
                 <span>Email</span>
@@ -82,7 +91,7 @@ export function ProfilePage() {
               type="email"
               value={profile?.email || ''}
               disabled
-              className="w-full px-4 py-2 bg-gray-900 border border-gray-600 rounded-lg text-gray-500 cursor-not-allowed"
+              className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-500 cursor-not-allowed"
             />
             <p className="text-xs text-gray-500 mt-1">
               Email cannot be changed at this time
@@ -90,13 +99,13 @@ export function ProfilePage() {
           </div>
 
           {error && (
-            <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-400 text-sm">
+            <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm">
               {error}
             </div>
           )}
 
           {success && (
-            <div className="bg-green-500/10 border border-green-500 rounded-lg p-3 text-green-400 text-sm flex items-center space-x-2">
+            <div className="bg-green-500/10 border border-green-500 rounded-lg p-3 text-green-600 dark:text-green-400 text-sm flex items-center space-x-2">
               <CheckCircle className="w-4 h-4" />
               <span>Profile updated successfully!</span>
             </div>
@@ -105,7 +114,7 @@ export function ProfilePage() {
           <button
             type="submit"
             disabled={loading || displayName === profile?.display_name}
-            className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+            className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
           >
             {loading ? (
               <>
@@ -119,12 +128,14 @@ export function ProfilePage() {
         </form>
       </div>
 
-      <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
-        <h3 className="text-lg font-semibold text-white mb-2">Account Information</h3>
+      <BadgeShelf />
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Account Information</h3>
         <div className="space-y-3 text-sm">
           <div className="flex justify-between">
-            <span className="text-gray-400">Member since</span>
-            <span className="text-white">
+            <span className="text-gray-600 dark:text-gray-400">Member since</span>
+            <span className="text-gray-900 dark:text-white">
               {profile?.created_at
                 ? new Date(profile.created_at).toLocaleDateString('en-US', {
                     month: 'long',
@@ -135,8 +146,8 @@ export function ProfilePage() {
             </span>
           </div>
           <div className="flex justify-between">
-            <span className="text-gray-400">Last updated</span>
-            <span className="text-white">
+            <span className="text-gray-600 dark:text-gray-400">Last updated</span>
+            <span className="text-gray-900 dark:text-white">
               {profile?.updated_at
                 ? new Date(profile.updated_at).toLocaleDateString('en-US', {
                     month: 'long',
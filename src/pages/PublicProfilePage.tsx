@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { BadgeShelf } from '../components/profile/BadgeShelf';
+import { TrendChart } from '../components/dashboard/TrendChart';
+import { Avatar } from '../components/shared/Avatar';
+import { Flame, Target, Lock, EyeOff, UserX } from 'lucide-react';
+import type { Achievement, PublicProfile } from '../types';
+
+export function PublicProfilePage() {
+  const { userId } = useParams<{ userId: string }>();
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [badges, setBadges] = useState<Pick<Achievement, 'badge' | 'earned_at'>[]>([]);
+  const [history, setHistory] = useState<{ week_start_date: string; minutes: number }[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (userId && user) {
+      loadProfile(userId);
+    }
+  }, [userId, user]);
+
+  const loadProfile = async (id: string) => {
+    setLoading(true);
+    try {
+      const [profileResult, badgesResult, historyResult] = await Promise.all([
+        supabase.rpc('get_public_profile', { p_user_id: id }),
+        supabase.rpc('get_public_profile_badges', { p_user_id: id }),
+        supabase.rpc('get_public_profile_history', { p_user_id: id }),
+      ]);
+
+      if (profileResult.error) throw profileResult.error;
+      if (badgesResult.error) throw badgesResult.error;
+      if (historyResult.error) throw historyResult.error;
+
+      setProfile(profileResult.data?.[0] ?? null);
+      setBadges(badgesResult.data || []);
+      setHistory(historyResult.data || []);
+    } catch (error) {
+      console.error('Error loading profile:', error);
+      setProfile(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+          <UserX className="w-16 h-16 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Profile unavailable</h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-4">This user does not exist or does not share their profile with you.</p>
+          <Link to="/leaderboard" className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">
+            Back to the leaderboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwnProfile = profile.user_id === user?.id;
+
+  // Your own profile shows every section, flagging the ones others cannot see
+  const renderHiddenNote = (shown: boolean) =>
+    isOwnProfile &&
+    !shown && (
+      <span className="flex items-center space-x-1 text-xs text-gray-500">
+        <EyeOff className="w-3 h-3" />
+        <span>Hidden from others</span>
+      </span>
+    );
+
+  const renderPrivateSection = (title: string) => (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 mb-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">{title}</h3>
+      <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+        <Lock className="w-4 h-4" />
+        <span>
+          {profile.display_name} keeps their {title.toLowerCase()} private
+        </span>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 mb-6">
+        <div className="flex items-center space-x-4">
+          <Avatar name={profile.display_name} url={profile.avatar_url} size="xl" />
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              {profile.display_name}
+              {isOwnProfile && <span className="text-blue-600 dark:text-blue-400 text-base ml-2">(You)</span>}
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Member since{' '}
+              {new Date(profile.member_since).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            </p>
+            {isOwnProfile && (
+              <Link to="/settings" className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">
+                Choose what others see
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {profile.current_streak === null ? (
+        renderPrivateSection('Streaks')
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Streaks</h3>
+            {renderHiddenNote(profile.show_streaks)}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-400 text-sm mb-1">
+                <Flame className="w-4 h-4 text-orange-500" />
+                <span>Logging streak</span>
+              </div>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{profile.current_streak} weeks</p>
+              <p className="text-xs text-gray-500">Best: {profile.longest_streak} weeks</p>
+            </div>
+            <div>
+              <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-400 text-sm mb-1">
+                <Target className="w-4 h-4 text-green-500" />
+                <span>Under goal</span>
+              </div>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{profile.current_goal_streak} weeks</p>
+              <p className="text-xs text-gray-500">Best: {profile.longest_goal_streak} weeks</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {profile.show_badges || isOwnProfile ? (
+        <>
+          {isOwnProfile && !profile.show_badges && (
+            <div className="flex justify-end mb-2">{renderHiddenNote(false)}</div>
+          )}
+          <BadgeShelf earned={badges} />
+        </>
+      ) : (
+        renderPrivateSection('Badges')
+      )}
+
+      {profile.show_history || isOwnProfile ? (
+        <>
+          {isOwnProfile && !profile.show_history && (
+            <div className="flex justify-end mb-2">{renderHiddenNote(false)}</div>
+          )}
+          <TrendChart logs={history} />
+        </>
+      ) : (
+        renderPrivateSection('Weekly history')
+      )}
+    </div>
+  );
+}
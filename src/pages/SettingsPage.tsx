@@ -1,16 +1,43 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useTheme } from '../contexts/ThemeContext';
 import { supabase } from '../lib/supabase';
-import { Settings as SettingsIcon, Bell, Eye, Loader2, CheckCircle } from 'lucide-react';
+import { saveWithBrowserTimeZone } from '../lib/notifications';
+import { NotificationSettings } from '../components/settings/NotificationSettings';
+import { Settings as SettingsIcon, Bell, Eye, Loader2, CheckCircle, Download } from 'lucide-react';
 import type { UserSettings } from '../types';
+import {
+  fetchDataExport,
+  downloadFile,
+  logsToCsv,
+  streakHistoryToCsv,
+  settingsToCsv,
+} from '../lib/dataExport';
+
+type ExportKind = 'json' | 'logs' | 'streaks' | 'settings';
+
+type ProfileSetting = 'profile_show_streaks' | 'profile_show_badges' | 'profile_show_history';
+
+const PROFILE_SECTIONS: { key: ProfileSetting; label: string; description: string }[] = [
+  { key: 'profile_show_streaks', label: 'Streaks', description: 'Your logging and goal streaks' },
+  { key: 'profile_show_badges', label: 'Badges', description: 'The badges you have earned' },
+  {
+    key: 'profile_show_history',
+    label: 'Weekly history',
+    description: 'Your weekly screen time chart, also hides your logs from teammates when off',
+  },
+];
 
 export function SettingsPage() {
   const { user } = useAuth();
+  const { setTheme } = useTheme();
   const [settings, setSettings] = useState<UserSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [exporting, setExporting] = useState<ExportKind | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -31,11 +58,9 @@ export function SettingsPage() {
       if (error) throw error;
 
       if (!data) {
-        const { data: newSettings, error: createError } = await supabase
-          .from('user_settings')
-          .insert({ user_id: user.id })
-          .select()
-          .single();
+        const { data: newSettings, error: createError } = await saveWithBrowserTimeZone((timezone) =>
+          supabase.from('user_settings').insert({ user_id: user.id, timezone }).select().single()
+        );
 
         if (createError) throw createError;
         setSettings(newSettings);
@@ -66,6 +91,7 @@ export function SettingsPage() {
       if (error) throw error;
 
       setSettings({ ...settings, ...updates });
+      if (updates.theme) setTheme(updates.theme);
       setSuccess(true);
       setTimeout(() => setSuccess(false), 3000);
     } catch (error) {
@@ -76,6 +102,38 @@ export function SettingsPage() {
     }
   };
 
+  const handleExport = async (kind: ExportKind) => {
+    if (!user) return;
+
+    setExporting(kind);
+    setError(null);
+
+    try {
+      const data = await fetchDataExport(user.id);
+      const date = data.exported_at.split('T')[0];
+
+      switch (kind) {
+        case 'json':
+          downloadFile(`lean-screen-export-${date}.json`, JSON.stringify(data, null, 2), 'application/json');
+          break;
+        case 'logs':
+          downloadFile(`lean-screen-logs-${date}.csv`, logsToCsv(data), 'text/csv');
+          break;
+        case 'streaks':
+          downloadFile(`lean-screen-streaks-${date}.csv`, streakHistoryToCsv(data), 'text/csv');
+          break;
+        case 'settings':
+          downloadFile(`lean-screen-settings-${date}.csv`, settingsToCsv(data), 'text/csv');
+          break;
+      }
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      setError('Failed to export your data');
+    } finally {
+      setExporting(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -87,35 +145,35 @@ export function SettingsPage() {
   return (
     <div className="p-6 max-w-2xl mx-auto">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-white mb-2">Settings</h1>
-        <p className="text-gray-400">Manage your preferences and privacy</p>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Settings</h1>
+        <p className="text-gray-600 dark:text-gray-400">Manage your preferences and privacy</p>
       </div>
 
       {error && (
-        <div className="bg-red-500/10 border border-red-500 rounded-lg p-4 text-red-400 text-sm mb-6">
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-4 text-red-600 dark:text-red-400 text-sm mb-6">
           {error}
         </div>
       )}
 
       {success && (
-        <div className="bg-green-500/10 border border-green-500 rounded-lg p-4 text-green-400 text-sm flex items-center space-x-2 mb-6">
+        <div className="bg-green-500/10 border border-green-500 rounded-lg p-4 text-green-600 dark:text-green-400 text-sm flex items-center space-x-2 mb-6">
           <CheckCircle className="w-4 h-4" />
           <span>Settings saved successfully!</span>
         </div>
       )}
 
       <div className="space-y-6">
-        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
           <div className="flex items-center space-x-3 mb-4">
             <Eye className="w-5 h-5 text-blue-500" />
-            <h2 className="text-xl font-semibold text-white">Privacy</h2>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Privacy</h2>
           </div>
 
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <div className="flex-1">
-                <p className="text-white font-medium">Show on Leaderboard</p>
-                <p className="text-sm text-gray-400">
+                <p className="text-gray-900 dark:text-white font-medium">Show on Leaderboard</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
                   Display your stats and ranking on the team leaderboard
                 </p>
               </div>
@@ -124,8 +182,8 @@ export function SettingsPage() {
                   handleUpdate({ show_on_leaderboard: !settings?.show_on_leaderboard })
                 }
                 disabled={saving}
-                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-800 ${
-                  settings?.show_on_leaderboard ? 'bg-blue-600' : 'bg-gray-600'
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-800 ${
+                  settings?.show_on_leaderboard ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
                 }`}
               >
                 <span
@@ -135,51 +193,66 @@ export function SettingsPage() {
                 />
               </button>
             </div>
+
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-gray-900 dark:text-white font-medium">Public Profile</p>
+                {user && (
+                  <Link to={`/u/${user.id}`} className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300">
+                    View your profile
+                  </Link>
+                )}
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Your name and avatar are always shown. Choose what else others see on your profile.
+              </p>
+
+              <div className="space-y-4">
+                {PROFILE_SECTIONS.map((section) => (
+                  <div key={section.key} className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <p className="text-gray-900 dark:text-white text-sm font-medium">{section.label}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">{section.description}</p>
+                    </div>
+                    <button
+                      onClick={() => handleUpdate({ [section.key]: !settings?.[section.key] })}
+                      disabled={saving}
+                      aria-label={`Show ${section.label.toLowerCase()} on your profile`}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-800 ${
+                        settings?.[section.key] ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          settings?.[section.key] ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
         </div>
 
-        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
           <div className="flex items-center space-x-3 mb-4">
             <Bell className="w-5 h-5 text-blue-500" />
-            <h2 className="text-xl font-semibold text-white">Notifications</h2>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Notifications</h2>
           </div>
 
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div className="flex-1">
-                <p className="text-white font-medium">Email Notifications</p>
-                <p className="text-sm text-gray-400">
-                  Receive weekly summaries and reminders via email
-                </p>
-              </div>
-              <button
-                onClick={() =>
-                  handleUpdate({ email_notifications: !settings?.email_notifications })
-                }
-                disabled={saving}
-                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-800 ${
-                  settings?.email_notifications ? 'bg-blue-600' : 'bg-gray-600'
-                }`}
-              >
-                <span
-                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                    settings?.email_notifications ? 'translate-x-6' : 'translate-x-1'
-                  }`}
-                />
-              </button>
-            </div>
-          </div>
+          <NotificationSettings settings={settings} saving={saving} onUpdate={handleUpdate} />
         </div>
 
-        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
           <div className="flex items-center space-x-3 mb-4">
             <SettingsIcon className="w-5 h-5 text-blue-500" />
-            <h2 className="text-xl font-semibold text-white">Appearance</h2>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Appearance</h2>
           </div>
 
           <div className="space-y-4">
             <div>
-              <p className="text-white font-medium mb-3">Theme</p>
+              <p className="text-gray-900 dark:text-white font-medium mb-3">Theme</p>
               <div className="grid grid-cols-3 gap-3">
                 {(['system', 'dark', 'light'] as const).map((theme) => (
                   <button
@@ -189,7 +262,7 @@ export function SettingsPage() {
                     className={`px-4 py-3 rounded-lg font-medium transition-colors capitalize ${
                       settings?.theme === theme
                         ? 'bg-blue-600 text-white'
-                        : 'bg-gray-700 text-gray-400 hover:bg-gray-600 hover:text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white'
                     }`}
                   >
                     {theme}
@@ -197,14 +270,51 @@ export function SettingsPage() {
                 ))}
               </div>
               <p className="text-xs text-gray-500 mt-2">
-                Note: Only dark mode is currently implemented
+                System follows your device's light or dark setting
               </p>
             </div>
           </div>
         </div>
 
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3 mb-4">
+            <Download className="w-5 h-5 text-blue-500" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Your Data</h2>
+          </div>
+
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            Download all of your screen time logs, streak history and settings. The JSON file contains
+            everything in one versioned document; the CSV files are easier to open in a spreadsheet.
+          </p>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {(
+              [
+                ['json', 'Everything (JSON)'],
+                ['logs', 'Logs (CSV)'],
+                ['streaks', 'Streaks (CSV)'],
+                ['settings', 'Settings (CSV)'],
+              ] as const
+            ).map(([kind, label]) => (
+              <button
+                key={kind}
+                onClick={() => handleExport(kind)}
+                disabled={exporting !== null}
+                className={`flex items-center justify-center space-x-2 px-4 py-3 rounded-lg text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+                  kind === 'json'
+                    ? 'bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-400 dark:disabled:bg-gray-600'
+                    : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white disabled:opacity-50'
+                }`}
+              >
+                {exporting === kind && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>{label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
         {saving && (
-          <div className="flex items-center justify-center space-x-2 text-blue-400">
+          <div className="flex items-center justify-center space-x-2 text-blue-600 dark:text-blue-400">
             <Loader2 className="w-5 h-5 animate-spin" />
             <span>Saving changes...</span>
           </div>
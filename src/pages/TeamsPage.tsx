@@ -0,0 +1,319 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useTeam } from '../contexts/TeamContext';
+import { supabase } from '../lib/supabase';
+import { TeamInvites } from '../components/teams/TeamInvites';
+import { TeamRankingSettings } from '../components/teams/TeamRankingSettings';
+import { Avatar } from '../components/shared/Avatar';
+import { Users, Plus, Crown, Shield, Trash2, LogOut, Loader2, Check } from 'lucide-react';
+import type { TeamMember, TeamRole } from '../types';
+
+interface TeamMemberWithUser extends TeamMember {
+  user: {
+    display_name: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+export function TeamsPage() {
+  const { user } = useAuth();
+  const { teams, activeTeam, selectTeam, createTeam, refreshTeams } = useTeam();
+  const [members, setMembers] = useState<TeamMemberWithUser[]>([]);
+  const [loadingMembers, setLoadingMembers] = useState(false);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = activeTeam?.role === 'owner' || activeTeam?.role === 'admin';
+
+  useEffect(() => {
+    if (activeTeam) {
+      loadMembers(activeTeam.id);
+    } else {
+      setMembers([]);
+    }
+  }, [activeTeam?.id]);
+
+  const loadMembers = async (teamId: string) => {
+    setLoadingMembers(true);
+    try {
+      const { data, error } = await supabase
+        .from('team_members')
+        .select('*, user:users(display_name, avatar_url)')
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      console.error('Error loading team members:', error);
+      setError('Failed to load team members');
+    } finally {
+      setLoadingMembers(false);
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!newTeamName.trim()) {
+      setError('Team name cannot be empty');
+      return;
+    }
+
+    setCreating(true);
+    const { error } = await createTeam(newTeamName.trim());
+    if (error) {
+      setError(error.message);
+    } else {
+      setNewTeamName('');
+    }
+    setCreating(false);
+  };
+
+  const handleRoleChange = async (memberId: string, role: TeamRole) => {
+    setError(null);
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .update({ role })
+        .eq('id', memberId);
+
+      if (error) throw error;
+      if (activeTeam) await loadMembers(activeTeam.id);
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      setError('Failed to update member role');
+    }
+  };
+
+  const handleRemove = async (member: TeamMemberWithUser) => {
+    const leaving = member.user_id === user?.id;
+    const message = leaving
+      ? `Are you sure you want to leave ${activeTeam?.name}?`
+      : `Remove ${member.user?.display_name} from ${activeTeam?.name}?`;
+    if (!confirm(message)) return;
+
+    setError(null);
+    try {
+      const { error } = await supabase
+        .from('team_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      if (leaving) {
+        selectTeam(null);
+        await refreshTeams();
+      } else if (activeTeam) {
+        await loadMembers(activeTeam.id);
+      }
+    } catch (error) {
+      console.error('Error removing team member:', error);
+      setError('Failed to remove team member');
+    }
+  };
+
+  const handleDeleteTeam = async () => {
+    if (!activeTeam) return;
+    if (!confirm(`Delete ${activeTeam.name}? Members will no longer see its leaderboard.`)) return;
+
+    setError(null);
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', activeTeam.id);
+
+      if (error) throw error;
+      selectTeam(null);
+      await refreshTeams();
+    } catch (error) {
+      console.error('Error deleting team:', error);
+      setError('Failed to delete team');
+    }
+  };
+
+  const getRoleIcon = (role: TeamRole) => {
+    switch (role) {
+      case 'owner':
+        return <Crown className="w-4 h-4 text-yellow-600 dark:text-yellow-400" />;
+      case 'admin':
+        return <Shield className="w-4 h-4 text-blue-600 dark:text-blue-400" />;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Teams</h1>
+        <p className="text-gray-600 dark:text-gray-400">Create squads and compete on your own leaderboard</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 rounded-lg p-4 text-red-600 dark:text-red-400 text-sm mb-6">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Your Teams</h2>
+            {teams.length === 0 ? (
+              <p className="text-gray-600 dark:text-gray-400 text-sm">You are not part of any team yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {teams.map((team) => (
+                  <button
+                    key={team.id}
+                    onClick={() => selectTeam(team.id)}
+                    className={`flex items-center justify-between w-full px-4 py-3 rounded-lg transition-colors ${
+                      activeTeam?.id === team.id
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-50 dark:bg-gray-700/50 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white'
+                    }`}
+                  >
+                    <span className="font-medium truncate">{team.name}</span>
+                    <span className="text-xs capitalize opacity-75">{team.role}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <form onSubmit={handleCreate} className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Create a Team</h2>
+            <input
+              type="text"
+              value={newTeamName}
+              onChange={(e) => setNewTeamName(e.target.value)}
+              maxLength={60}
+              className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 mb-3"
+              placeholder="Team name"
+              disabled={creating}
+            />
+            <button
+              type="submit"
+              disabled={creating || !newTeamName.trim()}
+              className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+            >
+              {creating ? (
+                <>
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  <span>Creating...</span>
+                </>
+              ) : (
+                <>
+                  <Plus className="w-5 h-5" />
+                  <span>Create Team</span>
+                </>
+              )}
+            </button>
+          </form>
+        </div>
+
+        <div className="lg:col-span-2">
+          {!activeTeam ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-12 border border-gray-200 dark:border-gray-700 text-center">
+              <Users className="w-16 h-16 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">No team selected</h3>
+              <p className="text-gray-600 dark:text-gray-400">
+                Select or create a team to see its members and leaderboard.
+                Got an invite link? Open it to join.
+              </p>
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+              <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900 dark:text-white">{activeTeam.name}</h2>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {members.length} {members.length === 1 ? 'member' : 'members'}
+                  </p>
+                </div>
+                {activeTeam.role === 'owner' && (
+                  <button
+                    onClick={handleDeleteTeam}
+                    className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span>Delete Team</span>
+                  </button>
+                )}
+              </div>
+
+              {loadingMembers ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {members.map((member) => (
+                    <div key={member.id} className="flex items-center justify-between px-6 py-4">
+                      <div className="flex items-center min-w-0">
+                        <Avatar name={member.user?.display_name} url={member.user?.avatar_url} className="mr-3" />
+                        <div className="min-w-0">
+                          <p className="text-gray-900 dark:text-white font-medium truncate">
+                            {member.user?.display_name}
+                            {member.user_id === user?.id && (
+                              <span className="text-blue-600 dark:text-blue-400 text-sm ml-2">(You)</span>
+                            )}
+                          </p>
+                          <div className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 capitalize">
+                            {getRoleIcon(member.role)}
+                            <span>{member.role}</span>
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center space-x-2 ml-4">
+                        {isAdmin && member.role !== 'owner' && member.user_id !== user?.id && (
+                          <button
+                            onClick={() =>
+                              handleRoleChange(member.id, member.role === 'admin' ? 'member' : 'admin')
+                            }
+                            className="flex items-center space-x-1 px-3 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                          >
+                            {member.role === 'admin' ? (
+                              <span>Make Member</span>
+                            ) : (
+                              <>
+                                <Check className="w-4 h-4" />
+                                <span>Make Admin</span>
+                              </>
+                            )}
+                          </button>
+                        )}
+                        {member.role !== 'owner' && (isAdmin || member.user_id === user?.id) && (
+                          <button
+                            onClick={() => handleRemove(member)}
+                            className="p-2 text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                            aria-label={member.user_id === user?.id ? 'Leave team' : 'Remove member'}
+                          >
+                            {member.user_id === user?.id ? (
+                              <LogOut className="w-4 h-4" />
+                            ) : (
+                              <Trash2 className="w-4 h-4" />
+                            )}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {isAdmin && <TeamRankingSettings team={activeTeam} />}
+              {isAdmin && <TeamInvites teamId={activeTeam.id} />}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { getNotificationType, isNotificationType } from '../lib/notifications';
+import { Clock, MailX, CheckCircle, Loader2, AlertTriangle } from 'lucide-react';
+import type { NotificationType } from '../types';
+
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Landing page of the unsubscribe link in our emails. It works without signing in: the token in
+ * the link identifies the user, and the page asks for a click so link scanners don't unsubscribe
+ * anyone by opening it.
+ */
+export function UnsubscribePage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const typeParam = searchParams.get('type');
+  const type = isNotificationType(typeParam) ? typeParam : null;
+  const [unsubscribing, setUnsubscribing] = useState(false);
+  const [unsubscribed, setUnsubscribed] = useState<NotificationType | 'all' | null>(null);
+  const [invalid, setInvalid] = useState(!TOKEN_PATTERN.test(token));
+  const [error, setError] = useState<string | null>(null);
+
+  const typeLabel = type ? getNotificationType(type)?.label.toLowerCase() : null;
+
+  const handleUnsubscribe = async (from: NotificationType | null) => {
+    setError(null);
+    setUnsubscribing(true);
+
+    try {
+      const { data, error } = await supabase.rpc('unsubscribe_from_email', { p_token: token, p_type: from });
+      if (error) throw error;
+
+      if (data) {
+        setUnsubscribed(from ?? 'all');
+      } else {
+        setInvalid(true);
+      }
+    } catch (error) {
+      console.error('Error unsubscribing:', error);
+      setError('Failed to unsubscribe, please try again');
+    } finally {
+      setUnsubscribing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex flex-col items-center justify-center p-4">
+      <div className="mb-8 text-center">
+        <div className="flex items-center justify-center mb-4">
+          <Clock className="w-12 h-12 text-blue-500" />
+        </div>
+        <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">Lean Screen</h1>
+        <p className="text-gray-600 dark:text-gray-400">Track your screen time, compete with your team</p>
+      </div>
+
+      <div className="w-full max-w-md mx-auto">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-8 text-center">
+          {invalid ? (
+            <>
+              <div className="w-16 h-16 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <AlertTriangle className="w-8 h-8 text-red-600 dark:text-red-400" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Link not valid</h2>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">
+                This unsubscribe link doesn't work. You can turn emails off in your notification settings.
+              </p>
+              <Link to="/settings" className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium">
+                Go to settings
+              </Link>
+            </>
+          ) : unsubscribed ? (
+            <>
+              <div className="w-16 h-16 bg-green-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <CheckCircle className="w-8 h-8 text-green-600 dark:text-green-400" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">You're unsubscribed</h2>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">
+                {unsubscribed === 'all'
+                  ? "We won't send you any more emails."
+                  : `We won't send you ${typeLabel} emails anymore.`}{' '}
+                You can turn them back on in your notification settings.
+              </p>
+              <Link to="/settings" className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium">
+                Go to settings
+              </Link>
+            </>
+          ) : (
+            <>
+              <div className="w-16 h-16 bg-blue-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <MailX className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+              </div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Unsubscribe</h2>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">
+                {type ? `Stop getting ${typeLabel} emails from Lean Screen?` : 'Stop getting emails from Lean Screen?'}
+              </p>
+
+              {error && (
+                <div className="bg-red-500/10 border border-red-500 rounded-lg p-3 text-red-600 dark:text-red-400 text-sm mb-4">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <button
+                  onClick={() => handleUnsubscribe(type)}
+                  disabled={unsubscribing}
+                  className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center"
+                >
+                  {unsubscribing ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      Unsubscribing...
+                    </>
+                  ) : type ? (
+                    `Unsubscribe from ${typeLabel} emails`
+                  ) : (
+                    'Unsubscribe from all emails'
+                  )}
+                </button>
+                {type && (
+                  <button
+                    onClick={() => handleUnsubscribe(null)}
+                    disabled={unsubscribing}
+                    className="w-full text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white disabled:opacity-50"
+                  >
+                    Unsubscribe from all emails
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -68,7 +68,13 @@ export interface Database {
           user_id: string;
           theme: 'system' | 'dark' | 'light';
           show_on_leaderboard: boolean;
-          email_notifications: boolean;
+          timezone: string;
+          reminder_day: number;
+          reminder_hour: number;
+          unsubscribe_token: string;
+          profile_show_streaks: boolean;
+          profile_show_badges: boolean;
+          profile_show_history: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -77,7 +83,13 @@ export interface Database {
           user_id: string;
           theme?: 'system' | 'dark' | 'light';
           show_on_leaderboard?: boolean;
-          email_notifications?: boolean;
+          timezone?: string;
+          reminder_day?: number;
+          reminder_hour?: number;
+          unsubscribe_token?: string;
+          profile_show_streaks?: boolean;
+          profile_show_badges?: boolean;
+          profile_show_history?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -86,7 +98,13 @@ export interface Database {
           user_id?: string;
           theme?: 'system' | 'dark' | 'light';
           show_on_leaderboard?: boolean;
-          email_notifications?: boolean;
+          timezone?: string;
+          reminder_day?: number;
+          reminder_hour?: number;
+          unsubscribe_token?: string;
+          profile_show_streaks?: boolean;
+          profile_show_badges?: boolean;
+          profile_show_history?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -97,7 +115,12 @@ export interface Database {
           user_id: string;
           current_streak: number;
           longest_streak: number;
+          current_goal_streak: number;
+          longest_goal_streak: number;
           last_log_week_start: string | null;
+          freeze_tokens: number;
+          freezes_granted_month: string | null;
+          freeze_milestone: number;
           created_at: string;
           updated_at: string;
         };
@@ -106,7 +129,12 @@ export interface Database {
           user_id: string;
           current_streak?: number;
           longest_streak?: number;
+          current_goal_streak?: number;
+          longest_goal_streak?: number;
           last_log_week_start?: string | null;
+          freeze_tokens?: number;
+          freezes_granted_month?: string | null;
+          freeze_milestone?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -115,28 +143,894 @@ export interface Database {
           user_id?: string;
           current_streak?: number;
           longest_streak?: number;
+          current_goal_streak?: number;
+          longest_goal_streak?: number;
           last_log_week_start?: string | null;
+          freeze_tokens?: number;
+          freezes_granted_month?: string | null;
+          freeze_milestone?: number;
           created_at?: string;
           updated_at?: string;
         };
       };
+      teams: {
+        Row: {
+          id: string;
+          name: string;
+          created_by: string | null;
+          ranking_direction: 'lower_is_better' | 'higher_is_better' | null;
+          log_requirement: 'any_week' | 'every_week' | null;
+          created_at: string;
+          updated_at: string;
+          deleted_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_by?: string | null;
+          ranking_direction?: 'lower_is_better' | 'higher_is_better' | null;
+          log_requirement?: 'any_week' | 'every_week' | null;
+          created_at?: string;
+          updated_at?: string;
+          deleted_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_by?: string | null;
+          ranking_direction?: 'lower_is_better' | 'higher_is_better' | null;
+          log_requirement?: 'any_week' | 'every_week' | null;
+          created_at?: string;
+          updated_at?: string;
+          deleted_at?: string | null;
+        };
+      };
+      team_members: {
+        Row: {
+          id: string;
+          team_id: string;
+          user_id: string;
+          role: 'owner' | 'admin' | 'member';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          team_id: string;
+          user_id: string;
+          role?: 'owner' | 'admin' | 'member';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          team_id?: string;
+          user_id?: string;
+          role?: 'owner' | 'admin' | 'member';
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      team_invites: {
+        Row: {
+          id: string;
+          team_id: string;
+          code: string;
+          created_by: string | null;
+          max_uses: number | null;
+          use_count: number;
+          expires_at: string;
+          revoked_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          team_id: string;
+          code?: string;
+          created_by?: string | null;
+          max_uses?: number | null;
+          use_count?: number;
+          expires_at: string;
+          revoked_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          team_id?: string;
+          code?: string;
+          created_by?: string | null;
+          max_uses?: number | null;
+          use_count?: number;
+          expires_at?: string;
+          revoked_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      app_settings: {
+        Row: {
+          id: boolean;
+          ranking_direction: 'lower_is_better' | 'higher_is_better';
+          log_requirement: 'any_week' | 'every_week';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: boolean;
+          ranking_direction?: 'lower_is_better' | 'higher_is_better';
+          log_requirement?: 'any_week' | 'every_week';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: boolean;
+          ranking_direction?: 'lower_is_better' | 'higher_is_better';
+          log_requirement?: 'any_week' | 'every_week';
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      screen_time_daily_entries: {
+        Row: {
+          id: string;
+          log_id: string;
+          user_id: string;
+          entry_date: string;
+          minutes: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          log_id: string;
+          user_id: string;
+          entry_date: string;
+          minutes: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          log_id?: string;
+          user_id?: string;
+          entry_date?: string;
+          minutes?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      screen_time_categories: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          name: string;
+          color: string;
+          sort_order: number;
+          created_at: string;
+          updated_at: string;
+          deleted_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          name: string;
+          color?: string;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+          deleted_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          name?: string;
+          color?: string;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+          deleted_at?: string | null;
+        };
+      };
+      screen_time_log_categories: {
+        Row: {
+          id: string;
+          log_id: string;
+          category_id: string;
+          user_id: string;
+          minutes: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          log_id: string;
+          category_id: string;
+          user_id: string;
+          minutes: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          log_id?: string;
+          category_id?: string;
+          user_id?: string;
+          minutes?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      weekly_goals: {
+        Row: {
+          id: string;
+          user_id: string;
+          goal_type: 'minutes' | 'reduction_pct' | 'none';
+          target_minutes: number | null;
+          reduction_pct: number | null;
+          baseline_minutes: number | null;
+          effective_week_start: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          goal_type: 'minutes' | 'reduction_pct' | 'none';
+          target_minutes?: number | null;
+          reduction_pct?: number | null;
+          baseline_minutes?: number | null;
+          effective_week_start: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          goal_type?: 'minutes' | 'reduction_pct' | 'none';
+          target_minutes?: number | null;
+          reduction_pct?: number | null;
+          baseline_minutes?: number | null;
+          effective_week_start?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      achievements: {
+        Row: {
+          id: string;
+          user_id: string;
+          badge: 'first_log' | 'streak_4' | 'streak_12' | 'streak_52' | 'first_goal_met' | 'biggest_reduction' | 'top_3';
+          earned_at: string;
+          notified_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          badge: 'first_log' | 'streak_4' | 'streak_12' | 'streak_52' | 'first_goal_met' | 'biggest_reduction' | 'top_3';
+          earned_at?: string;
+          notified_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          badge?: 'first_log' | 'streak_4' | 'streak_12' | 'streak_52' | 'first_goal_met' | 'biggest_reduction' | 'top_3';
+          earned_at?: string;
+          notified_at?: string | null;
+        };
+      };
+      streak_freezes: {
+        Row: {
+          id: string;
+          user_id: string;
+          week_start_date: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          week_start_date: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          week_start_date?: string;
+          created_at?: string;
+        };
+      };
+      challenges: {
+        Row: {
+          id: string;
+          team_id: string;
+          name: string;
+          description: string | null;
+          start_week: string;
+          end_week: string;
+          rule: 'lowest_total' | 'biggest_reduction' | 'under_target_weeks';
+          target_minutes: number | null;
+          created_by: string | null;
+          finalized_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          team_id: string;
+          name: string;
+          description?: string | null;
+          start_week: string;
+          end_week: string;
+          rule: 'lowest_total' | 'biggest_reduction' | 'under_target_weeks';
+          target_minutes?: number | null;
+          created_by?: string | null;
+          finalized_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          team_id?: string;
+          name?: string;
+          description?: string | null;
+          start_week?: string;
+          end_week?: string;
+          rule?: 'lowest_total' | 'biggest_reduction' | 'under_target_weeks';
+          target_minutes?: number | null;
+          created_by?: string | null;
+          finalized_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      challenge_participants: {
+        Row: {
+          id: string;
+          challenge_id: string;
+          user_id: string;
+          joined_at: string;
+        };
+        Insert: {
+          id?: string;
+          challenge_id: string;
+          user_id: string;
+          joined_at?: string;
+        };
+        Update: {
+          id?: string;
+          challenge_id?: string;
+          user_id?: string;
+          joined_at?: string;
+        };
+      };
+      challenge_results: {
+        Row: {
+          id: string;
+          challenge_id: string;
+          user_id: string;
+          display_name: string;
+          total_minutes: number;
+          weeks_logged: number;
+          baseline_minutes: number | null;
+          score: number | null;
+          rank: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          challenge_id: string;
+          user_id: string;
+          display_name: string;
+          total_minutes: number;
+          weeks_logged: number;
+          baseline_minutes?: number | null;
+          score?: number | null;
+          rank?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          challenge_id?: string;
+          user_id?: string;
+          display_name?: string;
+          total_minutes?: number;
+          weeks_logged?: number;
+          baseline_minutes?: number | null;
+          score?: number | null;
+          rank?: number | null;
+          created_at?: string;
+        };
+      };
+      duels: {
+        Row: {
+          id: string;
+          challenger_id: string;
+          opponent_id: string;
+          start_week: string;
+          end_week: string;
+          status: 'pending' | 'accepted' | 'declined' | 'cancelled';
+          responded_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          challenger_id: string;
+          opponent_id: string;
+          start_week: string;
+          end_week: string;
+          status?: 'pending' | 'accepted' | 'declined' | 'cancelled';
+          responded_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          challenger_id?: string;
+          opponent_id?: string;
+          start_week?: string;
+          end_week?: string;
+          status?: 'pending' | 'accepted' | 'declined' | 'cancelled';
+          responded_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      leaderboard_snapshots: {
+        Row: {
+          id: string;
+          week_start_date: string;
+          team_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          week_start_date: string;
+          team_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          week_start_date?: string;
+          team_id?: string | null;
+          created_at?: string;
+        };
+      };
+      leaderboard_snapshot_entries: {
+        Row: {
+          id: string;
+          snapshot_id: string;
+          user_id: string;
+          display_name: string;
+          total_minutes: number;
+          rank: number;
+        };
+        Insert: {
+          id?: string;
+          snapshot_id: string;
+          user_id: string;
+          display_name: string;
+          total_minutes: number;
+          rank: number;
+        };
+        Update: {
+          id?: string;
+          snapshot_id?: string;
+          user_id?: string;
+          display_name?: string;
+          total_minutes?: number;
+          rank?: number;
+        };
+      };
+      email_deliveries: {
+        Row: {
+          id: string;
+          user_id: string;
+          kind: 'log_reminder' | 'weekly_digest' | 'streak_at_risk' | 'rank_change' | 'challenge_update';
+          week_start_date: string;
+          reference_id: string | null;
+          status: 'pending' | 'sent' | 'failed';
+          error: string | null;
+          created_at: string;
+          sent_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          kind: 'log_reminder' | 'weekly_digest' | 'streak_at_risk' | 'rank_change' | 'challenge_update';
+          week_start_date: string;
+          reference_id?: string | null;
+          status?: 'pending' | 'sent' | 'failed';
+          error?: string | null;
+          created_at?: string;
+          sent_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          kind?: 'log_reminder' | 'weekly_digest' | 'streak_at_risk' | 'rank_change' | 'challenge_update';
+          week_start_date?: string;
+          reference_id?: string | null;
+          status?: 'pending' | 'sent' | 'failed';
+          error?: string | null;
+          created_at?: string;
+          sent_at?: string | null;
+        };
+      };
+    };
+      notification_preferences: {
+        Row: {
+          user_id: string;
+          notification_type:
+            | 'log_reminder'
+            | 'weekly_digest'
+            | 'streak_at_risk'
+            | 'rank_change'
+            | 'challenge_updates'
+            | 'badge_earned'
+            | 'overtaken'
+            | 'challenge_invite';
+          email: boolean;
+          in_app: boolean;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          notification_type:
+            | 'log_reminder'
+            | 'weekly_digest'
+            | 'streak_at_risk'
+            | 'rank_change'
+            | 'challenge_updates'
+            | 'badge_earned'
+            | 'overtaken'
+            | 'challenge_invite';
+          email?: boolean;
+          in_app?: boolean;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          notification_type?:
+            | 'log_reminder'
+            | 'weekly_digest'
+            | 'streak_at_risk'
+            | 'rank_change'
+            | 'challenge_updates'
+            | 'badge_earned'
+            | 'overtaken'
+            | 'challenge_invite';
+          email?: boolean;
+          in_app?: boolean;
+          updated_at?: string;
+        };
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: 'badge_earned' | 'overtaken' | 'challenge_invite' | 'streak_at_risk';
+          data: Record<string, unknown>;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: 'badge_earned' | 'overtaken' | 'challenge_invite' | 'streak_at_risk';
+          data?: Record<string, unknown>;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          read_at?: string | null;
+        };
+      };
+    Views: {
+      weekly_goal_results: {
+        Row: {
+          log_id: string;
+          user_id: string;
+          week_start_date: string;
+          minutes: number;
+          goal_id: string | null;
+          goal_type: 'minutes' | 'reduction_pct' | 'none' | null;
+          target_minutes: number | null;
+          goal_met: boolean | null;
+        };
+      };
     };
-    Views: Record<string, never>;
     Functions: {
       get_leaderboard: {
         Args: {
-          period: 'daily' | 'weekly' | 'monthly' | 'all_time';
+          range_start?: string | null;
+          range_end?: string | null;
           limit_count?: number;
+          scope_team_id?: string | null;
+          metric?: 'total' | 'improvement';
+          baseline_weeks?: number;
         };
         Returns: Array<{
           user_id: string;
           display_name: string;
           avatar_url: string | null;
           total_minutes: number;
+          current_streak: number | null;
+          rank: number;
+          baseline_minutes: number | null;
+          improvement_pct: number | null;
+          current_goal_streak: number | null;
+        }>;
+      };
+      create_team: {
+        Args: {
+          team_name: string;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          created_by: string | null;
+          ranking_direction: 'lower_is_better' | 'higher_is_better' | null;
+          log_requirement: 'any_week' | 'every_week' | null;
+          created_at: string;
+          updated_at: string;
+          deleted_at: string | null;
+        };
+      };
+      get_team_invite: {
+        Args: {
+          invite_code: string;
+        };
+        Returns: Array<{
+          team_id: string;
+          team_name: string;
+          member_count: number;
+          expires_at: string;
+          status: 'valid' | 'expired' | 'exhausted' | 'revoked';
+        }>;
+      };
+      redeem_team_invite: {
+        Args: {
+          invite_code: string;
+        };
+        Returns: string;
+      };
+      get_leaderboard_rules: {
+        Args: {
+          scope_team_id?: string | null;
+        };
+        Returns: Array<{
+          ranking_direction: 'lower_is_better' | 'higher_is_better';
+          log_requirement: 'any_week' | 'every_week';
+        }>;
+      };
+      recalculate_user_streak: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: undefined;
+      };
+      rebuild_all_streaks: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      refresh_streak_freezes: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      save_screen_time_log: {
+        Args: {
+          p_log_id: string | null;
+          p_week_start: string;
+          p_minutes: number;
+          p_notes?: string | null;
+          p_daily_minutes?: number[] | null;
+          p_categories?: { category_id: string; minutes: number }[];
+        };
+        Returns: string;
+      };
+      use_streak_freeze: {
+        Args: {
+          p_week_start: string;
+        };
+        Returns: number;
+      };
+      award_achievements: {
+        Args: {
+          p_user_id: string;
+          p_weeks?: string[] | null;
+        };
+        Returns: undefined;
+      };
+      get_challenge_standings: {
+        Args: {
+          p_challenge_id: string;
+        };
+        Returns: Array<{
+          user_id: string;
+          display_name: string;
+          avatar_url: string | null;
+          total_minutes: number;
+          weeks_logged: number;
+          baseline_minutes: number | null;
+          score: number | null;
+          rank: number | null;
+        }>;
+      };
+      claim_achievements: {
+        Args: Record<string, never>;
+        Returns: Array<{
+          badge: 'first_log' | 'streak_4' | 'streak_12' | 'streak_52' | 'first_goal_met' | 'biggest_reduction' | 'top_3';
+          earned_at: string;
+        }>;
+      };
+      is_leaderboard_visible: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: boolean;
+      };
+      respond_to_duel: {
+        Args: {
+          p_duel_id: string;
+          p_status: 'accepted' | 'declined' | 'cancelled';
+        };
+        Returns: undefined;
+      };
+      get_duel_weeks: {
+        Args: {
+          p_duel_id: string;
+        };
+        Returns: Array<{
+          week_start_date: string;
+          challenger_minutes: number | null;
+          opponent_minutes: number | null;
+          challenger_hidden: boolean;
+          opponent_hidden: boolean;
+        }>;
+      };
+      get_leaderboard_snapshot: {
+        Args: {
+          p_week_start: string;
+          scope_team_id?: string | null;
+        };
+        Returns: Array<{
+          user_id: string;
+          display_name: string;
+          avatar_url: string | null;
+          total_minutes: number;
+          rank: number;
+          previous_rank: number | null;
+        }>;
+      };
+      can_view_profile: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: boolean;
+      };
+      profile_section_visible: {
+        Args: {
+          p_user_id: string;
+          p_section: 'streaks' | 'badges' | 'history';
+        };
+        Returns: boolean;
+      };
+      get_public_profile: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: Array<{
+          user_id: string;
+          display_name: string;
+          avatar_url: string | null;
+          member_since: string;
+          show_streaks: boolean;
+          show_badges: boolean;
+          show_history: boolean;
+          current_streak: number | null;
+          longest_streak: number | null;
+          current_goal_streak: number | null;
+          longest_goal_streak: number | null;
+        }>;
+      };
+      get_public_profile_badges: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: Array<{
+          badge: 'first_log' | 'streak_4' | 'streak_12' | 'streak_52' | 'first_goal_met' | 'biggest_reduction' | 'top_3';
+          earned_at: string;
+        }>;
+      };
+      get_public_profile_history: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: Array<{
+          week_start_date: string;
+          minutes: number;
+        }>;
+      };
+      get_log_reminder_recipients: {
+        Args: {
+          p_now?: string;
+        };
+        Returns: Array<{
+          user_id: string;
+          email: string;
+          display_name: string;
+          week_start_date: string;
           current_streak: number;
+          kind: 'log_reminder' | 'streak_at_risk';
+          unsubscribe_token: string;
+        }>;
+      };
+      get_weekly_digest_recipients: {
+        Args: {
+          p_week_start?: string | null;
+        };
+        Returns: Array<{
+          user_id: string;
+          email: string;
+          display_name: string;
+          week_start_date: string;
+          total_minutes: number | null;
+          current_streak: number;
+          rank: number | null;
+          ranked_users: number;
+          unsubscribe_token: string;
+        }>;
+      };
+      get_rank_change_recipients: {
+        Args: {
+          p_week_start?: string | null;
+        };
+        Returns: Array<{
+          user_id: string;
+          email: string;
+          display_name: string;
+          week_start_date: string;
           rank: number;
+          previous_rank: number;
+          unsubscribe_token: string;
         }>;
       };
+      get_challenge_result_recipients: {
+        Args: {
+          p_week_start?: string | null;
+        };
+        Returns: Array<{
+          user_id: string;
+          email: string;
+          display_name: string;
+          week_start_date: string;
+          challenge_id: string;
+          challenge_name: string;
+          team_name: string;
+          rank: number | null;
+          participants: number;
+          winner_name: string | null;
+          unsubscribe_token: string;
+        }>;
+      };
+      claim_email_delivery: {
+        Args: {
+          p_user_id: string;
+          p_kind: 'log_reminder' | 'weekly_digest';
+          p_week_start: string;
+          p_reference_id?: string | null;
+        };
+        Returns: string | null;
+      };
+      unsubscribe_from_email: {
+        Args: {
+          p_token: string;
+          p_type?: 'log_reminder' | 'weekly_digest' | 'streak_at_risk' | 'rank_change' | 'challenge_updates' | null;
+        };
+        Returns: boolean;
+      };
     };
     Enums: Record<string, never>;
   };
@@ -19,33 +19,315 @@ export interface ScreenTimeLog {
   deleted_at: string | null;
 }
 
+export interface ScreenTimeDailyEntry {
+  id: string;
+  log_id: string;
+  user_id: string;
+  entry_date: string;
+  minutes: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScreenTimeCategory {
+  id: string;
+  user_id: string | null;
+  name: string;
+  color: string;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface ScreenTimeLogCategory {
+  id: string;
+  log_id: string;
+  category_id: string;
+  user_id: string;
+  minutes: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type GoalType = 'minutes' | 'reduction_pct' | 'none';
+
+export interface WeeklyGoal {
+  id: string;
+  user_id: string;
+  goal_type: GoalType;
+  target_minutes: number | null;
+  reduction_pct: number | null;
+  baseline_minutes: number | null;
+  effective_week_start: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WeeklyGoalResult {
+  log_id: string;
+  user_id: string;
+  week_start_date: string;
+  minutes: number;
+  goal_id: string | null;
+  goal_type: GoalType | null;
+  target_minutes: number | null;
+  goal_met: boolean | null;
+}
+
+export type AchievementBadge =
+  | 'first_log'
+  | 'streak_4'
+  | 'streak_12'
+  | 'streak_52'
+  | 'first_goal_met'
+  | 'biggest_reduction'
+  | 'top_3';
+
+export interface Achievement {
+  id: string;
+  user_id: string;
+  badge: AchievementBadge;
+  earned_at: string;
+  notified_at: string | null;
+}
+
 export interface UserSettings {
   id: string;
   user_id: string;
   theme: 'system' | 'dark' | 'light';
   show_on_leaderboard: boolean;
-  email_notifications: boolean;
+  timezone: string;
+  reminder_day: number;
+  reminder_hour: number;
+  unsubscribe_token: string;
+  profile_show_streaks: boolean;
+  profile_show_badges: boolean;
+  profile_show_history: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export type NotificationType =
+  | 'log_reminder'
+  | 'weekly_digest'
+  | 'streak_at_risk'
+  | 'rank_change'
+  | 'challenge_updates'
+  | 'badge_earned'
+  | 'overtaken'
+  | 'challenge_invite';
+
+export interface NotificationPreference {
+  user_id: string;
+  notification_type: NotificationType;
+  email: boolean;
+  in_app: boolean;
+  updated_at: string;
+}
+
+export type NotificationEvent = 'badge_earned' | 'overtaken' | 'challenge_invite' | 'streak_at_risk';
+
+// Which fields are set depends on the event, see the notifications migration
+export interface NotificationData {
+  badge?: AchievementBadge;
+  user_id?: string;
+  display_name?: string;
+  week_start_date?: string;
+  current_streak?: number;
+  challenge_id?: string;
+  challenge_name?: string;
+  team_name?: string;
+  duel_id?: string;
+  start_week?: string;
+}
+
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  type: NotificationEvent;
+  data: NotificationData;
+  read_at: string | null;
+  created_at: string;
+}
+
 export interface UserStreak {
   id: string;
   user_id: string;
   current_streak: number;
   longest_streak: number;
+  current_goal_streak: number;
+  longest_goal_streak: number;
   last_log_week_start: string | null;
+  freeze_tokens: number;
+  freezes_granted_month: string | null;
+  freeze_milestone: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface StreakFreeze {
+  id: string;
+  user_id: string;
+  week_start_date: string;
+  created_at: string;
+}
+
 export interface LeaderboardEntry {
   user_id: string;
   display_name: string;
   avatar_url: string | null;
   total_minutes: number;
-  current_streak: number;
+  current_streak: number | null;
+  rank: number;
+  baseline_minutes: number | null;
+  improvement_pct: number | null;
+  current_goal_streak: number | null;
+}
+
+export type LeaderboardMetric = 'total' | 'improvement';
+
+export type LeaderboardPeriod = 'this_week' | 'last_4_weeks' | 'last_12_weeks' | 'all_time' | 'custom' | 'past_week';
+
+export interface LeaderboardRange {
+  startWeek: string | null;
+  endWeek: string | null;
+}
+
+export interface LeaderboardSnapshotEntry {
+  user_id: string;
+  display_name: string;
+  avatar_url: string | null;
+  total_minutes: number;
   rank: number;
+  previous_rank: number | null;
+}
+
+export type RankingDirection = 'lower_is_better' | 'higher_is_better';
+
+export type LogRequirement = 'any_week' | 'every_week';
+
+export interface LeaderboardRules {
+  ranking_direction: RankingDirection;
+  log_requirement: LogRequirement;
+}
+
+export type TeamRole = 'owner' | 'admin' | 'member';
+
+export interface Team {
+  id: string;
+  name: string;
+  created_by: string | null;
+  ranking_direction: RankingDirection | null;
+  log_requirement: LogRequirement | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface TeamMember {
+  id: string;
+  team_id: string;
+  user_id: string;
+  role: TeamRole;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UserTeam extends Team {
+  role: TeamRole;
+}
+
+export interface TeamInvite {
+  id: string;
+  team_id: string;
+  code: string;
+  created_by: string | null;
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TeamInviteStatus = 'valid' | 'expired' | 'exhausted' | 'revoked';
+
+export interface TeamInvitePreview {
+  team_id: string;
+  team_name: string;
+  member_count: number;
+  expires_at: string;
+  status: TeamInviteStatus;
+}
+
+export type ChallengeRule = 'lowest_total' | 'biggest_reduction' | 'under_target_weeks';
+
+export interface Challenge {
+  id: string;
+  team_id: string;
+  name: string;
+  description: string | null;
+  start_week: string;
+  end_week: string;
+  rule: ChallengeRule;
+  target_minutes: number | null;
+  created_by: string | null;
+  finalized_at: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
-export type LeaderboardPeriod = 'daily' | 'weekly' | 'monthly' | 'all_time';
+export interface ChallengeParticipant {
+  id: string;
+  challenge_id: string;
+  user_id: string;
+  joined_at: string;
+}
+
+export interface ChallengeStanding {
+  user_id: string;
+  display_name: string;
+  avatar_url: string | null;
+  total_minutes: number;
+  weeks_logged: number;
+  baseline_minutes: number | null;
+  score: number | null;
+  rank: number | null;
+}
+
+export type DuelStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+export interface Duel {
+  id: string;
+  challenger_id: string;
+  opponent_id: string;
+  start_week: string;
+  end_week: string;
+  status: DuelStatus;
+  responded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DuelWeek {
+  week_start_date: string;
+  challenger_minutes: number | null;
+  opponent_minutes: number | null;
+  challenger_hidden: boolean;
+  opponent_hidden: boolean;
+}
+
+export interface PublicProfile {
+  user_id: string;
+  display_name: string;
+  avatar_url: string | null;
+  member_since: string;
+  show_streaks: boolean;
+  show_badges: boolean;
+  show_history: boolean;
+  current_streak: number | null;
+  longest_streak: number | null;
+  current_goal_streak: number | null;
+  longest_goal_streak: number | null;
+}
@@ -0,0 +1,211 @@
+import type { EmailMessage } from './mailer.ts';
+
+/** Links every email ends with. */
+export interface EmailLinks {
+  appUrl: string;
+  unsubscribeUrl: string;
+}
+
+export interface ReminderEmailData extends EmailLinks {
+  displayName: string;
+  weekStartDate: string;
+  currentStreak: number;
+}
+
+export interface DigestEmailData extends EmailLinks {
+  displayName: string;
+  weekStartDate: string;
+  totalMinutes: number | null;
+  currentStreak: number;
+  rank: number | null;
+  rankedUsers: number;
+}
+
+export interface RankChangeEmailData extends EmailLinks {
+  displayName: string;
+  weekStartDate: string;
+  rank: number;
+  previousRank: number;
+}
+
+export interface ChallengeResultEmailData extends EmailLinks {
+  displayName: string;
+  challengeId: string;
+  challengeName: string;
+  teamName: string;
+  rank: number | null;
+  participants: number;
+  winnerName: string | null;
+}
+
+type EmailContent = Pick<EmailMessage, 'subject' | 'text' | 'html'>;
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours > 0) {
+    return `${hours}h ${mins}m`;
+  }
+  return `${mins}m`;
+}
+
+function formatWeek(weekStartDate: string) {
+  const start = new Date(`${weekStartDate}T00:00:00Z`);
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + 6);
+
+  const format = (date: Date) =>
+    date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return `${format(start)} - ${format(end)}`;
+}
+
+function formatWeeks(count: number) {
+  return `${count} ${count === 1 ? 'week' : 'weeks'}`;
+}
+
+/**
+ * Builds both versions of an email from plain-text paragraphs (HTML-escaped here), a call to
+ * action and the shared footer with the unsubscribe link.
+ */
+function renderEmail(
+  subject: string,
+  paragraphs: string[],
+  action: { label: string; url: string },
+  links: EmailLinks
+): EmailContent {
+  const footer = 'You are receiving this email because you turned it on in your notification settings.';
+  const settingsUrl = `${links.appUrl}/settings`;
+
+  const text = [
+    ...paragraphs.flatMap((paragraph) => [paragraph, '']),
+    `${action.label}: ${action.url}`,
+    '',
+    footer,
+    `Unsubscribe: ${links.unsubscribeUrl}`,
+    `Notification settings: ${settingsUrl}`,
+  ].join('\n');
+
+  const body = paragraphs
+    .map(
+      (paragraph) =>
+        `<p style="margin:0 0 16px;color:#374151;font-size:15px;line-height:22px">${escapeHtml(paragraph)}</p>`
+    )
+    .join('');
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif">
+    <div style="max-width:480px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+      <h1 style="margin:0 0 24px;color:#2563eb;font-size:20px">Lean Screen</h1>
+      ${body}
+      <a href="${escapeHtml(action.url)}" style="display:inline-block;background:#2563eb;color:#ffffff;text-decoration:none;padding:10px 20px;border-radius:8px;font-weight:600">${escapeHtml(action.label)}</a>
+      <p style="margin:32px 0 0;color:#6b7280;font-size:12px;line-height:18px">
+        ${footer}
+        <a href="${escapeHtml(links.unsubscribeUrl)}" style="color:#6b7280">Unsubscribe</a> or
+        <a href="${escapeHtml(settingsUrl)}" style="color:#6b7280">change your notification settings</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+export function renderReminderEmail(data: ReminderEmailData): EmailContent {
+  const week = formatWeek(data.weekStartDate);
+
+  return renderEmail(
+    `Don't forget to log your screen time for ${week}`,
+    [
+      `Hi ${data.displayName},`,
+      `You haven't logged your screen time for the week of ${week} yet.`,
+      'Log it before the week ends to start a new streak.',
+    ],
+    { label: 'Log your week', url: `${data.appUrl}/logs` },
+    data
+  );
+}
+
+export function renderStreakAtRiskEmail(data: ReminderEmailData): EmailContent {
+  const week = formatWeek(data.weekStartDate);
+  const streak = formatWeeks(data.currentStreak);
+
+  return renderEmail(
+    `Your ${streak} streak ends this week`,
+    [
+      `Hi ${data.displayName},`,
+      `You haven't logged your screen time for the week of ${week} yet.`,
+      `Log it before the week ends to keep your ${streak} streak going.`,
+    ],
+    { label: 'Save your streak', url: `${data.appUrl}/logs` },
+    data
+  );
+}
+
+export function renderDigestEmail(data: DigestEmailData): EmailContent {
+  const week = formatWeek(data.weekStartDate);
+  const lines = [
+    data.totalMinutes === null
+      ? 'You did not log any screen time that week.'
+      : `You logged ${formatMinutes(data.totalMinutes)} of screen time.`,
+    `Your logging streak is ${formatWeeks(data.currentStreak)}.`,
+  ];
+  if (data.rank !== null) {
+    lines.push(`You finished #${data.rank} of ${data.rankedUsers} on the leaderboard.`);
+  }
+
+  return renderEmail(
+    `Your week in review: ${week}`,
+    [`Hi ${data.displayName},`, `Here is how the week of ${week} went:`, ...lines],
+    { label: 'Open your dashboard', url: `${data.appUrl}/dashboard` },
+    data
+  );
+}
+
+export function renderRankChangeEmail(data: RankChangeEmailData): EmailContent {
+  const week = formatWeek(data.weekStartDate);
+  const moved = data.rank < data.previousRank ? 'up' : 'down';
+  const places = Math.abs(data.previousRank - data.rank);
+
+  return renderEmail(
+    `You moved ${moved} to #${data.rank} on the leaderboard`,
+    [
+      `Hi ${data.displayName},`,
+      `You finished the week of ${week} at #${data.rank}, ${moved} ${places} ${
+        places === 1 ? 'place' : 'places'
+      } from #${data.previousRank} the week before.`,
+    ],
+    { label: 'See the standings', url: `${data.appUrl}/leaderboard?week=${data.weekStartDate}` },
+    data
+  );
+}
+
+export function renderChallengeResultEmail(data: ChallengeResultEmailData): EmailContent {
+  const lines = [`The ${data.teamName} challenge "${data.challengeName}" is over.`];
+  if (data.rank === 1) {
+    lines.push('You won, congratulations!');
+  } else if (data.rank !== null) {
+    lines.push(`You finished #${data.rank} of ${data.participants}.`);
+  } else {
+    lines.push('You did not log any of the challenge weeks.');
+  }
+  if (data.winnerName && data.rank !== 1) {
+    lines.push(`The winner is ${data.winnerName}.`);
+  }
+
+  return renderEmail(
+    `Final results: ${data.challengeName}`,
+    [`Hi ${data.displayName},`, ...lines],
+    { label: 'See the results', url: `${data.appUrl}/challenges/${data.challengeId}` },
+    data
+  );
+}
@@ -0,0 +1,74 @@
+import nodemailer from 'npm:nodemailer@6.9.16';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+}
+
+/** Anything that can deliver an email; throwing marks the delivery as failed. */
+export interface MailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: config.from, ...message });
+    },
+  };
+}
+
+/** Prints emails instead of sending them, for local development without a mail server. */
+export function createConsoleTransport(): MailTransport {
+  return {
+    send(message) {
+      console.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`);
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Picks the transport from the environment. `EMAIL_TRANSPORT=console` logs emails; otherwise they
+ * go to the SMTP server in `SMTP_HOST`/`SMTP_PORT`, e.g. Mailpit on localhost:1025 locally.
+ */
+export function createTransportFromEnv(): MailTransport {
+  if (Deno.env.get('EMAIL_TRANSPORT') === 'console') {
+    return createConsoleTransport();
+  }
+
+  const host = Deno.env.get('SMTP_HOST');
+  const from = Deno.env.get('EMAIL_FROM');
+  if (!host || !from) {
+    throw new Error('SMTP_HOST and EMAIL_FROM must be set, or set EMAIL_TRANSPORT=console');
+  }
+
+  const port = Number(Deno.env.get('SMTP_PORT') ?? '587');
+  return createSmtpTransport({
+    host,
+    port,
+    secure: Deno.env.get('SMTP_SECURE') === 'true' || port === 465,
+    user: Deno.env.get('SMTP_USER'),
+    password: Deno.env.get('SMTP_PASSWORD'),
+    from,
+  });
+}
@@ -0,0 +1,287 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { createTransportFromEnv, type EmailMessage, type MailTransport } from '../_shared/mailer.ts';
+import {
+  renderChallengeResultEmail,
+  renderDigestEmail,
+  renderRankChangeEmail,
+  renderReminderEmail,
+  renderStreakAtRiskEmail,
+  type EmailLinks,
+} from '../_shared/emailTemplates.ts';
+
+/**
+ * Sends the log reminders and streak warnings that are due (`{ "job": "reminders" }`, run hourly)
+ * or the emails about the week that just ended: digests, rank changes and challenge results
+ * (`{ "job": "digest" }`, run on Sundays). Called by the cron jobs in the email migrations; pass
+ * `week_start` to the digest job to send for another week, or `now` to the reminders job to
+ * pretend it runs at another time. Requests must carry `Authorization: Bearer <EMAIL_JOB_SECRET>`.
+ */
+
+type EmailJob = 'reminders' | 'digest';
+type EmailKind = 'log_reminder' | 'streak_at_risk' | 'weekly_digest' | 'rank_change' | 'challenge_update';
+
+// The notification preference each kind of email can be unsubscribed from
+const PREFERENCE_BY_KIND: Record<EmailKind, string> = {
+  log_reminder: 'log_reminder',
+  streak_at_risk: 'streak_at_risk',
+  weekly_digest: 'weekly_digest',
+  rank_change: 'rank_change',
+  challenge_update: 'challenge_updates',
+};
+
+interface Recipient {
+  user_id: string;
+  email: string;
+  display_name: string;
+  week_start_date: string;
+  unsubscribe_token: string;
+}
+
+interface ReminderRecipient extends Recipient {
+  current_streak: number;
+  kind: 'log_reminder' | 'streak_at_risk';
+}
+
+interface DigestRecipient extends Recipient {
+  total_minutes: number | null;
+  current_streak: number;
+  rank: number | null;
+  ranked_users: number;
+}
+
+interface RankChangeRecipient extends Recipient {
+  rank: number;
+  previous_rank: number;
+}
+
+interface ChallengeResultRecipient extends Recipient {
+  challenge_id: string;
+  challenge_name: string;
+  team_name: string;
+  rank: number | null;
+  participants: number;
+  winner_name: string | null;
+}
+
+interface JobResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+interface JobContext {
+  supabase: SupabaseClient;
+  transport: MailTransport;
+  appUrl: string;
+  functionsUrl: string;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function getEnv(name: string) {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`Missing environment variable: ${name}`);
+  return value;
+}
+
+/** Unsubscribe links for the footer, plus the headers mail clients use for one-click unsubscribe. */
+function getUnsubscribe(context: JobContext, recipient: Recipient, kind: EmailKind) {
+  const query = new URLSearchParams({ token: recipient.unsubscribe_token, type: PREFERENCE_BY_KIND[kind] });
+  const links: EmailLinks = {
+    appUrl: context.appUrl,
+    unsubscribeUrl: `${context.appUrl}/unsubscribe?${query}`,
+  };
+  const headers = {
+    'List-Unsubscribe': `<${context.functionsUrl}/unsubscribe?${query}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+  return { links, headers };
+}
+
+async function deliver<T extends Recipient>(
+  context: JobContext,
+  recipients: T[],
+  getKind: (recipient: T) => EmailKind,
+  render: (recipient: T, links: EmailLinks) => Pick<EmailMessage, 'subject' | 'text' | 'html'>,
+  getReferenceId: (recipient: T) => string | null = () => null
+): Promise<JobResult> {
+  const result: JobResult = { sent: 0, failed: 0, skipped: 0 };
+
+  for (const recipient of recipients) {
+    const kind = getKind(recipient);
+    const { data: deliveryId, error: claimError } = await context.supabase.rpc('claim_email_delivery', {
+      p_user_id: recipient.user_id,
+      p_kind: kind,
+      p_week_start: recipient.week_start_date,
+      p_reference_id: getReferenceId(recipient),
+    });
+    if (claimError) throw claimError;
+
+    // Another run already sent this email or is sending it
+    if (!deliveryId) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const { links, headers } = getUnsubscribe(context, recipient, kind);
+      await context.transport.send({ to: recipient.email, headers, ...render(recipient, links) });
+      await context.supabase
+        .from('email_deliveries')
+        .update({ status: 'sent', sent_at: new Date().toISOString() })
+        .eq('id', deliveryId);
+      result.sent++;
+    } catch (error) {
+      console.error(`Error sending ${kind} to ${recipient.user_id}:`, error);
+      await context.supabase
+        .from('email_deliveries')
+        .update({ status: 'failed', error: (error as Error).message })
+        .eq('id', deliveryId);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+function addResults(...results: JobResult[]): JobResult {
+  return results.reduce(
+    (total, result) => ({
+      sent: total.sent + result.sent,
+      failed: total.failed + result.failed,
+      skipped: total.skipped + result.skipped,
+    }),
+    { sent: 0, failed: 0, skipped: 0 }
+  );
+}
+
+async function sendReminders(context: JobContext, now: string | null): Promise<JobResult> {
+  const { data, error } = await context.supabase.rpc(
+    'get_log_reminder_recipients',
+    now ? { p_now: now } : {}
+  );
+  if (error) throw error;
+
+  return deliver(
+    context,
+    (data || []) as ReminderRecipient[],
+    (recipient) => recipient.kind,
+    (recipient, links) => {
+      const emailData = {
+        displayName: recipient.display_name,
+        weekStartDate: recipient.week_start_date,
+        currentStreak: recipient.current_streak,
+        ...links,
+      };
+      return recipient.kind === 'streak_at_risk' ? renderStreakAtRiskEmail(emailData) : renderReminderEmail(emailData);
+    }
+  );
+}
+
+async function sendWeeklyEmails(context: JobContext, weekStart: string | null): Promise<JobResult> {
+  const args = { p_week_start: weekStart };
+
+  const digests = await context.supabase.rpc('get_weekly_digest_recipients', args);
+  if (digests.error) throw digests.error;
+
+  const digestResult = await deliver(
+    context,
+    (digests.data || []) as DigestRecipient[],
+    () => 'weekly_digest',
+    (recipient, links) =>
+      renderDigestEmail({
+        displayName: recipient.display_name,
+        weekStartDate: recipient.week_start_date,
+        totalMinutes: recipient.total_minutes,
+        currentStreak: recipient.current_streak,
+        rank: recipient.rank === null ? null : Number(recipient.rank),
+        rankedUsers: Number(recipient.ranked_users),
+        ...links,
+      })
+  );
+
+  const rankChanges = await context.supabase.rpc('get_rank_change_recipients', args);
+  if (rankChanges.error) throw rankChanges.error;
+
+  const rankChangeResult = await deliver(
+    context,
+    (rankChanges.data || []) as RankChangeRecipient[],
+    () => 'rank_change',
+    (recipient, links) =>
+      renderRankChangeEmail({
+        displayName: recipient.display_name,
+        weekStartDate: recipient.week_start_date,
+        rank: Number(recipient.rank),
+        previousRank: Number(recipient.previous_rank),
+        ...links,
+      })
+  );
+
+  const challengeResults = await context.supabase.rpc('get_challenge_result_recipients', args);
+  if (challengeResults.error) throw challengeResults.error;
+
+  const challengeResult = await deliver(
+    context,
+    (challengeResults.data || []) as ChallengeResultRecipient[],
+    () => 'challenge_update',
+    (recipient, links) =>
+      renderChallengeResultEmail({
+        displayName: recipient.display_name,
+        challengeId: recipient.challenge_id,
+        challengeName: recipient.challenge_name,
+        teamName: recipient.team_name,
+        rank: recipient.rank === null ? null : Number(recipient.rank),
+        participants: Number(recipient.participants),
+        winnerName: recipient.winner_name,
+        ...links,
+      }),
+    (recipient) => recipient.challenge_id
+  );
+
+  return addResults(digestResult, rankChangeResult, challengeResult);
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const jobSecret = Deno.env.get('EMAIL_JOB_SECRET');
+  if (!jobSecret || req.headers.get('Authorization') !== `Bearer ${jobSecret}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const job = body.job as EmailJob;
+  if (job !== 'reminders' && job !== 'digest') {
+    return json({ error: 'job must be "reminders" or "digest"' }, 400);
+  }
+
+  try {
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const context: JobContext = {
+      supabase: createClient(supabaseUrl, getEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+        auth: { persistSession: false },
+      }),
+      transport: createTransportFromEnv(),
+      appUrl: getEnv('APP_URL').replace(/\/$/, ''),
+      functionsUrl: Deno.env.get('PUBLIC_FUNCTIONS_URL') ?? `${supabaseUrl}/functions/v1`,
+    };
+
+    const result =
+      job === 'reminders'
+        ? await sendReminders(context, typeof body.now === 'string' ? body.now : null)
+        : await sendWeeklyEmails(context, typeof body.week_start === 'string' ? body.week_start : null);
+
+    console.log(`Email job ${job}:`, result);
+    return json(result);
+  } catch (error) {
+    console.error(`Error running email job ${job}:`, error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
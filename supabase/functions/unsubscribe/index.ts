@@ -0,0 +1,37 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * One-click unsubscribe (RFC 8058) for the `List-Unsubscribe` header of our emails: mail clients
+ * POST to `/unsubscribe?token=<unsubscribe token>&type=<notification type>`. The footer link in
+ * the email body opens the app's `/unsubscribe` page instead, which calls the same database
+ * function. Deploy with `--no-verify-jwt`, mail clients cannot sign in.
+ */
+
+const NOTIFICATION_TYPES = ['log_reminder', 'weekly_digest', 'streak_at_risk', 'rank_change', 'challenge_updates'];
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const url = new URL(req.url);
+  const token = url.searchParams.get('token') ?? '';
+  const type = url.searchParams.get('type');
+
+  if (!TOKEN_PATTERN.test(token) || (type !== null && !NOTIFICATION_TYPES.includes(type))) {
+    return new Response('Invalid unsubscribe link', { status: 400 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    auth: { persistSession: false },
+  });
+
+  const { data, error } = await supabase.rpc('unsubscribe_from_email', { p_token: token, p_type: type });
+  if (error) {
+    console.error('Error unsubscribing:', error);
+    return new Response('Could not unsubscribe', { status: 500 });
+  }
+
+  return data ? new Response('Unsubscribed') : new Response('Invalid unsubscribe link', { status: 404 });
+});
@@ -0,0 +1,229 @@
+/*
+  # Add Teams with Scoped Leaderboards
+
+  ## Overview
+  Until now every user who signed up landed on a single global leaderboard. This migration
+  introduces teams so multiple squads can compete separately on one deployment.
+
+  ## New Tables
+
+  ### 1. teams
+  - `id` (uuid, primary key) - unique team identifier
+  - `name` (text) - team display name (1-60 characters)
+  - `created_by` (uuid, nullable) - user who created the team
+  - `created_at` (timestamptz) - creation timestamp
+  - `updated_at` (timestamptz) - last update timestamp
+  - `deleted_at` (timestamptz, nullable) - soft delete timestamp
+
+  ### 2. team_members
+  - `id` (uuid, primary key) - unique membership identifier
+  - `team_id` (uuid, foreign key) - references teams table
+  - `user_id` (uuid, foreign key) - references users table
+  - `role` (text) - one of owner/admin/member
+  - `created_at` (timestamptz) - join timestamp
+  - `updated_at` (timestamptz) - last role change timestamp
+
+  ## Security
+  - Teams and memberships are only visible to members of the team
+  - Teams are created through `create_team()` so the creator is atomically added as owner
+  - Owners and admins can rename the team and manage member roles; only the `role` column of a
+    membership can be updated
+  - Members can leave a team; the owner cannot be removed or demoted
+
+  ## Functions
+  - `is_team_member(team_id)` / `is_team_admin(team_id)` - membership checks used by policies
+  - `create_team(team_name)` - creates a team owned by the caller
+  - `get_leaderboard(period, limit_count, scope_team_id)` - optional team scope
+*/
+
+-- Teams table
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  deleted_at timestamptz
+);
+
+-- Team memberships table
+CREATE TABLE IF NOT EXISTS team_members (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role text DEFAULT 'member' NOT NULL CHECK (role IN ('owner', 'admin', 'member')),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_team_members_team_id ON team_members(team_id);
+CREATE INDEX IF NOT EXISTS idx_teams_deleted_at ON teams(deleted_at) WHERE deleted_at IS NULL;
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+-- Membership helpers (SECURITY DEFINER so policies on team_members don't recurse)
+CREATE OR REPLACE FUNCTION is_team_member(p_team_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM team_members tm
+    JOIN teams t ON t.id = tm.team_id
+    WHERE tm.team_id = p_team_id
+      AND tm.user_id = auth.uid()
+      AND t.deleted_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_team_admin(p_team_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM team_members tm
+    JOIN teams t ON t.id = tm.team_id
+    WHERE tm.team_id = p_team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+      AND t.deleted_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Teams policies
+CREATE POLICY "Members can view their teams"
+  ON teams FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL AND is_team_member(id));
+
+CREATE POLICY "Admins can update their teams"
+  ON teams FOR UPDATE
+  TO authenticated
+  USING (deleted_at IS NULL AND is_team_admin(id))
+  WITH CHECK (is_team_admin(id));
+
+-- Team members policies
+CREATE POLICY "Members can view team memberships"
+  ON team_members FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+CREATE POLICY "Admins can change member roles"
+  ON team_members FOR UPDATE
+  TO authenticated
+  USING (is_team_admin(team_id) AND role <> 'owner')
+  WITH CHECK (is_team_admin(team_id) AND role <> 'owner');
+
+-- Only the role can change, so a membership can't be moved to another user or team
+REVOKE UPDATE ON team_members FROM authenticated;
+GRANT UPDATE (role) ON team_members TO authenticated;
+
+CREATE POLICY "Members can leave and admins can remove members"
+  ON team_members FOR DELETE
+  TO authenticated
+  USING (
+    role <> 'owner'
+    AND (auth.uid() = user_id OR is_team_admin(team_id))
+  );
+
+-- Triggers for updated_at
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON teams
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_team_members_updated_at
+  BEFORE UPDATE ON team_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create a team and add the caller as its owner
+CREATE OR REPLACE FUNCTION create_team(team_name text)
+RETURNS teams AS $$
+DECLARE
+  v_team teams;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO teams (name, created_by)
+  VALUES (btrim(team_name), auth.uid())
+  RETURNING * INTO v_team;
+
+  INSERT INTO team_members (team_id, user_id, role)
+  VALUES (v_team.id, auth.uid(), 'owner');
+
+  RETURN v_team;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recreate leaderboard function with an optional team scope
+DROP FUNCTION IF EXISTS get_leaderboard(text, integer);
+
+CREATE OR REPLACE FUNCTION get_leaderboard(
+  period text DEFAULT 'weekly',
+  limit_count integer DEFAULT 100,
+  scope_team_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  avatar_url text,
+  total_minutes bigint,
+  current_streak integer,
+  rank bigint
+) AS $$
+DECLARE
+  start_date date;
+BEGIN
+  IF scope_team_id IS NOT NULL AND NOT is_team_member(scope_team_id) THEN
+    RAISE EXCEPTION 'Not a member of this team' USING ERRCODE = '42501';
+  END IF;
+
+  -- Determine date range based on period
+  CASE period
+    WHEN 'daily' THEN
+      -- For daily, show current week
+      start_date := CURRENT_DATE - (EXTRACT(DOW FROM CURRENT_DATE)::integer || ' days')::interval;
+    WHEN 'weekly' THEN
+      -- Last 4 weeks
+      start_date := CURRENT_DATE - (EXTRACT(DOW FROM CURRENT_DATE)::integer || ' days')::interval - INTERVAL '21 days';
+    WHEN 'monthly' THEN
+      -- Last ~12 weeks (3 months)
+      start_date := CURRENT_DATE - INTERVAL '84 days';
+    WHEN 'all_time' THEN
+      start_date := '1900-01-01'::date;
+    ELSE
+      start_date := CURRENT_DATE - INTERVAL '28 days';
+  END CASE;
+
+  RETURN QUERY
+  SELECT
+    u.id AS user_id,
+    u.display_name,
+    u.avatar_url,
+    COALESCE(SUM(stl.minutes), 0)::bigint AS total_minutes,
+    COALESCE(us.current_streak, 0) AS current_streak,
+    RANK() OVER (ORDER BY COALESCE(SUM(stl.minutes), 0) DESC) AS rank
+  FROM users u
+  LEFT JOIN screen_time_logs stl ON stl.user_id = u.id
+    AND stl.week_start_date >= start_date
+    AND stl.deleted_at IS NULL
+  LEFT JOIN user_settings ust ON ust.user_id = u.id
+  LEFT JOIN user_streaks us ON us.user_id = u.id
+  WHERE u.deleted_at IS NULL
+    AND (ust.show_on_leaderboard = true OR ust.show_on_leaderboard IS NULL)
+    AND (
+      scope_team_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM team_members tm
+        WHERE tm.team_id = scope_team_id AND tm.user_id = u.id
+      )
+    )
+  GROUP BY u.id, u.display_name, u.avatar_url, us.current_streak
+  HAVING COALESCE(SUM(stl.minutes), 0) > 0
+  ORDER BY total_minutes DESC, u.display_name ASC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
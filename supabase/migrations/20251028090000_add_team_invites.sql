@@ -0,0 +1,170 @@
+/*
+  # Add Team Invite Codes
+
+  ## Overview
+  Team admins can now generate expiring invite codes that are shared as `/join/:code` links.
+  Redemption happens server-side so membership can only be gained with a valid code, and
+  teammates' logs become visible to each other only through that membership.
+
+  ## New Tables
+
+  ### 1. team_invites
+  - `id` (uuid, primary key) - unique invite identifier
+  - `team_id` (uuid, foreign key) - references teams table
+  - `code` (text, unique) - the shareable invite code
+  - `created_by` (uuid, nullable) - admin who created the invite
+  - `max_uses` (integer, nullable) - number of redemptions allowed, NULL for unlimited
+  - `use_count` (integer) - number of successful redemptions so far
+  - `expires_at` (timestamptz) - invite is rejected after this moment
+  - `revoked_at` (timestamptz, nullable) - set when an admin revokes the invite
+  - `created_at` (timestamptz) - creation timestamp
+  - `updated_at` (timestamptz) - last update timestamp
+
+  ## Security
+  - Only team owners/admins can create, list and revoke invites; only `revoked_at` can be updated
+  - `get_team_invite(code)` exposes the team name and invite status, including to signed-out visitors
+  - `redeem_team_invite(code)` validates the invite and adds the caller as a member
+  - Users can view the logs of people they share a team with
+*/
+
+CREATE TABLE IF NOT EXISTS team_invites (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  code text UNIQUE NOT NULL DEFAULT upper(substr(replace(uuid_generate_v4()::text, '-', ''), 1, 10)),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count integer DEFAULT 0 NOT NULL,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_invites_team_id ON team_invites(team_id);
+
+ALTER TABLE team_invites ENABLE ROW LEVEL SECURITY;
+
+-- Team invites policies
+CREATE POLICY "Admins can view team invites"
+  ON team_invites FOR SELECT
+  TO authenticated
+  USING (is_team_admin(team_id));
+
+CREATE POLICY "Admins can create team invites"
+  ON team_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (is_team_admin(team_id) AND auth.uid() = created_by);
+
+CREATE POLICY "Admins can revoke team invites"
+  ON team_invites FOR UPDATE
+  TO authenticated
+  USING (is_team_admin(team_id))
+  WITH CHECK (is_team_admin(team_id));
+
+-- Revoking is the only change, so usage counts, limits, codes and teams can't be edited
+REVOKE UPDATE ON team_invites FROM authenticated;
+GRANT UPDATE (revoked_at) ON team_invites TO authenticated;
+
+CREATE TRIGGER update_team_invites_updated_at
+  BEFORE UPDATE ON team_invites
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Whether the caller shares at least one live team with another user
+CREATE OR REPLACE FUNCTION shares_team_with(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM team_members mine
+    JOIN team_members theirs ON theirs.team_id = mine.team_id
+    JOIN teams t ON t.id = mine.team_id
+    WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = p_user_id
+      AND t.deleted_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Team members can view teammates' logs"
+  ON screen_time_logs FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL AND shares_team_with(user_id));
+
+-- Preview an invite without being a member (used by the /join page)
+CREATE OR REPLACE FUNCTION get_team_invite(invite_code text)
+RETURNS TABLE (
+  team_id uuid,
+  team_name text,
+  member_count bigint,
+  expires_at timestamptz,
+  status text
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    t.id AS team_id,
+    t.name AS team_name,
+    (SELECT COUNT(*) FROM team_members tm WHERE tm.team_id = t.id) AS member_count,
+    ti.expires_at,
+    CASE
+      WHEN ti.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN ti.expires_at <= now() THEN 'expired'
+      WHEN ti.max_uses IS NOT NULL AND ti.use_count >= ti.max_uses THEN 'exhausted'
+      ELSE 'valid'
+    END AS status
+  FROM team_invites ti
+  JOIN teams t ON t.id = ti.team_id
+  WHERE ti.code = upper(btrim(invite_code))
+    AND t.deleted_at IS NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Redeem an invite and join its team as a member
+CREATE OR REPLACE FUNCTION redeem_team_invite(invite_code text)
+RETURNS uuid AS $$
+DECLARE
+  v_invite team_invites;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT ti.* INTO v_invite
+  FROM team_invites ti
+  JOIN teams t ON t.id = ti.team_id
+  WHERE ti.code = upper(btrim(invite_code))
+    AND t.deleted_at IS NULL
+  FOR UPDATE OF ti;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  -- Already a member: nothing to redeem
+  IF EXISTS (
+    SELECT 1 FROM team_members tm
+    WHERE tm.team_id = v_invite.team_id AND tm.user_id = auth.uid()
+  ) THEN
+    RETURN v_invite.team_id;
+  END IF;
+
+  IF v_invite.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite has been revoked';
+  ELSIF v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite has expired';
+  ELSIF v_invite.max_uses IS NOT NULL AND v_invite.use_count >= v_invite.max_uses THEN
+    RAISE EXCEPTION 'This invite has already been used';
+  END IF;
+
+  INSERT INTO team_members (team_id, user_id, role)
+  VALUES (v_invite.team_id, auth.uid(), 'member');
+
+  UPDATE team_invites
+  SET use_count = use_count + 1
+  WHERE id = v_invite.id;
+
+  RETURN v_invite.team_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_team_invite(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_team_invite(text) TO authenticated;
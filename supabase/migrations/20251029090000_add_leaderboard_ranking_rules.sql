@@ -0,0 +1,184 @@
+/*
+  # Add Configurable Leaderboard Ranking Rules
+
+  ## Overview
+  `get_leaderboard()` used to order by total minutes descending, rewarding the most screen time.
+  Ranking direction is now configurable per deployment and per team, with lowest usage winning
+  by default. A log requirement rule keeps people from winning by simply not logging.
+
+  ## New Tables
+
+  ### 1. app_settings
+  Single-row table holding deployment-wide defaults
+  - `id` (boolean, primary key) - always true, enforces a single row
+  - `ranking_direction` (text) - lower_is_better or higher_is_better
+  - `log_requirement` (text) - any_week or every_week
+  - `created_at` (timestamptz) - creation timestamp
+  - `updated_at` (timestamptz) - last update timestamp
+
+  ## Modified Tables
+
+  ### 1. teams
+  - `ranking_direction` (text, nullable) - overrides the deployment default when set
+  - `log_requirement` (text, nullable) - overrides the deployment default when set
+
+  ## Ranking Rules
+  - `lower_is_better` ranks the lowest total screen time first
+  - `any_week` ranks everyone with at least one log in the period
+  - `every_week` only ranks members who logged every completed week of the period
+    (the current week counts for the "current week" period only; all-time falls back to `any_week`)
+
+  ## Functions
+  - `get_leaderboard_rules(scope_team_id)` - effective rules for a team or the global board
+  - `get_leaderboard(period, limit_count, scope_team_id)` - applies the effective rules
+
+  ## Important Notes
+  - Deployment defaults are changed with SQL (`UPDATE app_settings SET ...`); clients can only read them
+*/
+
+-- Deployment-wide settings (single row)
+CREATE TABLE IF NOT EXISTS app_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  ranking_direction text DEFAULT 'lower_is_better' NOT NULL
+    CHECK (ranking_direction IN ('lower_is_better', 'higher_is_better')),
+  log_requirement text DEFAULT 'any_week' NOT NULL
+    CHECK (log_requirement IN ('any_week', 'every_week')),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+INSERT INTO app_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read app settings"
+  ON app_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Per-team overrides (NULL inherits the deployment default)
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS ranking_direction text
+  CHECK (ranking_direction IN ('lower_is_better', 'higher_is_better'));
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS log_requirement text
+  CHECK (log_requirement IN ('any_week', 'every_week'));
+
+-- Effective ranking rules for a scope
+CREATE OR REPLACE FUNCTION get_leaderboard_rules(scope_team_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  ranking_direction text,
+  log_requirement text
+) AS $$
+BEGIN
+  IF scope_team_id IS NOT NULL AND NOT is_team_member(scope_team_id) THEN
+    RAISE EXCEPTION 'Not a member of this team' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(t.ranking_direction, s.ranking_direction, 'lower_is_better') AS ranking_direction,
+    COALESCE(t.log_requirement, s.log_requirement, 'any_week') AS log_requirement
+  FROM (SELECT 1) AS one
+  LEFT JOIN app_settings s ON s.id = true
+  LEFT JOIN teams t ON t.id = scope_team_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Recreate leaderboard function applying the ranking rules
+DROP FUNCTION IF EXISTS get_leaderboard(text, integer, uuid);
+
+CREATE OR REPLACE FUNCTION get_leaderboard(
+  period text DEFAULT 'weekly',
+  limit_count integer DEFAULT 100,
+  scope_team_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  avatar_url text,
+  total_minutes bigint,
+  current_streak integer,
+  rank bigint
+) AS $$
+DECLARE
+  start_date date;
+  v_current_week date;
+  v_direction text;
+  v_requirement text;
+  v_required_weeks integer;
+BEGIN
+  -- Also validates team membership
+  SELECT r.ranking_direction, r.log_requirement
+  INTO v_direction, v_requirement
+  FROM get_leaderboard_rules(scope_team_id) r;
+
+  v_current_week := CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer;
+
+  -- Determine date range based on period
+  CASE period
+    WHEN 'daily' THEN
+      -- For daily, show current week
+      start_date := v_current_week;
+    WHEN 'weekly' THEN
+      -- Last 4 weeks
+      start_date := v_current_week - 21;
+    WHEN 'monthly' THEN
+      -- Last 12 weeks (3 months)
+      start_date := v_current_week - 77;
+    WHEN 'all_time' THEN
+      start_date := '1900-01-01'::date;
+    ELSE
+      start_date := v_current_week - 21;
+  END CASE;
+
+  -- Weeks a member must have logged to be ranked
+  IF v_requirement = 'every_week' AND period = 'daily' THEN
+    v_required_weeks := 1;
+  ELSIF v_requirement = 'every_week' AND period <> 'all_time' THEN
+    -- Completed weeks only: the in-progress week is usually logged once it ends
+    v_required_weeks := (v_current_week - start_date) / 7;
+  ELSE
+    v_required_weeks := 0;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id AS user_id,
+    u.display_name,
+    u.avatar_url,
+    COALESCE(SUM(stl.minutes), 0)::bigint AS total_minutes,
+    COALESCE(us.current_streak, 0) AS current_streak,
+    RANK() OVER (
+      ORDER BY CASE
+        WHEN v_direction = 'lower_is_better' THEN COALESCE(SUM(stl.minutes), 0)
+        ELSE -COALESCE(SUM(stl.minutes), 0)
+      END ASC
+    ) AS rank
+  FROM users u
+  LEFT JOIN screen_time_logs stl ON stl.user_id = u.id
+    AND stl.week_start_date >= start_date
+    AND stl.deleted_at IS NULL
+  LEFT JOIN user_settings ust ON ust.user_id = u.id
+  LEFT JOIN user_streaks us ON us.user_id = u.id
+  WHERE u.deleted_at IS NULL
+    AND (ust.show_on_leaderboard = true OR ust.show_on_leaderboard IS NULL)
+    AND (
+      scope_team_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM team_members tm
+        WHERE tm.team_id = scope_team_id AND tm.user_id = u.id
+      )
+    )
+  GROUP BY u.id, u.display_name, u.avatar_url, us.current_streak
+  HAVING COUNT(stl.id) > 0
+    AND COUNT(DISTINCT stl.week_start_date) FILTER (
+      WHERE period = 'daily' OR stl.week_start_date < v_current_week
+    ) >= v_required_weeks
+  ORDER BY rank ASC, u.display_name ASC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
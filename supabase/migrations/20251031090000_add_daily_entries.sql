@@ -0,0 +1,200 @@
+/*
+  # Add Optional Daily Screen Time Entries
+
+  ## Overview
+  The weekly migration replaced per-day logging with one total per week. Users can now optionally
+  record each day of a week; the days roll up into the weekly `screen_time_logs.minutes` total so
+  the dashboard, leaderboard and streaks keep reading a single weekly value and weekly-only users
+  are unaffected.
+
+  ## New Tables
+
+  ### 1. screen_time_daily_entries
+  - `id` (uuid, primary key) - unique entry identifier
+  - `log_id` (uuid, foreign key) - the weekly log this day belongs to
+  - `user_id` (uuid, foreign key) - references users table, must match the weekly log
+  - `entry_date` (date) - the day, must fall inside the weekly log's week
+  - `minutes` (integer) - screen time for the day, 0 to 1,440
+  - `created_at` (timestamptz) - creation timestamp
+  - `updated_at` (timestamptz) - last update timestamp
+
+  ## Functions
+  - `save_screen_time_log(p_log_id, p_week_start, p_minutes, p_notes, p_daily_minutes)` - creates
+    the caller's log (or updates `p_log_id`) together with its seven days in one transaction;
+    returns the log id. Without `p_daily_minutes` the log is a weekly total and has no days
+
+  ## Triggers
+  - Entries are validated against their weekly log (owner and week range)
+  - Inserting, updating or deleting entries recalculates the weekly total
+  - Deleting the last entry keeps the weekly total as-is (the week falls back to weekly-only)
+
+  ## Security
+  - Users can only read and write their own daily entries
+  - `save_screen_time_log` runs with the caller's permissions, so it can only touch their own logs
+*/
+
+CREATE TABLE IF NOT EXISTS screen_time_daily_entries (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  log_id uuid NOT NULL REFERENCES screen_time_logs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entry_date date NOT NULL,
+  minutes integer NOT NULL CHECK (minutes >= 0 AND minutes <= 1440),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(log_id, entry_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_screen_time_daily_entries_log_id ON screen_time_daily_entries(log_id);
+CREATE INDEX IF NOT EXISTS idx_screen_time_daily_entries_user_date ON screen_time_daily_entries(user_id, entry_date DESC);
+
+ALTER TABLE screen_time_daily_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own daily entries"
+  ON screen_time_daily_entries FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own daily entries"
+  ON screen_time_daily_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own daily entries"
+  ON screen_time_daily_entries FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own daily entries"
+  ON screen_time_daily_entries FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_screen_time_daily_entries_updated_at
+  BEFORE UPDATE ON screen_time_daily_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Ensure a daily entry belongs to its weekly log's owner and week
+CREATE OR REPLACE FUNCTION validate_daily_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_log RECORD;
+BEGIN
+  SELECT user_id, week_start_date
+  INTO v_log
+  FROM screen_time_logs
+  WHERE id = NEW.log_id
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Weekly log % does not exist', NEW.log_id;
+  END IF;
+
+  IF v_log.user_id <> NEW.user_id THEN
+    RAISE EXCEPTION 'Daily entry must belong to the owner of the weekly log';
+  END IF;
+
+  IF NEW.entry_date < v_log.week_start_date OR NEW.entry_date > v_log.week_start_date + 6 THEN
+    RAISE EXCEPTION 'Daily entry % is outside the week starting %', NEW.entry_date, v_log.week_start_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_daily_entry_before_write
+  BEFORE INSERT OR UPDATE ON screen_time_daily_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_daily_entry();
+
+-- Roll daily entries up into the weekly total
+CREATE OR REPLACE FUNCTION rollup_daily_entries()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_log_id uuid;
+  v_total integer;
+  v_entry_count integer;
+BEGIN
+  v_log_id := COALESCE(NEW.log_id, OLD.log_id);
+
+  SELECT COALESCE(SUM(minutes), 0), COUNT(*)
+  INTO v_total, v_entry_count
+  FROM screen_time_daily_entries
+  WHERE log_id = v_log_id;
+
+  -- Keep the weekly value when the last day is removed
+  IF v_entry_count > 0 THEN
+    UPDATE screen_time_logs
+    SET minutes = v_total
+    WHERE id = v_log_id
+      AND minutes IS DISTINCT FROM v_total;
+  END IF;
+
+  -- An entry moved to another log: recalculate the old one too
+  IF TG_OP = 'UPDATE' AND OLD.log_id <> NEW.log_id THEN
+    UPDATE screen_time_logs
+    SET minutes = (
+      SELECT COALESCE(SUM(minutes), 0)
+      FROM screen_time_daily_entries
+      WHERE log_id = OLD.log_id
+    )
+    WHERE id = OLD.log_id
+      AND EXISTS (SELECT 1 FROM screen_time_daily_entries WHERE log_id = OLD.log_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER rollup_daily_entries_after_write
+  AFTER INSERT OR UPDATE OR DELETE ON screen_time_daily_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_daily_entries();
+
+-- Save a weekly log and its days at once, so a failed save never leaves it half-edited
+CREATE OR REPLACE FUNCTION save_screen_time_log(
+  p_log_id uuid,
+  p_week_start date,
+  p_minutes integer,
+  p_notes text DEFAULT NULL,
+  p_daily_minutes integer[] DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_log_id uuid := p_log_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_daily_minutes IS NOT NULL AND array_length(p_daily_minutes, 1) IS DISTINCT FROM 7 THEN
+    RAISE EXCEPTION 'Daily entries need all 7 days of the week' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_log_id IS NULL THEN
+    INSERT INTO screen_time_logs (user_id, week_start_date, minutes, notes)
+    VALUES (auth.uid(), p_week_start, p_minutes, p_notes)
+    RETURNING id INTO v_log_id;
+  ELSE
+    -- The week may have changed, so the old days go and all seven are written again below
+    DELETE FROM screen_time_daily_entries WHERE log_id = v_log_id;
+
+    UPDATE screen_time_logs
+    SET week_start_date = p_week_start, minutes = p_minutes, notes = p_notes
+    WHERE id = v_log_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Log not found';
+    END IF;
+  END IF;
+
+  IF p_daily_minutes IS NOT NULL THEN
+    INSERT INTO screen_time_daily_entries (log_id, user_id, entry_date, minutes)
+    SELECT v_log_id, auth.uid(), p_week_start + (d.day_number - 1)::integer, d.minutes
+    FROM unnest(p_daily_minutes) WITH ORDINALITY AS d(minutes, day_number);
+  END IF;
+
+  RETURN v_log_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,227 @@
+/*
+  # Add Screen Time Categories
+
+  ## Overview
+  A log used to be a weekly total plus free-text notes. Logs can now carry a structured breakdown
+  by category (social, video, games, work, ...) so users can see where their time actually goes.
+
+  ## New Tables
+
+  ### 1. screen_time_categories
+  Built-in categories (user_id NULL) plus user-defined additions
+  - `id` (uuid, primary key) - unique category identifier
+  - `user_id` (uuid, nullable) - owner of a custom category, NULL for built-ins
+  - `name` (text) - category name (1-40 characters)
+  - `color` (text) - hex color used in charts
+  - `sort_order` (integer) - display order, built-ins first
+  - `created_at` (timestamptz) - creation timestamp
+  - `updated_at` (timestamptz) - last update timestamp
+  - `deleted_at` (timestamptz, nullable) - soft delete timestamp
+
+  ### 2. screen_time_log_categories
+  Per-log minutes for each category
+  - `id` (uuid, primary key) - unique breakdown row identifier
+  - `log_id` (uuid, foreign key) - references screen_time_logs table
+  - `category_id` (uuid, foreign key) - references screen_time_categories table
+  - `user_id` (uuid, foreign key) - references users table, must match the log owner
+  - `minutes` (integer) - minutes spent in this category during the week
+  - `created_at` (timestamptz) - creation timestamp
+  - `updated_at` (timestamptz) - last update timestamp
+
+  ## Functions
+  - `save_screen_time_log(p_log_id, p_week_start, p_minutes, p_notes, p_daily_minutes,
+    p_categories)` - now also replaces the log's breakdown, given as a JSON array of
+    `{ category_id, minutes }`
+
+  ## Security
+  - Everyone can read built-in categories; custom categories are private to their owner
+  - Breakdown rows are private and can only reference the owner's logs and visible categories
+
+  ## Important Notes
+  - The breakdown is expected to sum to the weekly total; the log form enforces this
+*/
+
+CREATE TABLE IF NOT EXISTS screen_time_categories (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  color text DEFAULT '#6b7280' NOT NULL CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  sort_order integer DEFAULT 100 NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  deleted_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_screen_time_categories_unique_name
+  ON screen_time_categories(COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name))
+  WHERE deleted_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS screen_time_log_categories (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  log_id uuid NOT NULL REFERENCES screen_time_logs(id) ON DELETE CASCADE,
+  category_id uuid NOT NULL REFERENCES screen_time_categories(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  minutes integer NOT NULL CHECK (minutes >= 0 AND minutes <= 10080),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(log_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_screen_time_log_categories_log_id ON screen_time_log_categories(log_id);
+CREATE INDEX IF NOT EXISTS idx_screen_time_log_categories_user_id ON screen_time_log_categories(user_id);
+
+-- Built-in categories
+INSERT INTO screen_time_categories (user_id, name, color, sort_order)
+SELECT NULL, v.name, v.color, v.sort_order
+FROM (VALUES
+  ('Social', '#3b82f6', 10),
+  ('Video', '#ef4444', 20),
+  ('Games', '#a855f7', 30),
+  ('Messaging', '#06b6d4', 40),
+  ('Browsing', '#f59e0b', 50),
+  ('Work', '#22c55e', 60),
+  ('Other', '#6b7280', 90)
+) AS v(name, color, sort_order)
+WHERE NOT EXISTS (
+  SELECT 1 FROM screen_time_categories c
+  WHERE c.user_id IS NULL AND lower(c.name) = lower(v.name)
+);
+
+ALTER TABLE screen_time_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE screen_time_log_categories ENABLE ROW LEVEL SECURITY;
+
+-- Categories policies
+CREATE POLICY "Users can view built-in and own categories"
+  ON screen_time_categories FOR SELECT
+  TO authenticated
+  USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create own categories"
+  ON screen_time_categories FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own categories"
+  ON screen_time_categories FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Log categories policies
+CREATE POLICY "Users can view own log categories"
+  ON screen_time_log_categories FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own log categories"
+  ON screen_time_log_categories FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own log categories"
+  ON screen_time_log_categories FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own log categories"
+  ON screen_time_log_categories FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_screen_time_categories_updated_at
+  BEFORE UPDATE ON screen_time_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_screen_time_log_categories_updated_at
+  BEFORE UPDATE ON screen_time_log_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Ensure breakdown rows reference the owner's log and a category they can see
+CREATE OR REPLACE FUNCTION validate_log_category()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM screen_time_logs
+    WHERE id = NEW.log_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Category breakdown must belong to the owner of the log';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM screen_time_categories
+    WHERE id = NEW.category_id
+      AND (user_id IS NULL OR user_id = NEW.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Category % is not available', NEW.category_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_log_category_before_write
+  BEFORE INSERT OR UPDATE ON screen_time_log_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_log_category();
+
+-- Recreate the log save to replace the breakdown in the same transaction
+DROP FUNCTION IF EXISTS save_screen_time_log(uuid, date, integer, text, integer[]);
+
+CREATE OR REPLACE FUNCTION save_screen_time_log(
+  p_log_id uuid,
+  p_week_start date,
+  p_minutes integer,
+  p_notes text DEFAULT NULL,
+  p_daily_minutes integer[] DEFAULT NULL,
+  p_categories jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_log_id uuid := p_log_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_daily_minutes IS NOT NULL AND array_length(p_daily_minutes, 1) IS DISTINCT FROM 7 THEN
+    RAISE EXCEPTION 'Daily entries need all 7 days of the week' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_log_id IS NULL THEN
+    INSERT INTO screen_time_logs (user_id, week_start_date, minutes, notes)
+    VALUES (auth.uid(), p_week_start, p_minutes, p_notes)
+    RETURNING id INTO v_log_id;
+  ELSE
+    -- The week may have changed, so the old days go and all seven are written again below
+    DELETE FROM screen_time_daily_entries WHERE log_id = v_log_id;
+
+    UPDATE screen_time_logs
+    SET week_start_date = p_week_start, minutes = p_minutes, notes = p_notes
+    WHERE id = v_log_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Log not found';
+    END IF;
+  END IF;
+
+  IF p_daily_minutes IS NOT NULL THEN
+    INSERT INTO screen_time_daily_entries (log_id, user_id, entry_date, minutes)
+    SELECT v_log_id, auth.uid(), p_week_start + (d.day_number - 1)::integer, d.minutes
+    FROM unnest(p_daily_minutes) WITH ORDINALITY AS d(minutes, day_number);
+  END IF;
+
+  -- The breakdown is replaced wholesale so removed categories disappear
+  DELETE FROM screen_time_log_categories WHERE log_id = v_log_id;
+
+  INSERT INTO screen_time_log_categories (log_id, category_id, user_id, minutes)
+  SELECT v_log_id, c.category_id, auth.uid(), c.minutes
+  FROM jsonb_to_recordset(COALESCE(p_categories, '[]'::jsonb)) AS c(category_id uuid, minutes integer)
+  WHERE c.minutes > 0;
+
+  RETURN v_log_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
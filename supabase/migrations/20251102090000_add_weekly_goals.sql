@@ -0,0 +1,150 @@
+/*
+  # Add Weekly Screen Time Goals
+
+  ## Overview
+  Users can set a weekly target, either an absolute number of minutes or a percentage reduction
+  against their recent average. Every change is kept as a new row that applies from a given week
+  onwards, so past weeks are always judged against the goal that was active at the time.
+
+  ## New Tables
+
+  ### 1. weekly_goals
+  - `id` (uuid, primary key) - unique goal identifier
+  - `user_id` (uuid, foreign key) - references users table
+  - `goal_type` (text) - 'minutes', 'reduction_pct' or 'none' (goal cleared from this week on)
+  - `target_minutes` (integer, nullable) - weekly limit for 'minutes' goals
+  - `reduction_pct` (numeric, nullable) - percent reduction for 'reduction_pct' goals
+  - `baseline_minutes` (integer, nullable) - average of the (up to) 4 logged weeks before
+    `effective_week_start`, captured when a reduction goal is saved
+  - `effective_week_start` (date) - first week the goal applies to
+  - `created_at` (timestamptz) - creation timestamp
+  - `updated_at` (timestamptz) - last update timestamp
+
+  ## New Views
+
+  ### 1. weekly_goal_results
+  One row per logged week with the goal that applied to it
+  - `target_minutes` - the week's limit (reduction goals are converted using their baseline)
+  - `goal_met` - true when the week's total is at or under the target, NULL without a goal
+
+  ## Security
+  - Users can only read and write their own goals
+  - The results view runs with the caller's permissions, so it returns every log the caller can
+    see, teammates' included. Goals stay private, so other users' weeks come back without a
+    target; filter on `user_id` to get one user's results
+
+  ## Important Notes
+  - The goal for a week is the row with the latest `effective_week_start` on or before it
+  - Saving a goal twice in the same week updates that week's row instead of adding another
+*/
+
+CREATE TABLE IF NOT EXISTS weekly_goals (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  goal_type text NOT NULL CHECK (goal_type IN ('minutes', 'reduction_pct', 'none')),
+  target_minutes integer CHECK (target_minutes > 0 AND target_minutes <= 10080),
+  reduction_pct numeric(5, 2) CHECK (reduction_pct > 0 AND reduction_pct < 100),
+  baseline_minutes integer CHECK (baseline_minutes >= 0),
+  effective_week_start date NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(user_id, effective_week_start),
+  CHECK (
+    (goal_type = 'minutes' AND target_minutes IS NOT NULL AND reduction_pct IS NULL)
+    OR (goal_type = 'reduction_pct' AND reduction_pct IS NOT NULL AND target_minutes IS NULL)
+    OR (goal_type = 'none' AND target_minutes IS NULL AND reduction_pct IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_weekly_goals_user_week ON weekly_goals(user_id, effective_week_start DESC);
+
+ALTER TABLE weekly_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own goals"
+  ON weekly_goals FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own goals"
+  ON weekly_goals FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own goals"
+  ON weekly_goals FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_weekly_goals_updated_at
+  BEFORE UPDATE ON weekly_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Capture the baseline a reduction goal is measured against
+CREATE OR REPLACE FUNCTION set_goal_baseline()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.goal_type <> 'reduction_pct' THEN
+    NEW.baseline_minutes := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT ROUND(AVG(recent.minutes))::integer
+  INTO NEW.baseline_minutes
+  FROM (
+    SELECT minutes
+    FROM screen_time_logs
+    WHERE user_id = NEW.user_id
+      AND week_start_date < NEW.effective_week_start
+      AND deleted_at IS NULL
+    ORDER BY week_start_date DESC
+    LIMIT 4
+  ) recent;
+
+  IF NEW.baseline_minutes IS NULL THEN
+    RAISE EXCEPTION 'Log at least one earlier week before setting a reduction goal';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_goal_baseline_before_write
+  BEFORE INSERT OR UPDATE ON weekly_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION set_goal_baseline();
+
+-- Each logged week joined to the goal that applied to it
+CREATE OR REPLACE VIEW weekly_goal_results
+WITH (security_invoker = true) AS
+SELECT
+  l.id AS log_id,
+  l.user_id,
+  l.week_start_date,
+  l.minutes,
+  g.id AS goal_id,
+  g.goal_type,
+  target.target_minutes,
+  CASE
+    WHEN target.target_minutes IS NULL THEN NULL
+    ELSE l.minutes <= target.target_minutes
+  END AS goal_met
+FROM screen_time_logs l
+LEFT JOIN LATERAL (
+  SELECT wg.*
+  FROM weekly_goals wg
+  WHERE wg.user_id = l.user_id
+    AND wg.effective_week_start <= l.week_start_date
+  ORDER BY wg.effective_week_start DESC
+  LIMIT 1
+) g ON true
+LEFT JOIN LATERAL (
+  SELECT CASE g.goal_type
+    WHEN 'minutes' THEN g.target_minutes
+    WHEN 'reduction_pct' THEN ROUND(g.baseline_minutes * (1 - g.reduction_pct / 100))::integer
+  END AS target_minutes
+) target ON true
+WHERE l.deleted_at IS NULL;
+
+GRANT SELECT ON weekly_goal_results TO authenticated;
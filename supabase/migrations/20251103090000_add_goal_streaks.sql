@@ -0,0 +1,237 @@
+/*
+  # Add Goal-Based Streaks
+
+  ## Overview
+  The existing streak counts consecutive logged weeks, however much screen time they contain.
+  A second streak now counts consecutive weeks where the user stayed at or under their weekly
+  goal (see `weekly_goal_results`). It is stored next to the logging streak in `user_streaks`.
+
+  ## Modified Tables
+
+  ### 1. user_streaks
+  - `current_goal_streak` (integer) - consecutive goal-met weeks ending at the latest logged week
+  - `longest_goal_streak` (integer) - longest run of consecutive goal-met weeks
+
+  ## Functions
+  - `update_user_goal_streak(p_user_id)` - recalculates both goal streak columns from scratch
+  - `get_leaderboard(...)` - now also returns `current_goal_streak`
+
+  ## Triggers
+  - Recalculated whenever a log is inserted, updated or deleted, and whenever a goal changes,
+    because edits to either can change which weeks met their goal
+
+  ## Important Notes
+  - A missed week, an unlogged week or a week without a goal ends the goal streak
+  - The current week counts as soon as it is logged and drops out again if an edit pushes it
+    over the goal
+*/
+
+ALTER TABLE user_streaks ADD COLUMN IF NOT EXISTS current_goal_streak integer DEFAULT 0 NOT NULL;
+ALTER TABLE user_streaks ADD COLUMN IF NOT EXISTS longest_goal_streak integer DEFAULT 0 NOT NULL;
+
+-- Recalculate goal streaks from the per-week goal results
+CREATE OR REPLACE FUNCTION update_user_goal_streak(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_current integer := 0;
+  v_longest integer := 0;
+  v_latest_week date;
+  v_latest_met boolean;
+BEGIN
+  -- Consecutive goal-met weeks share the same run key
+  WITH runs AS (
+    SELECT
+      week_start_date,
+      week_start_date - (ROW_NUMBER() OVER (ORDER BY week_start_date) * 7)::integer AS run_key
+    FROM weekly_goal_results
+    WHERE user_id = p_user_id
+      AND goal_met
+  ),
+  run_lengths AS (
+    SELECT run_key, COUNT(*)::integer AS weeks, MAX(week_start_date) AS last_week
+    FROM runs
+    GROUP BY run_key
+  )
+  SELECT
+    COALESCE(MAX(weeks), 0),
+    COALESCE(MAX(weeks) FILTER (WHERE last_week = (
+      SELECT MAX(week_start_date) FROM weekly_goal_results WHERE user_id = p_user_id
+    )), 0)
+  INTO v_longest, v_current
+  FROM run_lengths;
+
+  INSERT INTO user_streaks (user_id, current_goal_streak, longest_goal_streak)
+  VALUES (p_user_id, v_current, v_longest)
+  ON CONFLICT (user_id) DO UPDATE
+  SET current_goal_streak = EXCLUDED.current_goal_streak,
+      longest_goal_streak = EXCLUDED.longest_goal_streak;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_goal_streak()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM update_user_goal_streak(COALESCE(NEW.user_id, OLD.user_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_goal_streak_on_log
+  AFTER INSERT OR UPDATE OR DELETE ON screen_time_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_goal_streak();
+
+CREATE TRIGGER refresh_goal_streak_on_goal
+  AFTER INSERT OR UPDATE OR DELETE ON weekly_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_goal_streak();
+
+-- Backfill existing users
+SELECT update_user_goal_streak(id) FROM users WHERE deleted_at IS NULL;
+
+-- Recreate leaderboard function with the goal streak column
+DROP FUNCTION IF EXISTS get_leaderboard(text, integer, uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION get_leaderboard(
+  period text DEFAULT 'weekly',
+  limit_count integer DEFAULT 100,
+  scope_team_id uuid DEFAULT NULL,
+  metric text DEFAULT 'total',
+  baseline_weeks integer DEFAULT 3
+)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  avatar_url text,
+  total_minutes bigint,
+  current_streak integer,
+  rank bigint,
+  baseline_minutes numeric,
+  improvement_pct numeric,
+  current_goal_streak integer
+) AS $$
+DECLARE
+  start_date date;
+  v_current_week date;
+  v_direction text;
+  v_requirement text;
+  v_required_weeks integer;
+BEGIN
+  -- Also validates team membership
+  SELECT r.ranking_direction, r.log_requirement
+  INTO v_direction, v_requirement
+  FROM get_leaderboard_rules(scope_team_id) r;
+
+  v_current_week := CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer;
+
+  -- Determine date range based on period
+  CASE period
+    WHEN 'daily' THEN
+      -- For daily, show current week
+      start_date := v_current_week;
+    WHEN 'weekly' THEN
+      -- Last 4 weeks
+      start_date := v_current_week - 21;
+    WHEN 'monthly' THEN
+      -- Last 12 weeks (3 months)
+      start_date := v_current_week - 77;
+    WHEN 'all_time' THEN
+      start_date := '1900-01-01'::date;
+    ELSE
+      start_date := v_current_week - 21;
+  END CASE;
+
+  -- Weeks a member must have logged to be ranked
+  IF v_requirement = 'every_week' AND period = 'daily' THEN
+    v_required_weeks := 1;
+  ELSIF v_requirement = 'every_week' AND period <> 'all_time' THEN
+    -- Completed weeks only: the in-progress week is usually logged once it ends
+    v_required_weeks := (v_current_week - start_date) / 7;
+  ELSE
+    v_required_weeks := 0;
+  END IF;
+
+  RETURN QUERY
+  WITH numbered_logs AS (
+    SELECT
+      l.user_id AS log_user_id,
+      l.week_start_date AS log_week,
+      l.minutes AS log_minutes,
+      ROW_NUMBER() OVER (PARTITION BY l.user_id ORDER BY l.week_start_date ASC) AS week_number
+    FROM screen_time_logs l
+    WHERE l.deleted_at IS NULL
+  ),
+  baselines AS (
+    SELECT
+      nl.log_user_id AS baseline_user_id,
+      AVG(nl.log_minutes) AS baseline_avg,
+      MAX(nl.log_week) AS baseline_end
+    FROM numbered_logs nl
+    WHERE nl.week_number <= baseline_weeks
+    GROUP BY nl.log_user_id
+    HAVING COUNT(*) >= baseline_weeks
+  ),
+  totals AS (
+    SELECT
+      u.id AS member_id,
+      u.display_name AS member_name,
+      u.avatar_url AS member_avatar,
+      COALESCE(SUM(stl.minutes), 0)::bigint AS total,
+      COALESCE(us.current_streak, 0) AS streak,
+      COALESCE(us.current_goal_streak, 0) AS goal_streak,
+      b.baseline_avg,
+      AVG(stl.minutes) FILTER (WHERE stl.week_start_date > b.baseline_end) AS post_baseline_avg
+    FROM users u
+    LEFT JOIN screen_time_logs stl ON stl.user_id = u.id
+      AND stl.week_start_date >= start_date
+      AND stl.deleted_at IS NULL
+    LEFT JOIN user_settings ust ON ust.user_id = u.id
+    LEFT JOIN user_streaks us ON us.user_id = u.id
+    LEFT JOIN baselines b ON b.baseline_user_id = u.id
+    WHERE u.deleted_at IS NULL
+      AND (ust.show_on_leaderboard = true OR ust.show_on_leaderboard IS NULL)
+      AND (
+        scope_team_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM team_members tm
+          WHERE tm.team_id = scope_team_id AND tm.user_id = u.id
+        )
+      )
+    GROUP BY u.id, u.display_name, u.avatar_url, us.current_streak, us.current_goal_streak,
+      b.baseline_avg, b.baseline_end
+    HAVING COUNT(stl.id) > 0
+      AND COUNT(DISTINCT stl.week_start_date) FILTER (
+        WHERE period = 'daily' OR stl.week_start_date < v_current_week
+      ) >= v_required_weeks
+  ),
+  scored AS (
+    SELECT
+      t.*,
+      CASE
+        WHEN t.baseline_avg > 0 AND t.post_baseline_avg IS NOT NULL
+          THEN ROUND((t.baseline_avg - t.post_baseline_avg) / t.baseline_avg * 100, 1)
+      END AS improvement
+    FROM totals t
+  )
+  SELECT
+    s.member_id AS user_id,
+    s.member_name AS display_name,
+    s.member_avatar AS avatar_url,
+    s.total AS total_minutes,
+    s.streak AS current_streak,
+    RANK() OVER (
+      ORDER BY CASE
+        WHEN metric = 'improvement' THEN -s.improvement
+        WHEN v_direction = 'lower_is_better' THEN s.total
+        ELSE -s.total
+      END ASC
+    ) AS rank,
+    ROUND(s.baseline_avg, 1) AS baseline_minutes,
+    s.improvement AS improvement_pct,
+    s.goal_streak AS current_goal_streak
+  FROM scored s
+  WHERE metric <> 'improvement' OR s.improvement IS NOT NULL
+  ORDER BY rank ASC, display_name ASC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,112 @@
+/*
+  # Recalculate Streaks From Live Logs
+
+  ## Overview
+  `update_user_streak()` only ran `AFTER INSERT` and adjusted the stored streak incrementally, so
+  soft-deleting a log, moving it to another week or back-filling an older missed week left
+  `current_streak` and `longest_streak` wrong. Streaks are now recalculated from scratch from the
+  user's live (not soft-deleted) logs whenever a log changes.
+
+  ## Functions
+  - `recalculate_user_streak(p_user_id)` - derives the logging streak and goal streak from the
+    user's live logs and writes them to `user_streaks`
+  - `rebuild_all_streaks()` - recalculates every user's streaks and returns the number of users
+    processed; only callable with the service role key
+  - Removed `update_user_streak()` and its `calculate_streak_on_log` trigger
+
+  ## Triggers
+  - `recalculate_streak_on_log` runs after a log is inserted or deleted, or its week, minutes or
+    `deleted_at` change. It replaces both `calculate_streak_on_log` and `refresh_goal_streak_on_log`
+
+  ## Important Notes
+  - `current_streak` is the run of consecutive logged weeks ending at the latest logged week
+  - `longest_streak` can now go down when logs are deleted
+  - Existing streaks are rebuilt at the end of this migration
+*/
+
+DROP TRIGGER IF EXISTS calculate_streak_on_log ON screen_time_logs;
+DROP TRIGGER IF EXISTS refresh_goal_streak_on_log ON screen_time_logs;
+DROP FUNCTION IF EXISTS update_user_streak();
+
+-- Derive both streaks from the user's live logs
+CREATE OR REPLACE FUNCTION recalculate_user_streak(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_current integer := 0;
+  v_longest integer := 0;
+  v_last_week date;
+BEGIN
+  SELECT MAX(week_start_date)
+  INTO v_last_week
+  FROM screen_time_logs
+  WHERE user_id = p_user_id
+    AND deleted_at IS NULL;
+
+  -- Consecutive weeks share the same run key
+  WITH weeks AS (
+    SELECT DISTINCT week_start_date
+    FROM screen_time_logs
+    WHERE user_id = p_user_id
+      AND deleted_at IS NULL
+  ),
+  runs AS (
+    SELECT
+      week_start_date,
+      week_start_date - (ROW_NUMBER() OVER (ORDER BY week_start_date) * 7)::integer AS run_key
+    FROM weeks
+  ),
+  run_lengths AS (
+    SELECT COUNT(*)::integer AS weeks, MAX(week_start_date) AS last_week
+    FROM runs
+    GROUP BY run_key
+  )
+  SELECT
+    COALESCE(MAX(weeks), 0),
+    COALESCE(MAX(weeks) FILTER (WHERE last_week = v_last_week), 0)
+  INTO v_longest, v_current
+  FROM run_lengths;
+
+  INSERT INTO user_streaks (user_id, current_streak, longest_streak, last_log_week_start)
+  VALUES (p_user_id, v_current, v_longest, v_last_week)
+  ON CONFLICT (user_id) DO UPDATE
+  SET current_streak = EXCLUDED.current_streak,
+      longest_streak = EXCLUDED.longest_streak,
+      last_log_week_start = EXCLUDED.last_log_week_start;
+
+  PERFORM update_user_goal_streak(p_user_id);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_user_streaks()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM recalculate_user_streak(COALESCE(NEW.user_id, OLD.user_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER recalculate_streak_on_log
+  AFTER INSERT OR DELETE OR UPDATE OF week_start_date, minutes, deleted_at ON screen_time_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_user_streaks();
+
+-- Rebuild every user's streaks (maintenance, e.g. after bulk data fixes)
+CREATE OR REPLACE FUNCTION rebuild_all_streaks()
+RETURNS integer AS $$
+DECLARE
+  v_user_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_user_id IN SELECT id FROM users WHERE deleted_at IS NULL LOOP
+    PERFORM recalculate_user_streak(v_user_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION rebuild_all_streaks() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rebuild_all_streaks() TO service_role;
+
+SELECT rebuild_all_streaks();
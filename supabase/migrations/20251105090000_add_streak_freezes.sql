@@ -0,0 +1,262 @@
+/*
+  # Add Streak Freezes
+
+  ## Overview
+  Missing a single week (travel, illness) used to reset a long streak. Users now hold a small
+  number of freeze tokens. Spending one on a missed week makes the streak treat that week as
+  continuous, without counting it as a logged week.
+
+  ## New Tables
+
+  ### 1. streak_freezes
+  - `id` (uuid, primary key) - unique freeze identifier
+  - `user_id` (uuid, foreign key) - references users table
+  - `week_start_date` (date) - the missed week the freeze covers
+  - `created_at` (timestamptz) - when the freeze was spent
+
+  ## Modified Tables
+
+  ### 1. user_streaks
+  - `freeze_tokens` (integer) - unspent freezes, at most 3
+  - `freezes_granted_month` (date, nullable) - first day of the last month a monthly token was granted
+  - `freeze_milestone` (integer) - how many 8-week streak milestones have already been rewarded
+
+  ## Functions
+  - `recalculate_user_streak(p_user_id)` - frozen weeks now bridge gaps between logged weeks;
+    also awards earned tokens and refunds freezes on weeks that have since been logged
+  - `refresh_streak_freezes()` - grants the caller's monthly token if due and returns the balance
+  - `use_streak_freeze(p_week_start)` - spends a token on one of the caller's missed weeks and
+    returns the remaining balance
+
+  ## Security
+  - Users can read their own freezes; freezes are only created through `use_streak_freeze`
+  - Users can no longer update `user_streaks` directly. Streaks and tokens are only written by
+    the streak functions, which now run as SECURITY DEFINER
+  - New streak rows must start without tokens
+
+  ## Important Notes
+  - Every calendar month grants 1 token, and every 8 weeks of longest streak earns 1 more
+  - A freeze can only cover a missed week within the last 4 finished weeks, after the first log
+  - Frozen weeks keep the logging streak going but do not add to its length. Goal streaks are
+    unaffected, since a frozen week has no screen time to compare against the goal
+*/
+
+CREATE TABLE IF NOT EXISTS streak_freezes (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  week_start_date date NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(user_id, week_start_date)
+);
+
+ALTER TABLE streak_freezes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own streak freezes"
+  ON streak_freezes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE user_streaks ADD COLUMN IF NOT EXISTS freeze_tokens integer DEFAULT 0 NOT NULL
+  CHECK (freeze_tokens >= 0 AND freeze_tokens <= 3);
+ALTER TABLE user_streaks ADD COLUMN IF NOT EXISTS freezes_granted_month date;
+ALTER TABLE user_streaks ADD COLUMN IF NOT EXISTS freeze_milestone integer DEFAULT 0 NOT NULL;
+
+DROP POLICY IF EXISTS "Users can update own streaks" ON user_streaks;
+DROP POLICY IF EXISTS "Users can insert own streaks" ON user_streaks;
+
+CREATE POLICY "Users can insert own streaks"
+  ON user_streaks FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND freeze_tokens = 0 AND freeze_milestone = 0);
+
+ALTER FUNCTION update_user_goal_streak(uuid) SECURITY DEFINER SET search_path = public;
+
+-- Derive both streaks from the user's live logs and frozen weeks
+CREATE OR REPLACE FUNCTION recalculate_user_streak(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_current integer := 0;
+  v_longest integer := 0;
+  v_last_week date;
+  v_refunded integer;
+BEGIN
+  -- A freeze on a week that has since been logged is no longer needed
+  WITH refunded AS (
+    DELETE FROM streak_freezes f
+    WHERE f.user_id = p_user_id
+      AND EXISTS (
+        SELECT 1
+        FROM screen_time_logs l
+        WHERE l.user_id = f.user_id
+          AND l.week_start_date = f.week_start_date
+          AND l.deleted_at IS NULL
+      )
+    RETURNING 1
+  )
+  SELECT COUNT(*)::integer INTO v_refunded FROM refunded;
+
+  SELECT MAX(week_start_date)
+  INTO v_last_week
+  FROM screen_time_logs
+  WHERE user_id = p_user_id
+    AND deleted_at IS NULL;
+
+  -- Consecutive weeks share the same run key; frozen weeks join runs but are not counted
+  WITH weeks AS (
+    SELECT DISTINCT week_start_date, true AS logged
+    FROM screen_time_logs
+    WHERE user_id = p_user_id
+      AND deleted_at IS NULL
+    UNION ALL
+    SELECT week_start_date, false AS logged
+    FROM streak_freezes
+    WHERE user_id = p_user_id
+  ),
+  runs AS (
+    SELECT
+      week_start_date,
+      logged,
+      week_start_date - (ROW_NUMBER() OVER (ORDER BY week_start_date) * 7)::integer AS run_key
+    FROM weeks
+  ),
+  run_lengths AS (
+    SELECT
+      COUNT(*) FILTER (WHERE logged)::integer AS weeks,
+      MIN(week_start_date) AS first_week,
+      MAX(week_start_date) AS last_week
+    FROM runs
+    GROUP BY run_key
+  )
+  SELECT
+    COALESCE(MAX(weeks), 0),
+    COALESCE(MAX(weeks) FILTER (WHERE v_last_week BETWEEN first_week AND last_week), 0)
+  INTO v_longest, v_current
+  FROM run_lengths;
+
+  -- One token per 8 weeks of longest streak, rewarded once per milestone
+  INSERT INTO user_streaks (
+    user_id, current_streak, longest_streak, last_log_week_start, freeze_tokens, freeze_milestone
+  )
+  VALUES (
+    p_user_id, v_current, v_longest, v_last_week, LEAST(v_refunded + v_longest / 8, 3), v_longest / 8
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET current_streak = EXCLUDED.current_streak,
+      longest_streak = EXCLUDED.longest_streak,
+      last_log_week_start = EXCLUDED.last_log_week_start,
+      freeze_tokens = LEAST(
+        user_streaks.freeze_tokens + v_refunded + GREATEST(v_longest / 8 - user_streaks.freeze_milestone, 0),
+        3
+      ),
+      freeze_milestone = GREATEST(user_streaks.freeze_milestone, v_longest / 8);
+
+  PERFORM update_user_goal_streak(p_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant this month's token if it has not been granted yet
+CREATE OR REPLACE FUNCTION grant_monthly_streak_freeze(p_user_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE user_streaks
+  SET freeze_tokens = LEAST(freeze_tokens + 1, 3),
+      freezes_granted_month = date_trunc('month', CURRENT_DATE)::date
+  WHERE user_id = p_user_id
+    AND (freezes_granted_month IS NULL OR freezes_granted_month < date_trunc('month', CURRENT_DATE)::date);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION grant_monthly_streak_freeze(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_streak_freezes()
+RETURNS integer AS $$
+DECLARE
+  v_tokens integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM grant_monthly_streak_freeze(auth.uid());
+
+  SELECT freeze_tokens INTO v_tokens
+  FROM user_streaks
+  WHERE user_id = auth.uid();
+
+  RETURN COALESCE(v_tokens, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION use_streak_freeze(p_week_start date)
+RETURNS integer AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_tokens integer;
+  v_first_week date;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM grant_monthly_streak_freeze(v_user_id);
+
+  SELECT freeze_tokens INTO v_tokens
+  FROM user_streaks
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  IF COALESCE(v_tokens, 0) < 1 THEN
+    RAISE EXCEPTION 'No streak freezes left';
+  END IF;
+
+  IF EXTRACT(DOW FROM p_week_start) <> 0 THEN
+    RAISE EXCEPTION 'Weeks start on Sunday';
+  END IF;
+
+  -- One of the last 4 finished weeks, with a day of slack for time zones
+  IF p_week_start > CURRENT_DATE - 7 OR p_week_start < CURRENT_DATE - 36 THEN
+    RAISE EXCEPTION 'Freezes can only cover one of the last 4 weeks';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM screen_time_logs
+    WHERE user_id = v_user_id
+      AND week_start_date = p_week_start
+      AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'You already logged that week';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM streak_freezes WHERE user_id = v_user_id AND week_start_date = p_week_start) THEN
+    RAISE EXCEPTION 'That week is already frozen';
+  END IF;
+
+  SELECT MIN(week_start_date) INTO v_first_week
+  FROM screen_time_logs
+  WHERE user_id = v_user_id
+    AND deleted_at IS NULL;
+
+  IF v_first_week IS NULL OR p_week_start < v_first_week THEN
+    RAISE EXCEPTION 'Freezes can only cover weeks after your first log';
+  END IF;
+
+  INSERT INTO streak_freezes (user_id, week_start_date)
+  VALUES (v_user_id, p_week_start);
+
+  UPDATE user_streaks
+  SET freeze_tokens = freeze_tokens - 1
+  WHERE user_id = v_user_id;
+
+  PERFORM recalculate_user_streak(v_user_id);
+
+  SELECT freeze_tokens INTO v_tokens
+  FROM user_streaks
+  WHERE user_id = v_user_id;
+
+  RETURN v_tokens;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Award tokens for streaks users already have
+SELECT rebuild_all_streaks();
@@ -0,0 +1,220 @@
+/*
+  # Add Achievements
+
+  ## Overview
+  Badges are awarded on the server when a user reaches a milestone, so they cannot be claimed
+  from the client and stay consistent across devices. Badge names and descriptions live in the
+  app (`src/lib/achievements.ts`); the database only stores which badges were earned and when.
+
+  ## New Tables
+
+  ### 1. achievements
+  - `id` (uuid, primary key) - unique achievement identifier
+  - `user_id` (uuid, foreign key) - references users table
+  - `badge` (text) - which badge was earned
+  - `earned_at` (timestamptz) - when it was awarded
+  - `notified_at` (timestamptz, nullable) - when the app told the user about it
+
+  ## Badges
+  - `first_log` - logged a first week
+  - `streak_4`, `streak_12`, `streak_52` - longest logging streak of 4, 12 or 52 weeks
+  - `first_goal_met` - finished a week at or under the weekly goal
+  - `biggest_reduction` - the largest drop against the previous 4 logged weeks of everyone on the
+    global leaderboard for a finished week
+  - `top_3` - finished a week in the top 3 of the global leaderboard, ranked by its ranking direction
+
+  ## Functions
+  - `award_achievements(p_user_id, p_weeks)` - awards every badge the user qualifies for and does
+    not have; leaderboard badges are only checked for `p_weeks`, or for every finished week the
+    user logged when it is NULL (internal)
+  - `claim_achievements()` - awards the caller's badges and returns the ones not yet notified,
+    marking them as notified
+
+  ## Security
+  - Users can only read their own achievements; rows are only written by the functions above
+  - The streak triggers now run as definer so they can award badges
+
+  ## Important Notes
+  - Badges are checked whenever a log or goal changes, and when the app calls
+    `claim_achievements()`, which picks up leaderboard finishes caused by other users' logs
+  - A log change only ranks the weeks it touched, and a goal change ranks none, so saving a log
+    (or importing many) never ranks every week of every user
+  - Leaderboard badges need at least 5 ranked users in the week and only count users shown on the
+    leaderboard
+  - Badges are never taken away, even if the log that earned them is deleted
+  - Badges already earned before this migration are awarded without a notification
+*/
+
+CREATE TABLE IF NOT EXISTS achievements (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  badge text NOT NULL CHECK (badge IN (
+    'first_log', 'streak_4', 'streak_12', 'streak_52', 'first_goal_met', 'biggest_reduction', 'top_3'
+  )),
+  earned_at timestamptz DEFAULT now() NOT NULL,
+  notified_at timestamptz,
+  UNIQUE(user_id, badge)
+);
+
+ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own achievements"
+  ON achievements FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Award every badge the user qualifies for
+CREATE OR REPLACE FUNCTION award_achievements(p_user_id uuid, p_weeks date[] DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_longest integer;
+  v_current_week date;
+  v_top_3 boolean;
+  v_biggest_reduction boolean;
+  v_direction text;
+BEGIN
+  SELECT r.ranking_direction INTO v_direction
+  FROM get_leaderboard_rules(NULL) r;
+
+  SELECT longest_streak INTO v_longest
+  FROM user_streaks
+  WHERE user_id = p_user_id;
+
+  v_current_week := CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer;
+
+  -- Finished weeks the user logged, limited to p_weeks when given
+  WITH weeks AS (
+    SELECT DISTINCT l.week_start_date
+    FROM screen_time_logs l
+    WHERE l.user_id = p_user_id
+      AND l.deleted_at IS NULL
+      AND l.week_start_date < v_current_week
+      AND (p_weeks IS NULL OR l.week_start_date = ANY (p_weeks))
+  ),
+  ranked_users AS (
+    SELECT u.id
+    FROM users u
+    LEFT JOIN user_settings ust ON ust.user_id = u.id
+    WHERE u.deleted_at IS NULL
+      AND (ust.show_on_leaderboard = true OR ust.show_on_leaderboard IS NULL)
+  ),
+  -- Everyone on the global leaderboard in those weeks, against their previous 4 logged weeks
+  weekly AS (
+    SELECT
+      l.user_id,
+      l.week_start_date,
+      l.minutes,
+      b.baseline,
+      b.baseline_weeks
+    FROM screen_time_logs l
+    JOIN weeks w ON w.week_start_date = l.week_start_date
+    JOIN ranked_users ru ON ru.id = l.user_id
+    CROSS JOIN LATERAL (
+      SELECT AVG(recent.minutes) AS baseline, COUNT(*) AS baseline_weeks
+      FROM (
+        SELECT prev.minutes
+        FROM screen_time_logs prev
+        WHERE prev.user_id = l.user_id
+          AND prev.deleted_at IS NULL
+          AND prev.week_start_date < l.week_start_date
+        ORDER BY prev.week_start_date DESC
+        LIMIT 4
+      ) recent
+    ) b
+    WHERE l.deleted_at IS NULL
+  ),
+  scored AS (
+    SELECT
+      w.*,
+      CASE
+        WHEN w.baseline_weeks = 4 AND w.baseline > 0 THEN (w.baseline - w.minutes) / w.baseline
+      END AS reduction
+    FROM weekly w
+  ),
+  finishes AS (
+    SELECT
+      s.user_id,
+      s.reduction,
+      RANK() OVER (
+        PARTITION BY s.week_start_date
+        ORDER BY CASE WHEN v_direction = 'lower_is_better' THEN s.minutes ELSE -s.minutes END ASC
+      ) AS total_rank,
+      RANK() OVER (PARTITION BY s.week_start_date ORDER BY s.reduction DESC NULLS LAST) AS reduction_rank,
+      COUNT(*) OVER (PARTITION BY s.week_start_date) AS participants
+    FROM scored s
+  )
+  SELECT
+    COALESCE(bool_or(f.total_rank <= 3), false),
+    COALESCE(bool_or(f.reduction_rank = 1 AND f.reduction > 0), false)
+  INTO v_top_3, v_biggest_reduction
+  FROM finishes f
+  WHERE f.user_id = p_user_id
+    AND f.participants >= 5;
+
+  INSERT INTO achievements (user_id, badge)
+  SELECT p_user_id, earned.badge
+  FROM (
+    SELECT 'first_log' AS badge
+    WHERE EXISTS (SELECT 1 FROM screen_time_logs WHERE user_id = p_user_id AND deleted_at IS NULL)
+    UNION ALL
+    SELECT 'streak_4' WHERE v_longest >= 4
+    UNION ALL
+    SELECT 'streak_12' WHERE v_longest >= 12
+    UNION ALL
+    SELECT 'streak_52' WHERE v_longest >= 52
+    UNION ALL
+    SELECT 'first_goal_met'
+    WHERE EXISTS (SELECT 1 FROM weekly_goal_results WHERE user_id = p_user_id AND goal_met)
+    UNION ALL
+    SELECT 'biggest_reduction' WHERE v_biggest_reduction
+    UNION ALL
+    SELECT 'top_3' WHERE v_top_3
+  ) earned
+  ON CONFLICT (user_id, badge) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION award_achievements(uuid, date[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION claim_achievements()
+RETURNS TABLE (badge text, earned_at timestamptz) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM award_achievements(auth.uid());
+
+  RETURN QUERY
+  UPDATE achievements a
+  SET notified_at = now()
+  WHERE a.user_id = auth.uid()
+    AND a.notified_at IS NULL
+  RETURNING a.badge, a.earned_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Check badges whenever streaks are recalculated
+CREATE OR REPLACE FUNCTION refresh_user_streaks()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM recalculate_user_streak(COALESCE(NEW.user_id, OLD.user_id));
+  -- Only the weeks this log was in can have new leaderboard finishes
+  PERFORM award_achievements(COALESCE(NEW.user_id, OLD.user_id), ARRAY[NEW.week_start_date, OLD.week_start_date]);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION refresh_goal_streak()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM update_user_goal_streak(COALESCE(NEW.user_id, OLD.user_id));
+  -- Leaderboard finishes are left to the streak trigger, which also runs for logs
+  PERFORM award_achievements(COALESCE(NEW.user_id, OLD.user_id), '{}');
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Award existing milestones silently
+SELECT award_achievements(id) FROM users WHERE deleted_at IS NULL;
+UPDATE achievements SET notified_at = now() WHERE notified_at IS NULL;
@@ -0,0 +1,321 @@
+/*
+  # Add Team Challenges
+
+  ## Overview
+  Team owners and admins can run time-boxed challenges (e.g. a monthly digital detox) over a
+  range of weeks. Members opt in, follow a live challenge leaderboard, and once the last week is
+  over the standings are frozen into a results snapshot with the winner.
+
+  ## New Tables
+
+  ### 1. challenges
+  - `id` (uuid, primary key) - unique challenge identifier
+  - `team_id` (uuid, foreign key) - team running the challenge
+  - `name` (text) - challenge name
+  - `description` (text, nullable) - optional details shown to members
+  - `start_week` (date) - first week that counts
+  - `end_week` (date) - last week that counts
+  - `rule` (text) - how participants are ranked:
+    - 'lowest_total' - least screen time over the challenge; members who logged more of the
+      challenge weeks rank ahead of those who skipped weeks
+    - 'biggest_reduction' - largest drop of the weekly average against the average of the
+      (up to) 4 logged weeks before the challenge
+    - 'under_target_weeks' - most weeks at or under `target_minutes`, ties go to the lower total
+  - `target_minutes` (integer, nullable) - weekly limit for 'under_target_weeks'
+  - `created_by` (uuid, nullable) - admin who created the challenge
+  - `finalized_at` (timestamptz, nullable) - when the results snapshot was taken
+  - `created_at` (timestamptz) - creation timestamp
+  - `updated_at` (timestamptz) - last update timestamp
+
+  ### 2. challenge_participants
+  - `id` (uuid, primary key) - unique participation identifier
+  - `challenge_id` (uuid, foreign key) - references challenges table
+  - `user_id` (uuid, foreign key) - participating user
+  - `joined_at` (timestamptz) - when the user opted in
+
+  ### 3. challenge_results
+  Frozen final standings, one row per participant
+  - `challenge_id`, `user_id` - the participant
+  - `display_name` (text) - display name at the time the results were frozen
+  - `total_minutes`, `weeks_logged`, `baseline_minutes`, `score` - the participant's numbers
+  - `rank` (bigint, nullable) - final position (1 is the winner), NULL without any log
+
+  ## Functions
+  - `compute_challenge_standings(p_challenge_id)` - live standings (internal)
+  - `get_challenge_standings(p_challenge_id)` - standings for team members; freezes the results the
+    first time it is called after the last challenge week has ended, and returns the snapshot
+    from then on
+
+  ## Security
+  - Team members can view their team's challenges, participants and results
+  - Only owners and admins can create or delete challenges; challenges cannot be edited
+  - Members can join or leave a challenge themselves until it has ended
+  - Results are only written by `get_challenge_standings`
+*/
+
+CREATE TABLE IF NOT EXISTS challenges (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  description text CHECK (char_length(description) <= 500),
+  start_week date NOT NULL,
+  end_week date NOT NULL,
+  rule text NOT NULL CHECK (rule IN ('lowest_total', 'biggest_reduction', 'under_target_weeks')),
+  target_minutes integer CHECK (target_minutes > 0 AND target_minutes <= 10080),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  finalized_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (end_week >= start_week AND end_week - start_week <= 7 * 51),
+  CHECK ((rule = 'under_target_weeks') = (target_minutes IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS challenge_participants (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  challenge_id uuid NOT NULL REFERENCES challenges(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  joined_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(challenge_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS challenge_results (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  challenge_id uuid NOT NULL REFERENCES challenges(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  display_name text NOT NULL,
+  total_minutes bigint NOT NULL,
+  weeks_logged integer NOT NULL,
+  baseline_minutes numeric,
+  score numeric,
+  rank bigint,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(challenge_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenges_team_id ON challenges(team_id, start_week DESC);
+CREATE INDEX IF NOT EXISTS idx_challenge_participants_user_id ON challenge_participants(user_id);
+
+ALTER TABLE challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE challenge_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE challenge_results ENABLE ROW LEVEL SECURITY;
+
+-- Challenges policies
+CREATE POLICY "Members can view team challenges"
+  ON challenges FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+CREATE POLICY "Admins can create team challenges"
+  ON challenges FOR INSERT
+  TO authenticated
+  WITH CHECK (is_team_admin(team_id) AND auth.uid() = created_by AND finalized_at IS NULL);
+
+CREATE POLICY "Admins can delete team challenges"
+  ON challenges FOR DELETE
+  TO authenticated
+  USING (is_team_admin(team_id));
+
+-- Challenge participants policies
+CREATE POLICY "Members can view challenge participants"
+  ON challenge_participants FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM challenges c
+      WHERE c.id = challenge_id AND is_team_member(c.team_id)
+    )
+  );
+
+CREATE POLICY "Members can join running challenges"
+  ON challenge_participants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM challenges c
+      WHERE c.id = challenge_id
+        AND is_team_member(c.team_id)
+        AND c.finalized_at IS NULL
+        AND CURRENT_DATE < c.end_week + 7
+    )
+  );
+
+CREATE POLICY "Members can leave running challenges"
+  ON challenge_participants FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM challenges c
+      WHERE c.id = challenge_id
+        AND c.finalized_at IS NULL
+        AND CURRENT_DATE < c.end_week + 7
+    )
+  );
+
+-- Challenge results policies
+CREATE POLICY "Members can view challenge results"
+  ON challenge_results FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM challenges c
+      WHERE c.id = challenge_id AND is_team_member(c.team_id)
+    )
+  );
+
+CREATE TRIGGER update_challenges_updated_at
+  BEFORE UPDATE ON challenges
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Live standings of every participant
+CREATE OR REPLACE FUNCTION compute_challenge_standings(p_challenge_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  avatar_url text,
+  total_minutes bigint,
+  weeks_logged integer,
+  baseline_minutes numeric,
+  score numeric,
+  rank bigint
+) AS $$
+  WITH challenge AS (
+    SELECT * FROM challenges WHERE id = p_challenge_id
+  ),
+  member_logs AS (
+    SELECT
+      p.user_id AS member_id,
+      COALESCE(SUM(l.minutes), 0)::bigint AS total,
+      COUNT(l.id)::integer AS weeks,
+      COUNT(l.id) FILTER (WHERE l.minutes <= c.target_minutes)::integer AS under_weeks,
+      AVG(l.minutes) AS challenge_avg
+    FROM challenge c
+    JOIN challenge_participants p ON p.challenge_id = c.id
+    LEFT JOIN screen_time_logs l ON l.user_id = p.user_id
+      AND l.week_start_date BETWEEN c.start_week AND c.end_week
+      AND l.deleted_at IS NULL
+    GROUP BY p.user_id
+  ),
+  baselines AS (
+    SELECT p.user_id AS member_id, AVG(recent.minutes) AS baseline
+    FROM challenge c
+    JOIN challenge_participants p ON p.challenge_id = c.id
+    CROSS JOIN LATERAL (
+      SELECT l.minutes
+      FROM screen_time_logs l
+      WHERE l.user_id = p.user_id
+        AND l.week_start_date < c.start_week
+        AND l.deleted_at IS NULL
+      ORDER BY l.week_start_date DESC
+      LIMIT 4
+    ) recent
+    GROUP BY p.user_id
+  ),
+  scored AS (
+    SELECT
+      ml.*,
+      b.baseline,
+      c.rule,
+      CASE
+        WHEN ml.weeks = 0 THEN NULL
+        WHEN c.rule = 'lowest_total' THEN ml.total::numeric
+        WHEN c.rule = 'biggest_reduction' AND b.baseline > 0
+          THEN ROUND((b.baseline - ml.challenge_avg) / b.baseline * 100, 1)
+        WHEN c.rule = 'under_target_weeks' THEN ml.under_weeks::numeric
+      END AS member_score
+    FROM member_logs ml
+    CROSS JOIN challenge c
+    LEFT JOIN baselines b ON b.member_id = ml.member_id
+  ),
+  ranked AS (
+    SELECT
+      s.*,
+      RANK() OVER (
+        ORDER BY
+          s.member_score IS NULL,
+          CASE WHEN s.rule = 'lowest_total' THEN s.weeks END DESC,
+          CASE WHEN s.rule = 'lowest_total' THEN s.member_score ELSE -s.member_score END,
+          s.total
+      ) AS member_rank
+    FROM scored s
+  )
+  SELECT
+    r.member_id,
+    u.display_name,
+    u.avatar_url,
+    r.total,
+    r.weeks,
+    ROUND(r.baseline, 1),
+    r.member_score,
+    CASE WHEN r.member_score IS NOT NULL THEN r.member_rank END
+  FROM ranked r
+  JOIN users u ON u.id = r.member_id
+  ORDER BY r.member_rank, u.display_name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION compute_challenge_standings(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Standings for team members, frozen once the challenge is over
+CREATE OR REPLACE FUNCTION get_challenge_standings(p_challenge_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  avatar_url text,
+  total_minutes bigint,
+  weeks_logged integer,
+  baseline_minutes numeric,
+  score numeric,
+  rank bigint
+) AS $$
+DECLARE
+  v_challenge challenges;
+BEGIN
+  SELECT * INTO v_challenge
+  FROM challenges c
+  WHERE c.id = p_challenge_id;
+
+  IF NOT FOUND OR NOT is_team_member(v_challenge.team_id) THEN
+    RAISE EXCEPTION 'Challenge not found';
+  END IF;
+
+  IF v_challenge.finalized_at IS NULL AND CURRENT_DATE >= v_challenge.end_week + 7 THEN
+    -- Re-check under a lock so concurrent viewers only snapshot once
+    SELECT * INTO v_challenge
+    FROM challenges c
+    WHERE c.id = p_challenge_id
+    FOR UPDATE;
+
+    IF v_challenge.finalized_at IS NULL THEN
+      INSERT INTO challenge_results (
+        challenge_id, user_id, display_name, total_minutes, weeks_logged, baseline_minutes, score, rank
+      )
+      SELECT
+        p_challenge_id, s.user_id, s.display_name, s.total_minutes, s.weeks_logged,
+        s.baseline_minutes, s.score, s.rank
+      FROM compute_challenge_standings(p_challenge_id) s;
+
+      UPDATE challenges c
+      SET finalized_at = now()
+      WHERE c.id = p_challenge_id;
+
+      v_challenge.finalized_at := now();
+    END IF;
+  END IF;
+
+  IF v_challenge.finalized_at IS NOT NULL THEN
+    RETURN QUERY
+    SELECT
+      r.user_id, r.display_name, u.avatar_url, r.total_minutes, r.weeks_logged,
+      r.baseline_minutes, r.score, r.rank
+    FROM challenge_results r
+    LEFT JOIN users u ON u.id = r.user_id
+    WHERE r.challenge_id = p_challenge_id
+    ORDER BY r.rank NULLS LAST, r.display_name;
+  ELSE
+    RETURN QUERY
+    SELECT * FROM compute_challenge_standings(p_challenge_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
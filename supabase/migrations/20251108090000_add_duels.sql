@@ -0,0 +1,203 @@
+/*
+  # Add Head-to-Head Duels
+
+  ## Overview
+  Besides whole-team leaderboards and challenges, any user can challenge another user to a
+  friendly 1v1 duel over a span of weeks. The opponent accepts or declines, and an accepted duel
+  compares both users' weekly screen time side by side. Duels are not tied to a team, so only
+  users who show up on the leaderboard can duel, and a user who later hides from the leaderboard
+  also hides their duel numbers.
+
+  ## New Tables
+
+  ### 1. duels
+  - `id` (uuid, primary key) - unique duel identifier
+  - `challenger_id` (uuid, foreign key) - user who proposed the duel
+  - `opponent_id` (uuid, foreign key) - user who was challenged
+  - `start_week` (date) - first week that counts
+  - `end_week` (date) - last week that counts
+  - `status` (text) - 'pending', 'accepted', 'declined' or 'cancelled'
+  - `responded_at` (timestamptz, nullable) - when the duel left the 'pending' status
+  - `created_at` (timestamptz) - creation timestamp
+  - `updated_at` (timestamptz) - last update timestamp
+
+  ## Functions
+  - `is_leaderboard_visible(p_user_id)` - whether a user is shown on leaderboards
+  - `respond_to_duel(p_duel_id, p_status)` - the opponent accepts or declines, the challenger
+    cancels; only pending duels can be answered
+  - `get_duel_weeks(p_duel_id)` - one row per duel week with both users' minutes
+
+  ## Security
+  - Only the two users of a duel can see it
+  - Users can only challenge someone else, both users must be shown on the leaderboard, and a
+    pair can only have one pending duel at a time
+  - Status changes go through `respond_to_duel`; duels cannot be edited directly
+  - `get_duel_weeks` only returns minutes of accepted duels, and never returns the other user's
+    minutes while they are hidden from the leaderboard
+
+  ## Important Notes
+  - `start_week` and `end_week` must be Sundays, like `week_start_date` on logs
+  - The running score is computed by the client: each week both users logged goes to whoever had
+    less screen time, ties score for nobody
+*/
+
+CREATE TABLE IF NOT EXISTS duels (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  challenger_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  opponent_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  start_week date NOT NULL,
+  end_week date NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+  responded_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (challenger_id <> opponent_id),
+  CHECK (end_week >= start_week AND end_week - start_week <= 7 * 11),
+  CHECK (EXTRACT(DOW FROM start_week) = 0 AND EXTRACT(DOW FROM end_week) = 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duels_challenger_id ON duels(challenger_id, start_week DESC);
+CREATE INDEX IF NOT EXISTS idx_duels_opponent_id ON duels(opponent_id, start_week DESC);
+
+-- One open invitation per pair, whoever sent it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_duels_one_pending_per_pair
+  ON duels (LEAST(challenger_id, opponent_id), GREATEST(challenger_id, opponent_id))
+  WHERE status = 'pending';
+
+ALTER TABLE duels ENABLE ROW LEVEL SECURITY;
+
+-- Whether a user is shown on leaderboards (missing settings count as shown)
+CREATE OR REPLACE FUNCTION is_leaderboard_visible(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users u
+    LEFT JOIN user_settings ust ON ust.user_id = u.id
+    WHERE u.id = p_user_id
+      AND u.deleted_at IS NULL
+      AND (ust.show_on_leaderboard = true OR ust.show_on_leaderboard IS NULL)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Duels policies
+CREATE POLICY "Users can view own duels"
+  ON duels FOR SELECT
+  TO authenticated
+  USING (auth.uid() IN (challenger_id, opponent_id));
+
+CREATE POLICY "Users can challenge visible users"
+  ON duels FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = challenger_id
+    AND status = 'pending'
+    AND responded_at IS NULL
+    AND CURRENT_DATE < end_week + 7
+    AND is_leaderboard_visible(challenger_id)
+    AND is_leaderboard_visible(opponent_id)
+  );
+
+CREATE TRIGGER update_duels_updated_at
+  BEFORE UPDATE ON duels
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Accept, decline or cancel a pending duel
+CREATE OR REPLACE FUNCTION respond_to_duel(p_duel_id uuid, p_status text)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_duel duels;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_duel
+  FROM duels d
+  WHERE d.id = p_duel_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id NOT IN (v_duel.challenger_id, v_duel.opponent_id) THEN
+    RAISE EXCEPTION 'Duel not found';
+  END IF;
+
+  IF v_duel.status <> 'pending' THEN
+    RAISE EXCEPTION 'This duel has already been answered';
+  END IF;
+
+  IF p_status IN ('accepted', 'declined') THEN
+    IF v_user_id <> v_duel.opponent_id THEN
+      RAISE EXCEPTION 'Only the challenged user can answer a duel';
+    END IF;
+  ELSIF p_status = 'cancelled' THEN
+    IF v_user_id <> v_duel.challenger_id THEN
+      RAISE EXCEPTION 'Only the challenger can cancel a duel';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Invalid duel status: %', p_status;
+  END IF;
+
+  IF p_status = 'accepted' THEN
+    IF CURRENT_DATE >= v_duel.end_week + 7 THEN
+      RAISE EXCEPTION 'This duel has already ended';
+    END IF;
+
+    IF NOT is_leaderboard_visible(v_duel.challenger_id) OR NOT is_leaderboard_visible(v_duel.opponent_id) THEN
+      RAISE EXCEPTION 'Both users must be shown on the leaderboard to duel';
+    END IF;
+  END IF;
+
+  UPDATE duels d
+  SET status = p_status, responded_at = now()
+  WHERE d.id = p_duel_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Weekly minutes of both users, hiding the other user while they are off the leaderboard
+CREATE OR REPLACE FUNCTION get_duel_weeks(p_duel_id uuid)
+RETURNS TABLE (
+  week_start_date date,
+  challenger_minutes integer,
+  opponent_minutes integer,
+  challenger_hidden boolean,
+  opponent_hidden boolean
+) AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_duel duels;
+  v_challenger_hidden boolean;
+  v_opponent_hidden boolean;
+BEGIN
+  SELECT * INTO v_duel
+  FROM duels d
+  WHERE d.id = p_duel_id;
+
+  IF NOT FOUND OR v_user_id IS NULL OR v_user_id NOT IN (v_duel.challenger_id, v_duel.opponent_id) THEN
+    RAISE EXCEPTION 'Duel not found';
+  END IF;
+
+  IF v_duel.status <> 'accepted' THEN
+    RETURN;
+  END IF;
+
+  v_challenger_hidden := v_user_id <> v_duel.challenger_id AND NOT is_leaderboard_visible(v_duel.challenger_id);
+  v_opponent_hidden := v_user_id <> v_duel.opponent_id AND NOT is_leaderboard_visible(v_duel.opponent_id);
+
+  RETURN QUERY
+  SELECT
+    w.week::date,
+    CASE WHEN v_challenger_hidden THEN NULL ELSE cl.minutes END,
+    CASE WHEN v_opponent_hidden THEN NULL ELSE ol.minutes END,
+    v_challenger_hidden,
+    v_opponent_hidden
+  FROM generate_series(v_duel.start_week, v_duel.end_week, interval '7 days') AS w(week)
+  LEFT JOIN screen_time_logs cl ON cl.user_id = v_duel.challenger_id
+    AND cl.week_start_date = w.week::date
+    AND cl.deleted_at IS NULL
+  LEFT JOIN screen_time_logs ol ON ol.user_id = v_duel.opponent_id
+    AND ol.week_start_date = w.week::date
+    AND ol.deleted_at IS NULL
+  ORDER BY w.week;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
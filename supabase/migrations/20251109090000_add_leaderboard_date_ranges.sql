@@ -0,0 +1,171 @@
+/*
+  # Leaderboard Date Ranges
+
+  ## Overview
+  `get_leaderboard()` used to take one of four hard-coded periods whose names ('daily', 'weekly',
+  'monthly') no longer matched what they covered (the current week, the last 4 and the last 12
+  weeks). It now takes an explicit range of weeks instead, so the app can offer those presets as
+  well as any custom range.
+
+  ## Functions
+  - `get_leaderboard(range_start, range_end, limit_count, scope_team_id, metric, baseline_weeks)`
+    - `range_start` - first week that counts, NULL for all time
+    - `range_end` - last week that counts, NULL for up to the current week
+    - raises 'Invalid leaderboard range' when the range ends before it starts, and an
+      `invalid_parameter_value` (22023) error when either bound is not a Sunday
+
+  ## Important Notes
+  - With the 'every_week' log requirement, members must have logged every completed week of the
+    range; a range that only covers the current week requires that week. All-time ranges keep
+    requiring a single log.
+  - The old `period` signature is dropped; clients pass the preset ranges themselves
+*/
+
+DROP FUNCTION IF EXISTS get_leaderboard(text, integer, uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION get_leaderboard(
+  range_start date DEFAULT NULL,
+  range_end date DEFAULT NULL,
+  limit_count integer DEFAULT 100,
+  scope_team_id uuid DEFAULT NULL,
+  metric text DEFAULT 'total',
+  baseline_weeks integer DEFAULT 3
+)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  avatar_url text,
+  total_minutes bigint,
+  current_streak integer,
+  rank bigint,
+  baseline_minutes numeric,
+  improvement_pct numeric,
+  current_goal_streak integer
+) AS $$
+DECLARE
+  v_current_week date;
+  v_range_end date;
+  v_last_completed_week date;
+  v_count_current_week boolean := false;
+  v_direction text;
+  v_requirement text;
+  v_required_weeks integer;
+BEGIN
+  -- Also validates team membership
+  SELECT r.ranking_direction, r.log_requirement
+  INTO v_direction, v_requirement
+  FROM get_leaderboard_rules(scope_team_id) r;
+
+  v_current_week := CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer;
+  v_range_end := COALESCE(range_end, v_current_week);
+
+  IF range_start IS NOT NULL AND range_start > v_range_end THEN
+    RAISE EXCEPTION 'Invalid leaderboard range';
+  END IF;
+
+  -- Required weeks and the week filter both count whole weeks
+  IF EXTRACT(DOW FROM range_start) <> 0 OR EXTRACT(DOW FROM range_end) <> 0 THEN
+    RAISE EXCEPTION 'Leaderboard ranges must start and end on a Sunday' USING ERRCODE = '22023';
+  END IF;
+
+  -- Weeks a member must have logged to be ranked
+  v_last_completed_week := LEAST(v_range_end, v_current_week - 7);
+
+  IF v_requirement = 'every_week' AND range_start IS NOT NULL THEN
+    IF v_last_completed_week >= range_start THEN
+      -- Completed weeks only: the in-progress week is usually logged once it ends
+      v_required_weeks := (v_last_completed_week - range_start) / 7 + 1;
+    ELSE
+      -- The range only covers the current week
+      v_required_weeks := 1;
+      v_count_current_week := true;
+    END IF;
+  ELSE
+    v_required_weeks := 0;
+  END IF;
+
+  RETURN QUERY
+  WITH numbered_logs AS (
+    SELECT
+      l.user_id AS log_user_id,
+      l.week_start_date AS log_week,
+      l.minutes AS log_minutes,
+      ROW_NUMBER() OVER (PARTITION BY l.user_id ORDER BY l.week_start_date ASC) AS week_number
+    FROM screen_time_logs l
+    WHERE l.deleted_at IS NULL
+  ),
+  baselines AS (
+    SELECT
+      nl.log_user_id AS baseline_user_id,
+      AVG(nl.log_minutes) AS baseline_avg,
+      MAX(nl.log_week) AS baseline_end
+    FROM numbered_logs nl
+    WHERE nl.week_number <= baseline_weeks
+    GROUP BY nl.log_user_id
+    HAVING COUNT(*) >= baseline_weeks
+  ),
+  totals AS (
+    SELECT
+      u.id AS member_id,
+      u.display_name AS member_name,
+      u.avatar_url AS member_avatar,
+      COALESCE(SUM(stl.minutes), 0)::bigint AS total,
+      COALESCE(us.current_streak, 0) AS streak,
+      COALESCE(us.current_goal_streak, 0) AS goal_streak,
+      b.baseline_avg,
+      AVG(stl.minutes) FILTER (WHERE stl.week_start_date > b.baseline_end) AS post_baseline_avg
+    FROM users u
+    LEFT JOIN screen_time_logs stl ON stl.user_id = u.id
+      AND (range_start IS NULL OR stl.week_start_date >= range_start)
+      AND stl.week_start_date <= v_range_end
+      AND stl.deleted_at IS NULL
+    LEFT JOIN user_settings ust ON ust.user_id = u.id
+    LEFT JOIN user_streaks us ON us.user_id = u.id
+    LEFT JOIN baselines b ON b.baseline_user_id = u.id
+    WHERE u.deleted_at IS NULL
+      AND (ust.show_on_leaderboard = true OR ust.show_on_leaderboard IS NULL)
+      AND (
+        scope_team_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM team_members tm
+          WHERE tm.team_id = scope_team_id AND tm.user_id = u.id
+        )
+      )
+    GROUP BY u.id, u.display_name, u.avatar_url, us.current_streak, us.current_goal_streak,
+      b.baseline_avg, b.baseline_end
+    HAVING COUNT(stl.id) > 0
+      AND COUNT(DISTINCT stl.week_start_date) FILTER (
+        WHERE v_count_current_week OR stl.week_start_date <= v_last_completed_week
+      ) >= v_required_weeks
+  ),
+  scored AS (
+    SELECT
+      t.*,
+      CASE
+        WHEN t.baseline_avg > 0 AND t.post_baseline_avg IS NOT NULL
+          THEN ROUND((t.baseline_avg - t.post_baseline_avg) / t.baseline_avg * 100, 1)
+      END AS improvement
+    FROM totals t
+  )
+  SELECT
+    s.member_id AS user_id,
+    s.member_name AS display_name,
+    s.member_avatar AS avatar_url,
+    s.total AS total_minutes,
+    s.streak AS current_streak,
+    RANK() OVER (
+      ORDER BY CASE
+        WHEN metric = 'improvement' THEN -s.improvement
+        WHEN v_direction = 'lower_is_better' THEN s.total
+        ELSE -s.total
+      END ASC
+    ) AS rank,
+    ROUND(s.baseline_avg, 1) AS baseline_minutes,
+    s.improvement AS improvement_pct,
+    s.goal_streak AS current_goal_streak
+  FROM scored s
+  WHERE metric <> 'improvement' OR s.improvement IS NOT NULL
+  ORDER BY rank ASC, display_name ASC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,188 @@
+/*
+  # Add Weekly Leaderboard Snapshots
+
+  ## Overview
+  The leaderboard is computed live, so there was no record of who won a past week or how ranks
+  moved from one week to the next. Two days after a week is over, its final standings are now
+  saved as a snapshot by a scheduled job for the global board, and for each team board the first
+  time it is viewed. Snapshots back the "past weeks" view of the leaderboard and the rank movement
+  arrows.
+
+  ## New Tables
+
+  ### 1. leaderboard_snapshots
+  One row per closed week and board
+  - `id` (uuid, primary key) - unique snapshot identifier
+  - `week_start_date` (date) - the week that was ranked
+  - `team_id` (uuid, nullable) - team board, NULL for the global board
+  - `created_at` (timestamptz) - when the standings were frozen
+
+  ### 2. leaderboard_snapshot_entries
+  - `snapshot_id` (uuid, foreign key) - references leaderboard_snapshots table
+  - `user_id` (uuid, foreign key) - ranked user
+  - `display_name` (text) - display name at the time of the snapshot
+  - `total_minutes` (bigint) - screen time logged for the week
+  - `rank` (bigint) - final position that week
+
+  ## Functions
+  - `take_leaderboard_snapshot(p_week_start, scope_team_id)` - freezes a closed week (internal)
+  - `take_weekly_leaderboard_snapshot()` - freezes the global board of the latest week that can be
+    frozen, used by the cron schedule (internal)
+  - `get_leaderboard_snapshot(p_week_start, scope_team_id)` - final standings of a closed week with
+    each user's rank in the week before; backfills missing snapshots the first time a week is
+    viewed, which is how team boards are frozen
+
+  ## Schedule
+  - `leaderboard-weekly-snapshot` - Tuesdays at 00:05 UTC, as soon as the week that ended on
+    Saturday can be frozen
+
+  ## Security
+  - Everyone can view global snapshots; team snapshots are visible to team members
+  - Snapshots are only written by the cron schedule, `get_leaderboard_snapshot` and the internal
+    email functions
+
+  ## Important Notes
+  - Snapshots rank by total screen time using the board's ranking rules at the time, and only
+    include users shown on the leaderboard at the time
+  - A week can only be frozen from the Tuesday after it ended, so logs added or edited late on
+    Sunday or Monday still count; until then the app shows the live board for it
+  - Weeks must start on a Sunday. Weeks before the first logged week are never frozen, so they
+    return no standings
+  - Like challenge results, logs added or edited after a snapshot was taken no longer change it
+*/
+
+CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  week_start_date date NOT NULL,
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS leaderboard_snapshot_entries (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  snapshot_id uuid NOT NULL REFERENCES leaderboard_snapshots(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  display_name text NOT NULL,
+  total_minutes bigint NOT NULL,
+  rank bigint NOT NULL,
+  UNIQUE(snapshot_id, user_id)
+);
+
+-- One snapshot per week and board; the global board has no team
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leaderboard_snapshots_week_team
+  ON leaderboard_snapshots (week_start_date, COALESCE(team_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+ALTER TABLE leaderboard_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leaderboard_snapshot_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view leaderboard snapshots"
+  ON leaderboard_snapshots FOR SELECT
+  TO authenticated
+  USING (team_id IS NULL OR is_team_member(team_id));
+
+CREATE POLICY "Users can view leaderboard snapshot entries"
+  ON leaderboard_snapshot_entries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leaderboard_snapshots s
+      WHERE s.id = snapshot_id AND (s.team_id IS NULL OR is_team_member(s.team_id))
+    )
+  );
+
+-- Freeze the final standings of a closed week, unless they already are
+CREATE OR REPLACE FUNCTION take_leaderboard_snapshot(p_week_start date, scope_team_id uuid DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_snapshot_id uuid;
+BEGIN
+  IF EXTRACT(DOW FROM p_week_start) <> 0 THEN
+    RAISE EXCEPTION 'Weeks start on Sunday';
+  END IF;
+
+  -- Late logs for the week can still come in until Tuesday
+  IF p_week_start + 9 > CURRENT_DATE THEN
+    RAISE EXCEPTION 'This week''s standings are not final yet';
+  END IF;
+
+  -- Nothing to rank before the first logged week
+  IF NOT EXISTS (
+    SELECT 1 FROM screen_time_logs l
+    WHERE l.week_start_date <= p_week_start AND l.deleted_at IS NULL
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- Concurrent callers wait on the unique index and then skip the insert
+  INSERT INTO leaderboard_snapshots (week_start_date, team_id)
+  VALUES (p_week_start, scope_team_id)
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO v_snapshot_id;
+
+  IF v_snapshot_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO leaderboard_snapshot_entries (snapshot_id, user_id, display_name, total_minutes, rank)
+  SELECT v_snapshot_id, l.user_id, l.display_name, l.total_minutes, l.rank
+  FROM get_leaderboard(p_week_start, p_week_start, NULL, scope_team_id, 'total') l;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION take_leaderboard_snapshot(date, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Freeze the global board of the latest week whose grace period is over; team boards check
+-- membership, so they are frozen by `get_leaderboard_snapshot` when a member views them
+CREATE OR REPLACE FUNCTION take_weekly_leaderboard_snapshot()
+RETURNS void AS $$
+BEGIN
+  PERFORM take_leaderboard_snapshot(
+    CURRENT_DATE - 9 - EXTRACT(DOW FROM CURRENT_DATE - 9)::integer,
+    NULL
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION take_weekly_leaderboard_snapshot() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('leaderboard-weekly-snapshot', '5 0 * * 2', $$SELECT take_weekly_leaderboard_snapshot()$$);
+
+-- Final standings of a closed week with the rank each user had the week before
+CREATE OR REPLACE FUNCTION get_leaderboard_snapshot(p_week_start date, scope_team_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  avatar_url text,
+  total_minutes bigint,
+  rank bigint,
+  previous_rank bigint
+) AS $$
+BEGIN
+  -- Also validates team membership
+  PERFORM get_leaderboard_rules(scope_team_id);
+
+  -- Also rejects weeks that are not final yet
+  PERFORM take_leaderboard_snapshot(p_week_start, scope_team_id);
+  PERFORM take_leaderboard_snapshot(p_week_start - 7, scope_team_id);
+
+  RETURN QUERY
+  SELECT
+    e.user_id,
+    e.display_name,
+    u.avatar_url,
+    e.total_minutes,
+    e.rank,
+    pe.rank AS previous_rank
+  FROM leaderboard_snapshots s
+  JOIN leaderboard_snapshot_entries e ON e.snapshot_id = s.id
+  LEFT JOIN users u ON u.id = e.user_id
+  LEFT JOIN leaderboard_snapshots ps ON ps.week_start_date = p_week_start - 7
+    AND ps.team_id IS NOT DISTINCT FROM scope_team_id
+  LEFT JOIN leaderboard_snapshot_entries pe ON pe.snapshot_id = ps.id AND pe.user_id = e.user_id
+  WHERE s.week_start_date = p_week_start
+    AND s.team_id IS NOT DISTINCT FROM scope_team_id
+  ORDER BY e.rank, e.display_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
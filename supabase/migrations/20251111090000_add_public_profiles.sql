@@ -0,0 +1,309 @@
+/*
+  # Add Public Profiles
+
+  ## Overview
+  Every user gets a profile page (`/u/<user id>`) showing their display name and avatar, and
+  depending on their privacy settings their streaks, badges and weekly history. Profiles can be
+  opened by teammates, and by anyone when the user is shown on the leaderboard.
+
+  ## Modified Tables
+
+  ### 1. user_settings
+  - `profile_show_streaks` (boolean, default true) - show logging and goal streaks to others
+  - `profile_show_badges` (boolean, default true) - show earned badges to others
+  - `profile_show_history` (boolean, default false) - show the weekly screen time history to others
+
+  ## Functions
+  - `can_view_profile(p_user_id)` - whether the current user may open a profile
+  - `profile_section_visible(p_user_id, p_section)` - whether a profile section ('streaks',
+    'badges' or 'history') is visible to the current user; always true for the user themselves
+  - `get_public_profile(p_user_id)` - name, avatar, section settings and (if visible) streaks
+  - `get_public_profile_badges(p_user_id)` - earned badges, empty when hidden
+  - `get_public_profile_history(p_user_id)` - weekly totals, empty when hidden
+  - `get_leaderboard(...)` - recreated; `current_streak` and `current_goal_streak` are NULL for
+    users whose streaks are not visible to the caller
+
+  ## Security
+  - Teammates could read each other's logs directly; that now also requires
+    `profile_show_history`, so the history setting covers every way of seeing the weekly totals
+  - Everyone could read every user's streaks; other users' streaks now require
+    `profile_show_streaks`, and `get_leaderboard` returns NULL streaks for users who hide them
+  - Leaderboards, challenges and duels still show totals for the weeks they rank, governed by
+    `show_on_leaderboard` as before
+*/
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS profile_show_streaks boolean DEFAULT true NOT NULL;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS profile_show_badges boolean DEFAULT true NOT NULL;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS profile_show_history boolean DEFAULT false NOT NULL;
+
+-- Whether the current user may open someone's profile
+CREATE OR REPLACE FUNCTION can_view_profile(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT auth.uid() IS NOT NULL
+    AND EXISTS (SELECT 1 FROM users u WHERE u.id = p_user_id AND u.deleted_at IS NULL)
+    AND (
+      p_user_id = auth.uid()
+      OR shares_team_with(p_user_id)
+      OR is_leaderboard_visible(p_user_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether a profile section is visible to the current user (missing settings use the defaults)
+CREATE OR REPLACE FUNCTION profile_section_visible(p_user_id uuid, p_section text)
+RETURNS boolean AS $$
+  SELECT p_user_id = auth.uid()
+    OR (
+      can_view_profile(p_user_id)
+      AND COALESCE(
+        (
+          SELECT CASE p_section
+            WHEN 'streaks' THEN ust.profile_show_streaks
+            WHEN 'badges' THEN ust.profile_show_badges
+            WHEN 'history' THEN ust.profile_show_history
+          END
+          FROM user_settings ust
+          WHERE ust.user_id = p_user_id
+        ),
+        p_section IN ('streaks', 'badges')
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Teammates only see each other's logs when the history is shared
+DROP POLICY IF EXISTS "Team members can view teammates' logs" ON screen_time_logs;
+
+CREATE POLICY "Team members can view teammates' logs"
+  ON screen_time_logs FOR SELECT
+  TO authenticated
+  USING (
+    deleted_at IS NULL
+    AND shares_team_with(user_id)
+    AND profile_section_visible(user_id, 'history')
+  );
+
+-- Streaks are only readable when the profile shares them
+DROP POLICY IF EXISTS "Users can view all streaks for leaderboard" ON user_streaks;
+
+CREATE POLICY "Users can view shared streaks"
+  ON user_streaks FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR profile_section_visible(user_id, 'streaks'));
+
+-- Recreate leaderboard function hiding streaks that are not shared
+CREATE OR REPLACE FUNCTION get_leaderboard(
+  range_start date DEFAULT NULL,
+  range_end date DEFAULT NULL,
+  limit_count integer DEFAULT 100,
+  scope_team_id uuid DEFAULT NULL,
+  metric text DEFAULT 'total',
+  baseline_weeks integer DEFAULT 3
+)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  avatar_url text,
+  total_minutes bigint,
+  current_streak integer,
+  rank bigint,
+  baseline_minutes numeric,
+  improvement_pct numeric,
+  current_goal_streak integer
+) AS $$
+DECLARE
+  v_current_week date;
+  v_range_end date;
+  v_last_completed_week date;
+  v_count_current_week boolean := false;
+  v_direction text;
+  v_requirement text;
+  v_required_weeks integer;
+BEGIN
+  -- Also validates team membership
+  SELECT r.ranking_direction, r.log_requirement
+  INTO v_direction, v_requirement
+  FROM get_leaderboard_rules(scope_team_id) r;
+
+  v_current_week := CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer;
+  v_range_end := COALESCE(range_end, v_current_week);
+
+  IF range_start IS NOT NULL AND range_start > v_range_end THEN
+    RAISE EXCEPTION 'Invalid leaderboard range';
+  END IF;
+
+  -- Required weeks and the week filter both count whole weeks
+  IF EXTRACT(DOW FROM range_start) <> 0 OR EXTRACT(DOW FROM range_end) <> 0 THEN
+    RAISE EXCEPTION 'Leaderboard ranges must start and end on a Sunday' USING ERRCODE = '22023';
+  END IF;
+
+  -- Weeks a member must have logged to be ranked
+  v_last_completed_week := LEAST(v_range_end, v_current_week - 7);
+
+  IF v_requirement = 'every_week' AND range_start IS NOT NULL THEN
+    IF v_last_completed_week >= range_start THEN
+      -- Completed weeks only: the in-progress week is usually logged once it ends
+      v_required_weeks := (v_last_completed_week - range_start) / 7 + 1;
+    ELSE
+      -- The range only covers the current week
+      v_required_weeks := 1;
+      v_count_current_week := true;
+    END IF;
+  ELSE
+    v_required_weeks := 0;
+  END IF;
+
+  RETURN QUERY
+  WITH numbered_logs AS (
+    SELECT
+      l.user_id AS log_user_id,
+      l.week_start_date AS log_week,
+      l.minutes AS log_minutes,
+      ROW_NUMBER() OVER (PARTITION BY l.user_id ORDER BY l.week_start_date ASC) AS week_number
+    FROM screen_time_logs l
+    WHERE l.deleted_at IS NULL
+  ),
+  baselines AS (
+    SELECT
+      nl.log_user_id AS baseline_user_id,
+      AVG(nl.log_minutes) AS baseline_avg,
+      MAX(nl.log_week) AS baseline_end
+    FROM numbered_logs nl
+    WHERE nl.week_number <= baseline_weeks
+    GROUP BY nl.log_user_id
+    HAVING COUNT(*) >= baseline_weeks
+  ),
+  totals AS (
+    SELECT
+      u.id AS member_id,
+      u.display_name AS member_name,
+      u.avatar_url AS member_avatar,
+      COALESCE(SUM(stl.minutes), 0)::bigint AS total,
+      COALESCE(us.current_streak, 0) AS streak,
+      COALESCE(us.current_goal_streak, 0) AS goal_streak,
+      b.baseline_avg,
+      AVG(stl.minutes) FILTER (WHERE stl.week_start_date > b.baseline_end) AS post_baseline_avg
+    FROM users u
+    LEFT JOIN screen_time_logs stl ON stl.user_id = u.id
+      AND (range_start IS NULL OR stl.week_start_date >= range_start)
+      AND stl.week_start_date <= v_range_end
+      AND stl.deleted_at IS NULL
+    LEFT JOIN user_settings ust ON ust.user_id = u.id
+    LEFT JOIN user_streaks us ON us.user_id = u.id
+    LEFT JOIN baselines b ON b.baseline_user_id = u.id
+    WHERE u.deleted_at IS NULL
+      AND (ust.show_on_leaderboard = true OR ust.show_on_leaderboard IS NULL)
+      AND (
+        scope_team_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM team_members tm
+          WHERE tm.team_id = scope_team_id AND tm.user_id = u.id
+        )
+      )
+    GROUP BY u.id, u.display_name, u.avatar_url, us.current_streak, us.current_goal_streak,
+      b.baseline_avg, b.baseline_end
+    HAVING COUNT(stl.id) > 0
+      AND COUNT(DISTINCT stl.week_start_date) FILTER (
+        WHERE v_count_current_week OR stl.week_start_date <= v_last_completed_week
+      ) >= v_required_weeks
+  ),
+  scored AS (
+    SELECT
+      t.*,
+      CASE
+        WHEN t.baseline_avg > 0 AND t.post_baseline_avg IS NOT NULL
+          THEN ROUND((t.baseline_avg - t.post_baseline_avg) / t.baseline_avg * 100, 1)
+      END AS improvement
+    FROM totals t
+  )
+  SELECT
+    s.member_id AS user_id,
+    s.member_name AS display_name,
+    s.member_avatar AS avatar_url,
+    s.total AS total_minutes,
+    CASE WHEN profile_section_visible(s.member_id, 'streaks') THEN s.streak END AS current_streak,
+    RANK() OVER (
+      ORDER BY CASE
+        WHEN metric = 'improvement' THEN -s.improvement
+        WHEN v_direction = 'lower_is_better' THEN s.total
+        ELSE -s.total
+      END ASC
+    ) AS rank,
+    ROUND(s.baseline_avg, 1) AS baseline_minutes,
+    s.improvement AS improvement_pct,
+    CASE WHEN profile_section_visible(s.member_id, 'streaks') THEN s.goal_streak END AS current_goal_streak
+  FROM scored s
+  WHERE metric <> 'improvement' OR s.improvement IS NOT NULL
+  ORDER BY rank ASC, display_name ASC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Profile header and streaks
+CREATE OR REPLACE FUNCTION get_public_profile(p_user_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  avatar_url text,
+  member_since timestamptz,
+  show_streaks boolean,
+  show_badges boolean,
+  show_history boolean,
+  current_streak integer,
+  longest_streak integer,
+  current_goal_streak integer,
+  longest_goal_streak integer
+) AS $$
+DECLARE
+  v_show_streaks boolean;
+BEGIN
+  IF NOT can_view_profile(p_user_id) THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  v_show_streaks := profile_section_visible(p_user_id, 'streaks');
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.display_name,
+    u.avatar_url,
+    u.created_at,
+    COALESCE(ust.profile_show_streaks, true),
+    COALESCE(ust.profile_show_badges, true),
+    COALESCE(ust.profile_show_history, false),
+    CASE WHEN v_show_streaks THEN COALESCE(us.current_streak, 0) END,
+    CASE WHEN v_show_streaks THEN COALESCE(us.longest_streak, 0) END,
+    CASE WHEN v_show_streaks THEN COALESCE(us.current_goal_streak, 0) END,
+    CASE WHEN v_show_streaks THEN COALESCE(us.longest_goal_streak, 0) END
+  FROM users u
+  LEFT JOIN user_settings ust ON ust.user_id = u.id
+  LEFT JOIN user_streaks us ON us.user_id = u.id
+  WHERE u.id = p_user_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Earned badges, if the user shares them
+CREATE OR REPLACE FUNCTION get_public_profile_badges(p_user_id uuid)
+RETURNS TABLE (
+  badge text,
+  earned_at timestamptz
+) AS $$
+  SELECT a.badge, a.earned_at
+  FROM achievements a
+  WHERE a.user_id = p_user_id
+    AND profile_section_visible(p_user_id, 'badges')
+  ORDER BY a.earned_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Weekly totals, if the user shares them
+CREATE OR REPLACE FUNCTION get_public_profile_history(p_user_id uuid)
+RETURNS TABLE (
+  week_start_date date,
+  minutes integer
+) AS $$
+  SELECT l.week_start_date, l.minutes
+  FROM screen_time_logs l
+  WHERE l.user_id = p_user_id
+    AND l.deleted_at IS NULL
+    AND profile_section_visible(p_user_id, 'history')
+  ORDER BY l.week_start_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
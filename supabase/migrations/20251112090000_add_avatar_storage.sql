@@ -0,0 +1,61 @@
+/*
+  # Add Avatar Storage
+
+  ## Overview
+  Users can upload a profile picture. The app crops and resizes the picture in the browser and
+  uploads a 256x256 JPEG to the `avatars` storage bucket; its public URL is saved in
+  `users.avatar_url`. Without an avatar the first letter of the display name is shown as before.
+
+  ## Storage
+
+  ### 1. avatars bucket
+  - Public, so avatars can be shown with a plain image URL wherever a user's name appears
+  - Files are stored as `<user id>/<timestamp>.jpg`; every upload gets a new name so cached copies
+    of the previous picture are never shown
+  - Limited to 2 MB JPEG, PNG and WebP images
+
+  ## Security
+  - Anyone can read avatars (the bucket is public)
+  - Only the owner can upload, replace or delete files, and only inside the folder named after
+    their own user id
+
+  ## Important Notes
+  - Uploading a new avatar removes the user's older files; removing the avatar clears
+    `users.avatar_url` and deletes the files
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view avatars"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload their own avatar"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update their own avatar"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  )
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete their own avatar"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
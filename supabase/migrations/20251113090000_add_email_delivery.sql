@@ -0,0 +1,208 @@
+/*
+  # Add Email Reminders and Weekly Digests
+
+  ## Overview
+  Users who turned on email notifications now get two emails, sent by the `send-emails` Edge
+  Function on a schedule:
+  - a reminder on Saturday evening when they have not logged the current week yet
+  - a digest on Sunday morning with the total, streak and leaderboard rank of the week that ended
+
+  ## New Tables
+
+  ### 1. email_deliveries
+  One row per email and week, so a job that runs twice never sends the same email twice
+  - `id` (uuid, primary key) - unique delivery identifier
+  - `user_id` (uuid, foreign key) - recipient
+  - `kind` (text) - 'log_reminder' or 'weekly_digest'
+  - `week_start_date` (date) - the week the email is about
+  - `status` (text) - 'pending' while sending, then 'sent' or 'failed'
+  - `error` (text, nullable) - why the last attempt failed
+  - `created_at` (timestamptz) - when the last attempt started
+  - `sent_at` (timestamptz, nullable) - when the email was accepted by the mail server
+
+  ## Functions
+  - `get_log_reminder_recipients(p_week_start)` - users who have not logged the week (defaults to
+    the current week) and have not been reminded yet
+  - `get_weekly_digest_recipients(p_week_start)` - users due a digest for the week (defaults to the
+    week that just ended), with the week's total, streak and global rank
+  - `claim_email_delivery(p_user_id, p_kind, p_week_start)` - records an attempt; returns NULL when
+    the email was already sent or is being sent, failed deliveries can be claimed again
+  - `invoke_email_job(p_job)` - calls the `send-emails` Edge Function, used by the cron schedule
+
+  ## Schedule
+  - `email-log-reminders` - Saturdays at 17:00 UTC
+  - `email-weekly-digest` - Sundays at 08:00 UTC
+  Both read the `project_url` and `email_job_secret` secrets from Vault; until they are set the
+  jobs do nothing
+
+  ## Security
+  - Users can view their own deliveries; only the service role writes them
+  - The recipient and delivery functions are internal and only callable by the service role
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('log_reminder', 'weekly_digest')),
+  week_start_date date NOT NULL,
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'sent', 'failed')),
+  error text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  sent_at timestamptz,
+  UNIQUE(user_id, kind, week_start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_user_id ON email_deliveries(user_id);
+
+ALTER TABLE email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own email deliveries"
+  ON email_deliveries FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Users who have not logged the week yet and have not been reminded about it
+CREATE OR REPLACE FUNCTION get_log_reminder_recipients(p_week_start date DEFAULT NULL)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  display_name text,
+  week_start_date date,
+  current_streak integer
+) AS $$
+DECLARE
+  v_week_start date := COALESCE(p_week_start, CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer);
+BEGIN
+  RETURN QUERY
+  SELECT u.id, u.email, u.display_name, v_week_start, COALESCE(us.current_streak, 0)
+  FROM users u
+  JOIN user_settings ust ON ust.user_id = u.id
+  LEFT JOIN user_streaks us ON us.user_id = u.id
+  WHERE u.deleted_at IS NULL
+    AND ust.email_notifications
+    AND NOT EXISTS (
+      SELECT 1 FROM screen_time_logs l
+      WHERE l.user_id = u.id AND l.week_start_date = v_week_start AND l.deleted_at IS NULL
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM email_deliveries d
+      WHERE d.user_id = u.id
+        AND d.kind = 'log_reminder'
+        AND d.week_start_date = v_week_start
+        AND d.status <> 'failed'
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Users due a digest for a closed week, with their results for it
+CREATE OR REPLACE FUNCTION get_weekly_digest_recipients(p_week_start date DEFAULT NULL)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  display_name text,
+  week_start_date date,
+  total_minutes integer,
+  current_streak integer,
+  rank bigint,
+  ranked_users bigint
+) AS $$
+DECLARE
+  v_week_start date := COALESCE(p_week_start, CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer - 7);
+BEGIN
+  IF v_week_start + 7 > CURRENT_DATE THEN
+    RAISE EXCEPTION 'This week is not over yet';
+  END IF;
+
+  -- The week is not frozen until Tuesday, so ranks come from the live global board
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT g.user_id, g.rank
+    FROM get_leaderboard(v_week_start, v_week_start, NULL, NULL, 'total') g
+  )
+  SELECT
+    u.id,
+    u.email,
+    u.display_name,
+    v_week_start,
+    l.minutes,
+    COALESCE(us.current_streak, 0),
+    r.rank,
+    (SELECT count(*) FROM ranked)
+  FROM users u
+  JOIN user_settings ust ON ust.user_id = u.id
+  LEFT JOIN user_streaks us ON us.user_id = u.id
+  LEFT JOIN screen_time_logs l ON l.user_id = u.id
+    AND l.week_start_date = v_week_start
+    AND l.deleted_at IS NULL
+  LEFT JOIN ranked r ON r.user_id = u.id
+  WHERE u.deleted_at IS NULL
+    AND ust.email_notifications
+    AND NOT EXISTS (
+      SELECT 1 FROM email_deliveries d
+      WHERE d.user_id = u.id
+        AND d.kind = 'weekly_digest'
+        AND d.week_start_date = v_week_start
+        AND d.status <> 'failed'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record an attempt to send an email, unless it was already sent or is being sent
+CREATE OR REPLACE FUNCTION claim_email_delivery(p_user_id uuid, p_kind text, p_week_start date)
+RETURNS uuid AS $$
+DECLARE
+  v_delivery_id uuid;
+BEGIN
+  INSERT INTO email_deliveries (user_id, kind, week_start_date)
+  VALUES (p_user_id, p_kind, p_week_start)
+  ON CONFLICT (user_id, kind, week_start_date) DO UPDATE
+    SET status = 'pending', error = NULL, created_at = now()
+    WHERE email_deliveries.status = 'failed'
+  RETURNING id INTO v_delivery_id;
+
+  RETURN v_delivery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Call the send-emails Edge Function; a no-op until the Vault secrets are configured
+CREATE OR REPLACE FUNCTION invoke_email_job(p_job text)
+RETURNS void AS $$
+DECLARE
+  v_project_url text;
+  v_job_secret text;
+BEGIN
+  SELECT decrypted_secret INTO v_project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_job_secret FROM vault.decrypted_secrets WHERE name = 'email_job_secret';
+
+  IF v_project_url IS NULL OR v_job_secret IS NULL THEN
+    RAISE NOTICE 'Skipping email job %: project_url or email_job_secret is not set in Vault', p_job;
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_project_url || '/functions/v1/send-emails',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_job_secret
+    ),
+    body := jsonb_build_object('job', p_job),
+    timeout_milliseconds := 60000
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_log_reminder_recipients(date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_weekly_digest_recipients(date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_email_delivery(uuid, text, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION invoke_email_job(text) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION get_log_reminder_recipients(date) TO service_role;
+GRANT EXECUTE ON FUNCTION get_weekly_digest_recipients(date) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_email_delivery(uuid, text, date) TO service_role;
+
+-- Weeks run Sunday to Saturday: remind before the week ends, summarize once it has
+SELECT cron.schedule('email-log-reminders', '0 17 * * 6', $$SELECT invoke_email_job('reminders')$$);
+SELECT cron.schedule('email-weekly-digest', '0 8 * * 0', $$SELECT invoke_email_job('digest')$$);
@@ -0,0 +1,524 @@
+/*
+  # Add Notification Preferences
+
+  ## Overview
+  The single `email_notifications` switch is replaced by a preference per notification type and
+  channel. Email is the only channel so far; each type can be turned on or off on its own:
+  - `log_reminder` - the week has not been logged yet
+  - `weekly_digest` - total, streak and rank of the week that ended
+  - `streak_at_risk` - sent instead of the log reminder when a running streak ends with this week
+  - `rank_change` - the user's global leaderboard rank went up or down last week
+  - `challenge_updates` - final results of a team challenge the user joined
+  Reminders are sent on the day and hour the user picked, in their own time zone, and every email
+  has a one-click unsubscribe link that works without signing in.
+
+  ## New Tables
+
+  ### 1. notification_preferences
+  One row per user and notification type; a missing row means the type is off
+  - `user_id` (uuid, foreign key) - references users table
+  - `notification_type` (text) - one of the types above
+  - `email` (boolean) - send this notification by email
+  - `updated_at` (timestamptz) - last change
+
+  ## Modified Tables
+
+  ### 1. user_settings
+  - `timezone` (text, default 'UTC') - IANA time zone used for the reminder schedule and weeks
+  - `reminder_day` (smallint, default 6) - day of the week for reminders, 0 = Sunday
+  - `reminder_hour` (smallint, default 17) - hour of the day for reminders, 0-23
+  - `unsubscribe_token` (uuid) - secret used by unsubscribe links
+  - `email_notifications` is removed; users who had it on keep getting reminders, streak warnings
+    and digests
+
+  ### 2. email_deliveries
+  - `kind` also accepts 'streak_at_risk', 'rank_change' and 'challenge_update'
+  - `reference_id` (uuid, nullable) - the challenge a 'challenge_update' is about, so results of
+    two challenges ending the same week are both sent
+
+  ## Functions
+  - `notification_enabled(p_user_id, p_type, p_channel)` - whether a user wants a notification
+  - `unsubscribe_from_email(p_token, p_type)` - turns off one email type, or all of them when
+    `p_type` is NULL; callable without signing in
+  - `finalize_challenge(p_challenge_id)` - freezes the results of a challenge that has ended
+    (internal, now also used by `get_challenge_standings`)
+  - `get_log_reminder_recipients(p_now)` - users whose reminder time has come and who have not
+    logged their current week, with the kind of reminder to send
+  - `get_weekly_digest_recipients`, `get_rank_change_recipients` and
+    `get_challenge_result_recipients` - recipients for the Sunday emails about the week that ended
+  - `claim_email_delivery` takes an optional `p_reference_id`
+
+  ## Schedule
+  - `email-log-reminders` now runs every hour, each user is reminded once their local reminder
+    time has passed
+
+  ## Security
+  - Users can view and change their own preferences
+  - Unsubscribe tokens are random and only turn emails off
+*/
+
+-- Reminder schedule and unsubscribe links
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS timezone text DEFAULT 'UTC' NOT NULL;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS reminder_day smallint DEFAULT 6 NOT NULL
+  CHECK (reminder_day BETWEEN 0 AND 6);
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS reminder_hour smallint DEFAULT 17 NOT NULL
+  CHECK (reminder_hour BETWEEN 0 AND 23);
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS unsubscribe_token uuid DEFAULT uuid_generate_v4() NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_settings_unsubscribe_token ON user_settings(unsubscribe_token);
+
+-- Time zone names can't be checked with a CHECK constraint, pg_timezone_names is not immutable
+CREATE OR REPLACE FUNCTION validate_user_settings_timezone()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_user_settings_timezone ON user_settings;
+CREATE TRIGGER validate_user_settings_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON user_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_user_settings_timezone();
+
+-- Notification preferences
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  notification_type text NOT NULL CHECK (
+    notification_type IN ('log_reminder', 'weekly_digest', 'streak_at_risk', 'rank_change', 'challenge_updates')
+  ),
+  email boolean DEFAULT false NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, notification_type)
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON notification_preferences FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification preferences"
+  ON notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Keep what users signed up for with the old switch, which covered "summaries and reminders"
+INSERT INTO notification_preferences (user_id, notification_type, email)
+SELECT ust.user_id, t.notification_type, true
+FROM user_settings ust
+CROSS JOIN (VALUES ('log_reminder'), ('weekly_digest'), ('streak_at_risk')) AS t(notification_type)
+WHERE ust.email_notifications
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE user_settings DROP COLUMN IF EXISTS email_notifications;
+
+CREATE OR REPLACE FUNCTION notification_enabled(p_user_id uuid, p_type text, p_channel text)
+RETURNS boolean AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE p_channel WHEN 'email' THEN np.email END
+      FROM notification_preferences np
+      WHERE np.user_id = p_user_id AND np.notification_type = p_type
+    ),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- One-click unsubscribe from an email, without signing in
+CREATE OR REPLACE FUNCTION unsubscribe_from_email(p_token uuid, p_type text DEFAULT NULL)
+RETURNS boolean AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  SELECT ust.user_id INTO v_user_id
+  FROM user_settings ust
+  WHERE ust.unsubscribe_token = p_token;
+
+  IF v_user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO notification_preferences (user_id, notification_type, email)
+  SELECT v_user_id, t.notification_type, false
+  FROM unnest(ARRAY['log_reminder', 'weekly_digest', 'streak_at_risk', 'rank_change', 'challenge_updates'])
+    AS t(notification_type)
+  WHERE p_type IS NULL OR t.notification_type = p_type
+  ON CONFLICT (user_id, notification_type) DO UPDATE SET email = false;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION unsubscribe_from_email(uuid, text) TO anon, authenticated;
+
+-- More kinds of email, and challenge results are sent per challenge
+ALTER TABLE email_deliveries DROP CONSTRAINT IF EXISTS email_deliveries_kind_check;
+ALTER TABLE email_deliveries ADD CONSTRAINT email_deliveries_kind_check CHECK (
+  kind IN ('log_reminder', 'weekly_digest', 'streak_at_risk', 'rank_change', 'challenge_update')
+);
+
+ALTER TABLE email_deliveries ADD COLUMN IF NOT EXISTS reference_id uuid;
+ALTER TABLE email_deliveries DROP CONSTRAINT IF EXISTS email_deliveries_user_id_kind_week_start_date_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_deliveries_unique
+  ON email_deliveries (
+    user_id, kind, week_start_date, COALESCE(reference_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  );
+
+DROP FUNCTION IF EXISTS claim_email_delivery(uuid, text, date);
+
+CREATE OR REPLACE FUNCTION claim_email_delivery(
+  p_user_id uuid,
+  p_kind text,
+  p_week_start date,
+  p_reference_id uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_delivery_id uuid;
+BEGIN
+  INSERT INTO email_deliveries (user_id, kind, week_start_date, reference_id)
+  VALUES (p_user_id, p_kind, p_week_start, p_reference_id)
+  ON CONFLICT (user_id, kind, week_start_date, COALESCE(reference_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  DO UPDATE
+    SET status = 'pending', error = NULL, created_at = now()
+    WHERE email_deliveries.status = 'failed'
+  RETURNING id INTO v_delivery_id;
+
+  RETURN v_delivery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Whether an email has been sent (or is being sent) already
+CREATE OR REPLACE FUNCTION email_already_sent(
+  p_user_id uuid,
+  p_kinds text[],
+  p_week_start date,
+  p_reference_id uuid DEFAULT NULL
+)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM email_deliveries d
+    WHERE d.user_id = p_user_id
+      AND d.kind = ANY(p_kinds)
+      AND d.week_start_date = p_week_start
+      AND d.reference_id IS NOT DISTINCT FROM p_reference_id
+      AND d.status <> 'failed'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Reminders go out once the user's local reminder time has passed on their reminder day. Users
+-- with a streak that ends unless this week is logged get a streak warning instead.
+DROP FUNCTION IF EXISTS get_log_reminder_recipients(date);
+
+CREATE OR REPLACE FUNCTION get_log_reminder_recipients(p_now timestamptz DEFAULT now())
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  display_name text,
+  week_start_date date,
+  current_streak integer,
+  kind text,
+  unsubscribe_token uuid
+) AS $$
+  WITH local_time AS (
+    SELECT
+      u.id,
+      u.email,
+      u.display_name,
+      ust.unsubscribe_token,
+      ust.reminder_day,
+      ust.reminder_hour,
+      p_now AT TIME ZONE ust.timezone AS local_now,
+      us.current_streak,
+      us.last_log_week_start
+    FROM users u
+    JOIN user_settings ust ON ust.user_id = u.id
+    LEFT JOIN user_streaks us ON us.user_id = u.id
+    WHERE u.deleted_at IS NULL
+  ),
+  due AS (
+    SELECT
+      lt.*,
+      lt.local_now::date - EXTRACT(DOW FROM lt.local_now)::integer AS week_start
+    FROM local_time lt
+    WHERE EXTRACT(DOW FROM lt.local_now) = lt.reminder_day
+      AND EXTRACT(HOUR FROM lt.local_now) >= lt.reminder_hour
+  ),
+  typed AS (
+    SELECT
+      d.*,
+      CASE
+        WHEN d.current_streak > 0
+          AND d.last_log_week_start = d.week_start - 7
+          AND notification_enabled(d.id, 'streak_at_risk', 'email')
+          THEN 'streak_at_risk'
+        WHEN notification_enabled(d.id, 'log_reminder', 'email')
+          THEN 'log_reminder'
+      END AS reminder_kind
+    FROM due d
+  )
+  SELECT t.id, t.email, t.display_name, t.week_start, COALESCE(t.current_streak, 0), t.reminder_kind, t.unsubscribe_token
+  FROM typed t
+  WHERE t.reminder_kind IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM screen_time_logs l
+      WHERE l.user_id = t.id AND l.week_start_date = t.week_start AND l.deleted_at IS NULL
+    )
+    AND NOT email_already_sent(t.id, ARRAY['log_reminder', 'streak_at_risk'], t.week_start);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS get_weekly_digest_recipients(date);
+
+CREATE OR REPLACE FUNCTION get_weekly_digest_recipients(p_week_start date DEFAULT NULL)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  display_name text,
+  week_start_date date,
+  total_minutes integer,
+  current_streak integer,
+  rank bigint,
+  ranked_users bigint,
+  unsubscribe_token uuid
+) AS $$
+DECLARE
+  v_week_start date := COALESCE(p_week_start, CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer - 7);
+BEGIN
+  IF v_week_start + 7 > CURRENT_DATE THEN
+    RAISE EXCEPTION 'This week is not over yet';
+  END IF;
+
+  -- The week is not frozen until Tuesday, so ranks come from the live global board
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT g.user_id, g.rank
+    FROM get_leaderboard(v_week_start, v_week_start, NULL, NULL, 'total') g
+  )
+  SELECT
+    u.id,
+    u.email,
+    u.display_name,
+    v_week_start,
+    l.minutes,
+    COALESCE(us.current_streak, 0),
+    r.rank,
+    (SELECT count(*) FROM ranked),
+    ust.unsubscribe_token
+  FROM users u
+  JOIN user_settings ust ON ust.user_id = u.id
+  LEFT JOIN user_streaks us ON us.user_id = u.id
+  LEFT JOIN screen_time_logs l ON l.user_id = u.id
+    AND l.week_start_date = v_week_start
+    AND l.deleted_at IS NULL
+  LEFT JOIN ranked r ON r.user_id = u.id
+  WHERE u.deleted_at IS NULL
+    AND notification_enabled(u.id, 'weekly_digest', 'email')
+    AND NOT email_already_sent(u.id, ARRAY['weekly_digest'], v_week_start);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Users whose global rank moved between the week before and the week that ended
+CREATE OR REPLACE FUNCTION get_rank_change_recipients(p_week_start date DEFAULT NULL)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  display_name text,
+  week_start_date date,
+  rank bigint,
+  previous_rank bigint,
+  unsubscribe_token uuid
+) AS $$
+DECLARE
+  v_week_start date := COALESCE(p_week_start, CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer - 7);
+BEGIN
+  IF v_week_start + 7 > CURRENT_DATE THEN
+    RAISE EXCEPTION 'This week is not over yet';
+  END IF;
+
+  -- The week that ended is ranked live like in the digest; the week before is final by now
+  PERFORM take_leaderboard_snapshot(v_week_start - 7, NULL);
+
+  RETURN QUERY
+  SELECT u.id, u.email, u.display_name, v_week_start, g.rank, pe.rank, ust.unsubscribe_token
+  FROM get_leaderboard(v_week_start, v_week_start, NULL, NULL, 'total') g
+  JOIN leaderboard_snapshots ps ON ps.week_start_date = v_week_start - 7 AND ps.team_id IS NULL
+  JOIN leaderboard_snapshot_entries pe ON pe.snapshot_id = ps.id AND pe.user_id = g.user_id
+  JOIN users u ON u.id = g.user_id
+  JOIN user_settings ust ON ust.user_id = u.id
+  WHERE g.rank <> pe.rank
+    AND u.deleted_at IS NULL
+    AND notification_enabled(u.id, 'rank_change', 'email')
+    AND NOT email_already_sent(u.id, ARRAY['rank_change'], v_week_start);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Freeze the results of a challenge that has ended, unless they already are
+CREATE OR REPLACE FUNCTION finalize_challenge(p_challenge_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_challenge challenges;
+BEGIN
+  -- Locked so concurrent callers only snapshot once
+  SELECT * INTO v_challenge
+  FROM challenges c
+  WHERE c.id = p_challenge_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_challenge.finalized_at IS NOT NULL OR CURRENT_DATE < v_challenge.end_week + 7 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO challenge_results (
+    challenge_id, user_id, display_name, total_minutes, weeks_logged, baseline_minutes, score, rank
+  )
+  SELECT
+    p_challenge_id, s.user_id, s.display_name, s.total_minutes, s.weeks_logged,
+    s.baseline_minutes, s.score, s.rank
+  FROM compute_challenge_standings(p_challenge_id) s;
+
+  UPDATE challenges c
+  SET finalized_at = now()
+  WHERE c.id = p_challenge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_challenge_standings(p_challenge_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  avatar_url text,
+  total_minutes bigint,
+  weeks_logged integer,
+  baseline_minutes numeric,
+  score numeric,
+  rank bigint
+) AS $$
+DECLARE
+  v_challenge challenges;
+BEGIN
+  SELECT * INTO v_challenge
+  FROM challenges c
+  WHERE c.id = p_challenge_id;
+
+  IF NOT FOUND OR NOT is_team_member(v_challenge.team_id) THEN
+    RAISE EXCEPTION 'Challenge not found';
+  END IF;
+
+  IF v_challenge.finalized_at IS NULL AND CURRENT_DATE >= v_challenge.end_week + 7 THEN
+    PERFORM finalize_challenge(p_challenge_id);
+
+    SELECT * INTO v_challenge
+    FROM challenges c
+    WHERE c.id = p_challenge_id;
+  END IF;
+
+  IF v_challenge.finalized_at IS NOT NULL THEN
+    RETURN QUERY
+    SELECT
+      r.user_id, r.display_name, u.avatar_url, r.total_minutes, r.weeks_logged,
+      r.baseline_minutes, r.score, r.rank
+    FROM challenge_results r
+    LEFT JOIN users u ON u.id = r.user_id
+    WHERE r.challenge_id = p_challenge_id
+    ORDER BY r.rank NULLS LAST, r.display_name;
+  ELSE
+    RETURN QUERY
+    SELECT * FROM compute_challenge_standings(p_challenge_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Participants of challenges whose last week just ended, with their final results
+CREATE OR REPLACE FUNCTION get_challenge_result_recipients(p_week_start date DEFAULT NULL)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  display_name text,
+  week_start_date date,
+  challenge_id uuid,
+  challenge_name text,
+  team_name text,
+  rank bigint,
+  participants bigint,
+  winner_name text,
+  unsubscribe_token uuid
+) AS $$
+DECLARE
+  v_week_start date := COALESCE(p_week_start, CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer - 7);
+  v_challenge_id uuid;
+BEGIN
+  IF v_week_start + 7 > CURRENT_DATE THEN
+    RAISE EXCEPTION 'This week is not over yet';
+  END IF;
+
+  FOR v_challenge_id IN
+    SELECT c.id FROM challenges c WHERE c.end_week = v_week_start
+  LOOP
+    PERFORM finalize_challenge(v_challenge_id);
+  END LOOP;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email,
+    u.display_name,
+    v_week_start,
+    c.id,
+    c.name,
+    t.name,
+    r.rank,
+    (SELECT count(*) FROM challenge_results cr WHERE cr.challenge_id = c.id),
+    (
+      SELECT string_agg(w.display_name, ', ' ORDER BY w.display_name)
+      FROM challenge_results w
+      WHERE w.challenge_id = c.id AND w.rank = 1
+    ),
+    ust.unsubscribe_token
+  FROM challenges c
+  JOIN teams t ON t.id = c.team_id
+  JOIN challenge_results r ON r.challenge_id = c.id
+  JOIN users u ON u.id = r.user_id
+  JOIN user_settings ust ON ust.user_id = u.id
+  WHERE c.end_week = v_week_start
+    AND u.deleted_at IS NULL
+    AND notification_enabled(u.id, 'challenge_updates', 'email')
+    AND NOT email_already_sent(u.id, ARRAY['challenge_update'], v_week_start, c.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notification_enabled(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION email_already_sent(uuid, text[], date, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_email_delivery(uuid, text, date, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_log_reminder_recipients(timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_weekly_digest_recipients(date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_rank_change_recipients(date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finalize_challenge(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_challenge_result_recipients(date) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION claim_email_delivery(uuid, text, date, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION get_log_reminder_recipients(timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION get_weekly_digest_recipients(date) TO service_role;
+GRANT EXECUTE ON FUNCTION get_rank_change_recipients(date) TO service_role;
+GRANT EXECUTE ON FUNCTION get_challenge_result_recipients(date) TO service_role;
+
+-- Scheduling under the same name replaces the Saturday-only job
+SELECT cron.schedule('email-log-reminders', '0 * * * *', $$SELECT invoke_email_job('reminders')$$);
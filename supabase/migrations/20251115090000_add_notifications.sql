@@ -0,0 +1,289 @@
+/*
+  # Add In-App Notifications
+
+  ## Overview
+  Users had no place in the app to see what happened since their last visit. Events are now saved
+  as notifications, shown under the bell in the app and pushed to open tabs with Supabase
+  Realtime:
+  - `badge_earned` - the user earned a badge
+  - `overtaken` - another user moved ahead of them on this week's global leaderboard
+  - `challenge_invite` - a new challenge in one of their teams, or a duel invitation
+  - `streak_at_risk` - their streak ends unless they log this week, at their reminder time
+  Notifications are written by triggers and by an hourly job, never by the app. Their text is
+  built in the app (`src/lib/notifications.ts`) from the type and `data`.
+
+  ## New Tables
+
+  ### 1. notifications
+  - `id` (uuid, primary key) - unique notification identifier
+  - `user_id` (uuid, foreign key) - who the notification is for
+  - `type` (text) - one of the events above
+  - `data` (jsonb) - details of the event, depending on the type
+  - `read_at` (timestamptz, nullable) - when the user marked it as read
+  - `created_at` (timestamptz) - when the event happened
+
+  ## Modified Tables
+
+  ### 1. notification_preferences
+  - `notification_type` also accepts 'badge_earned', 'overtaken' and 'challenge_invite'
+  - `in_app` (boolean, default true) - show this notification in the app
+
+  ## Functions
+  - `notification_enabled` treats a missing preference as on for the in-app channel
+  - `notify_badge_earned()`, `notify_overtaken()`, `notify_challenge_invite()` and
+    `notify_duel_invite()` - triggers that write the notifications
+  - `notify_streaks_at_risk(p_now)` - writes streak warnings that are due (internal)
+
+  ## Schedule
+  - `notify-streaks-at-risk` runs every hour
+
+  ## Security
+  - Users can view their own notifications and mark them as read
+  - The table is added to the `supabase_realtime` publication; Realtime applies the same policies
+
+  ## Important Notes
+  - Overtaking only counts on the global board of the current week, between users shown on the
+    leaderboard, using the deployment's ranking direction
+  - An unread notification about the same user passing you in the same week is not repeated
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('badge_earned', 'overtaken', 'challenge_invite', 'streak_at_risk')),
+  data jsonb DEFAULT '{}'::jsonb NOT NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark own notifications as read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Only the read state can change
+REVOKE UPDATE ON notifications FROM authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+-- In-app preferences, on unless turned off
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_notification_type_check;
+ALTER TABLE notification_preferences ADD CONSTRAINT notification_preferences_notification_type_check CHECK (
+  notification_type IN (
+    'log_reminder', 'weekly_digest', 'streak_at_risk', 'rank_change', 'challenge_updates',
+    'badge_earned', 'overtaken', 'challenge_invite'
+  )
+);
+
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS in_app boolean DEFAULT true NOT NULL;
+
+CREATE OR REPLACE FUNCTION notification_enabled(p_user_id uuid, p_type text, p_channel text)
+RETURNS boolean AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE p_channel WHEN 'email' THEN np.email WHEN 'in_app' THEN np.in_app END
+      FROM notification_preferences np
+      WHERE np.user_id = p_user_id AND np.notification_type = p_type
+    ),
+    p_channel = 'in_app'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Badges
+CREATE OR REPLACE FUNCTION notify_badge_earned()
+RETURNS trigger AS $$
+BEGIN
+  IF notification_enabled(NEW.user_id, 'badge_earned', 'in_app') THEN
+    INSERT INTO notifications (user_id, type, data)
+    VALUES (NEW.user_id, 'badge_earned', jsonb_build_object('badge', NEW.badge));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_badge_earned ON achievements;
+CREATE TRIGGER notify_badge_earned
+  AFTER INSERT ON achievements
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_badge_earned();
+
+-- Users the logger moved ahead of on this week's global board
+CREATE OR REPLACE FUNCTION notify_overtaken()
+RETURNS trigger AS $$
+DECLARE
+  v_week_start date := CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::integer;
+  v_lower_is_better boolean;
+  v_old_minutes integer;
+  v_display_name text;
+BEGIN
+  IF NEW.week_start_date <> v_week_start
+    OR NEW.deleted_at IS NOT NULL
+    OR NOT is_leaderboard_visible(NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.deleted_at IS NULL THEN
+    v_old_minutes := OLD.minutes;
+  END IF;
+
+  SELECT COALESCE(s.ranking_direction, 'lower_is_better') = 'lower_is_better'
+  INTO v_lower_is_better
+  FROM (SELECT 1) AS one
+  LEFT JOIN app_settings s ON s.id = true;
+
+  SELECT display_name INTO v_display_name FROM users WHERE id = NEW.user_id;
+
+  INSERT INTO notifications (user_id, type, data)
+  SELECT
+    l.user_id,
+    'overtaken',
+    jsonb_build_object(
+      'user_id', NEW.user_id,
+      'display_name', v_display_name,
+      'week_start_date', v_week_start
+    )
+  FROM screen_time_logs l
+  WHERE l.week_start_date = v_week_start
+    AND l.deleted_at IS NULL
+    AND l.user_id <> NEW.user_id
+    -- Ahead now
+    AND CASE WHEN v_lower_is_better THEN NEW.minutes < l.minutes ELSE NEW.minutes > l.minutes END
+    -- And not before
+    AND (
+      v_old_minutes IS NULL
+      OR CASE WHEN v_lower_is_better THEN v_old_minutes >= l.minutes ELSE v_old_minutes <= l.minutes END
+    )
+    AND is_leaderboard_visible(l.user_id)
+    AND notification_enabled(l.user_id, 'overtaken', 'in_app')
+    AND NOT EXISTS (
+      SELECT 1 FROM notifications n
+      WHERE n.user_id = l.user_id
+        AND n.type = 'overtaken'
+        AND n.read_at IS NULL
+        AND n.data->>'user_id' = NEW.user_id::text
+        AND n.data->>'week_start_date' = v_week_start::text
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_overtaken ON screen_time_logs;
+CREATE TRIGGER notify_overtaken
+  AFTER INSERT OR UPDATE OF minutes, deleted_at ON screen_time_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_overtaken();
+
+-- New team challenges, for every member but the one who created it
+CREATE OR REPLACE FUNCTION notify_challenge_invite()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, data)
+  SELECT
+    tm.user_id,
+    'challenge_invite',
+    jsonb_build_object(
+      'challenge_id', NEW.id,
+      'challenge_name', NEW.name,
+      'team_name', t.name,
+      'start_week', NEW.start_week
+    )
+  FROM team_members tm
+  JOIN teams t ON t.id = tm.team_id
+  WHERE tm.team_id = NEW.team_id
+    AND tm.user_id IS DISTINCT FROM NEW.created_by
+    AND notification_enabled(tm.user_id, 'challenge_invite', 'in_app');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_challenge_invite ON challenges;
+CREATE TRIGGER notify_challenge_invite
+  AFTER INSERT ON challenges
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_challenge_invite();
+
+CREATE OR REPLACE FUNCTION notify_duel_invite()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'pending' AND notification_enabled(NEW.opponent_id, 'challenge_invite', 'in_app') THEN
+    INSERT INTO notifications (user_id, type, data)
+    SELECT
+      NEW.opponent_id,
+      'challenge_invite',
+      jsonb_build_object(
+        'duel_id', NEW.id,
+        'user_id', NEW.challenger_id,
+        'display_name', u.display_name,
+        'start_week', NEW.start_week
+      )
+    FROM users u
+    WHERE u.id = NEW.challenger_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_duel_invite ON duels;
+CREATE TRIGGER notify_duel_invite
+  AFTER INSERT ON duels
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_duel_invite();
+
+-- Streak warnings at each user's reminder time, like the emails in get_log_reminder_recipients
+CREATE OR REPLACE FUNCTION notify_streaks_at_risk(p_now timestamptz DEFAULT now())
+RETURNS void AS $$
+  WITH local_time AS (
+    SELECT
+      ust.user_id,
+      ust.reminder_day,
+      ust.reminder_hour,
+      p_now AT TIME ZONE ust.timezone AS local_now
+    FROM user_settings ust
+    JOIN users u ON u.id = ust.user_id
+    WHERE u.deleted_at IS NULL
+  ),
+  due AS (
+    SELECT
+      lt.user_id,
+      lt.local_now::date - EXTRACT(DOW FROM lt.local_now)::integer AS week_start
+    FROM local_time lt
+    WHERE EXTRACT(DOW FROM lt.local_now) = lt.reminder_day
+      AND EXTRACT(HOUR FROM lt.local_now) >= lt.reminder_hour
+  )
+  INSERT INTO notifications (user_id, type, data)
+  SELECT
+    d.user_id,
+    'streak_at_risk',
+    jsonb_build_object('week_start_date', d.week_start, 'current_streak', us.current_streak)
+  FROM due d
+  JOIN user_streaks us ON us.user_id = d.user_id
+  WHERE us.current_streak > 0
+    AND us.last_log_week_start = d.week_start - 7
+    AND notification_enabled(d.user_id, 'streak_at_risk', 'in_app')
+    AND NOT EXISTS (
+      SELECT 1 FROM notifications n
+      WHERE n.user_id = d.user_id
+        AND n.type = 'streak_at_risk'
+        AND n.data->>'week_start_date' = d.week_start::text
+    );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notify_streaks_at_risk(timestamptz) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('notify-streaks-at-risk', '0 * * * *', $$SELECT notify_streaks_at_risk()$$);